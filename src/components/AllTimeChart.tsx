@@ -9,7 +9,8 @@ import {
   ReferenceDot,
 } from 'recharts';
 import { format, subMonths, subYears } from 'date-fns';
-import { DailyData } from '@/lib/practiceAnalytics';
+import { AverageMetric, chartPointBudget, DailyData, downsampleData, getMetricValue, nearestPointIndex } from '@/lib/practiceAnalytics';
+import { useElementWidth } from '@/hooks/useElementWidth';
 
 interface Milestone {
   id: number;
@@ -24,6 +25,7 @@ interface AllTimeChartProps {
   data: DailyData[];
   milestones: Milestone[];
   onHover?: (data: DailyData | null) => void;
+  metric?: AverageMetric;
 }
 
 type ZoomOption = '1M' | '6M' | '1Y' | 'ALL';
@@ -104,7 +106,7 @@ const getMilestoneTitle = (m: Milestone): string | null => {
   return null;
 };
 
-export function AllTimeChart({ data, milestones, onHover }: AllTimeChartProps) {
+export function AllTimeChart({ data, milestones, onHover, metric = 'lifetime' }: AllTimeChartProps) {
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
   const [scrubPercentage, setScrubPercentage] = useState<number>(100);
   const [isScrubbing, setIsScrubbing] = useState(false);
@@ -112,7 +114,12 @@ export function AllTimeChart({ data, milestones, onHover }: AllTimeChartProps) {
   const [viewStart, setViewStart] = useState<number | null>(null);
   const [viewEnd, setViewEnd] = useState<number | null>(null);
   const [zoomOption, setZoomOption] = useState<ZoomOption>('ALL');
-  const chartWrapperRef = useRef<HTMLDivElement>(null);
+  const chartWrapperRef = useRef<HTMLDivElement | null>(null);
+  const [measureChart, chartWidth] = useElementWidth<HTMLDivElement>();
+  const setChartWrapper = useCallback((element: HTMLDivElement | null) => {
+    chartWrapperRef.current = element;
+    measureChart(element);
+  }, [measureChart]);
   const touchHoldRef = useRef<{ x: number; y: number; timeoutId: number | null } | null>(null);
   const panStateRef = useRef<{ startX: number; startViewStart: number; startViewEnd: number } | null>(null);
   const panRafRef = useRef<number | null>(null);
@@ -130,9 +137,9 @@ export function AllTimeChart({ data, milestones, onHover }: AllTimeChartProps) {
       index,
       timestamp: d.date.getTime(),
       displayDate: format(d.date, 'd MMM yyyy'),
-      averageHours: d.cumulativeAverage,
+      averageHours: getMetricValue(d, metric),
     }));
-  }, [data]);
+  }, [data, metric]);
 
   const { dataMin, dataMax } = useMemo(() => {
     if (chartData.length === 0) return { dataMin: 0, dataMax: 0 };
@@ -186,7 +193,11 @@ export function AllTimeChart({ data, milestones, onHover }: AllTimeChartProps) {
     return chartData.slice(sliceStart, sliceEnd);
   }, [chartData, viewStart, viewEnd]);
 
-  const displayData = visibleChartData.length > 0 ? visibleChartData : chartData;
+  // Only the visible window is downsampled, so zooming in brings back the daily detail
+  const displayData = useMemo(
+    () => downsampleData(visibleChartData.length > 0 ? visibleChartData : chartData, chartPointBudget(chartWidth), metric),
+    [visibleChartData, chartData, chartWidth, metric]
+  );
 
   // Map milestones to chart data points - only show ones with proper titles
   const milestoneMarkers = useMemo(() => {
@@ -363,12 +374,16 @@ export function AllTimeChart({ data, milestones, onHover }: AllTimeChartProps) {
     const rect = chartWrapperRef.current.getBoundingClientRect();
     const x = Math.min(Math.max(clientX - rect.left, 0), rect.width);
     const ratio = rect.width > 0 ? x / rect.width : 0;
-    const index = Math.round(ratio * (displayData.length - 1));
-    const clampedIndex = Math.min(Math.max(index, 0), displayData.length - 1);
+    // The window is laid out by time, and the downsampled points in it are unevenly spaced
+    const firstTime = displayData[0].timestamp;
+    const lastTime = displayData[displayData.length - 1].timestamp;
+    const windowStart = viewStart ?? firstTime;
+    const windowEnd = viewEnd ?? lastTime;
+    const index = nearestPointIndex(displayData, windowStart + ratio * (windowEnd - windowStart));
 
-    setActiveIndex(clampedIndex);
-    setScrubPercentage(displayData.length > 1 ? (clampedIndex / (displayData.length - 1)) * 100 : 100);
-  }, [displayData]);
+    setActiveIndex(index);
+    setScrubPercentage(lastTime > firstTime ? ((displayData[index].timestamp - firstTime) / (lastTime - firstTime)) * 100 : 100);
+  }, [displayData, viewStart, viewEnd]);
 
   const handleScrubStart = useCallback((clientX: number, event?: React.SyntheticEvent) => {
     event?.preventDefault();
@@ -629,7 +644,7 @@ export function AllTimeChart({ data, milestones, onHover }: AllTimeChartProps) {
   return (
     <div className="flex w-full flex-col gap-4">
       <div
-        ref={chartWrapperRef}
+        ref={setChartWrapper}
         className="w-full h-72 md:h-80 relative overscroll-none"
         style={{ touchAction: isScrubbing || isPanning ? 'none' : 'pan-y' }}
         onPointerDown={(event) => {
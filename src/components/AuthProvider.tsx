@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState, ReactNode } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { AuthContext } from '@/hooks/useAuth';
+import { notifyTableChanged } from '@/hooks/useTrash';
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Subscribe first so a token refresh during getSession is not missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setIsLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Rows from before accounts existed go to the first account (see claim_unowned_rows)
+  const userId = session?.user.id;
+  useEffect(() => {
+    if (!userId) return;
+    supabase.rpc('claim_unowned_rows').then(({ data, error }) => {
+      if (error) {
+        console.error('[Auth] Error claiming unowned rows:', error);
+        return;
+      }
+      if (data > 0) {
+        notifyTableChanged('practice_sessions');
+        notifyTableChanged('milestones');
+        notifyTableChanged('repertoire_items');
+      }
+    });
+  }, [userId]);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  }, []);
+
+  const signUp = useCallback(async (email: string, password: string) => {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: `${window.location.origin}${import.meta.env.BASE_URL}` },
+    });
+    if (error) throw error;
+    // Without a session the project requires email confirmation first
+    return { needsConfirmation: !data.session };
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ session, user: session?.user ?? null, isLoading, signIn, signUp, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
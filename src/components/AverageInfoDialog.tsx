@@ -1,3 +1,5 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
 import {
   Dialog,
   DialogContent,
@@ -73,6 +75,9 @@ export function AverageInfoDialog({ open, onOpenChange, currentAverage, totalHou
             );
           })}
         </div>
+        <Button variant="ghost" size="sm" className="mt-2 text-muted-foreground" asChild>
+          <Link to="/simulator">Simulate a longer schedule</Link>
+        </Button>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,27 @@
+import { AVERAGE_METRICS, AverageMetric } from '@/lib/practiceAnalytics';
+
+interface AverageMetricSelectorProps {
+  selectedMetric: AverageMetric;
+  onMetricChange: (metric: AverageMetric) => void;
+}
+
+export function AverageMetricSelector({ selectedMetric, onMetricChange }: AverageMetricSelectorProps) {
+  return (
+    <div className="flex items-center justify-start gap-4">
+      {AVERAGE_METRICS.map(({ key, label, title }) => (
+        <button
+          key={key}
+          onClick={() => onMetricChange(key)}
+          title={title}
+          className={`text-sm font-medium transition-colors duration-200 ${
+            selectedMetric === key
+              ? 'text-foreground'
+              : 'text-muted-foreground hover:text-foreground/70'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { FileUpload } from '@/components/FileUpload';
+import { useBackup } from '@/hooks/useBackup';
+import { useToast } from '@/hooks/use-toast';
+import { BackupArchive, BackupTable, BACKUP_TABLES, RestoreMode, validateArchive } from '@/lib/backup';
+
+const TABLE_LABELS: Record<BackupTable, string> = {
+  practice_sessions: 'Sessions',
+  milestones: 'Milestones',
+  repertoire_items: 'Repertoire',
+};
+
+export function BackupRestore() {
+  const { isExporting, isRestoring, exportArchive, exportTableCSV, restore } = useBackup();
+  const { toast } = useToast();
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [confirmReplace, setConfirmReplace] = useState(false);
+
+  const handleFileLoad = (content: string) => {
+    try {
+      setArchive(validateArchive(JSON.parse(content)));
+    } catch (error) {
+      console.error('[Backup] Invalid archive:', error);
+      toast({
+        title: 'Invalid backup',
+        description: error instanceof SyntaxError
+          ? 'The file is not valid JSON'
+          : error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const runRestore = async () => {
+    if (!archive) return;
+    const result = await restore(archive, mode);
+    if (result) {
+      setArchive(null);
+      setMode('merge');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Export */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={exportArchive} disabled={isExporting}>
+            <Download className="w-4 h-4 mr-1" />
+            {isExporting ? 'Exporting...' : 'Export backup (JSON)'}
+          </Button>
+          {BACKUP_TABLES.map(table => (
+            <Button
+              key={table}
+              variant="ghost"
+              size="sm"
+              onClick={() => exportTableCSV(table)}
+              disabled={isExporting}
+            >
+              {TABLE_LABELS[table]} CSV
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The JSON backup contains sessions, milestones and repertoire and can be restored below.
+        </p>
+      </div>
+
+      {/* Restore */}
+      {!archive ? (
+        <FileUpload
+          onFileLoad={handleFileLoad}
+          accept=".json,application/json"
+          acceptLabel="Accepts backup .json files"
+        />
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {BACKUP_TABLES.map(table => (
+              <div key={table} className="flex flex-col px-3 py-2 rounded-lg bg-muted">
+                <span className="text-[10px] text-muted-foreground">{TABLE_LABELS[table]}</span>
+                <span className="text-sm font-semibold text-foreground">{archive.tables[table].length}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Backup from {format(new Date(archive.exportedAt), 'd MMM yyyy, HH:mm')} · {archive.appVersion} · schema v{archive.schemaVersion}
+          </p>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+              <Label htmlFor="restore-merge" className="font-normal">
+                <span className="font-medium">Merge</span>
+                <span className="block text-xs text-muted-foreground">
+                  Add sessions and repertoire items that are missing. Milestones from the backup overwrite ones with the same hours.
+                </span>
+              </Label>
+            </div>
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" />
+              <Label htmlFor="restore-replace" className="font-normal">
+                <span className="font-medium">Replace</span>
+                <span className="block text-xs text-muted-foreground">
+                  Move all current data to the trash and restore the backup exactly. A copy of the current data is downloaded first.
+                </span>
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <div className="flex gap-2">
+            <Button
+              variant={mode === 'replace' ? 'destructive' : 'default'}
+              onClick={() => (mode === 'replace' ? setConfirmReplace(true) : runRestore())}
+              disabled={isRestoring}
+            >
+              {isRestoring ? 'Restoring...' : mode === 'replace' ? 'Replace data' : 'Merge backup'}
+            </Button>
+            <Button variant="outline" onClick={() => setArchive(null)} disabled={isRestoring}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={confirmReplace} onOpenChange={setConfirmReplace}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace all data?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All sessions, milestones and repertoire items will be moved to the trash and replaced by the backup. Nothing changes if the restore fails.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={runRestore}>Replace</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,7 +1,72 @@
+import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { Calendar, RefreshCw, CheckCircle, XCircle } from 'lucide-react';
 import { useCalendarSync } from '@/hooks/useCalendarSync';
+import { SKIP_REASON_LABELS, SkipReason, SyncRun, useSyncRuns } from '@/hooks/useSyncRuns';
+
+// "12 fetched · 1 new · 3 skipped (2 title filter, 1 already stored)"
+function describeRun(run: SyncRun): string {
+  const parts = [`${run.events_fetched} fetched`];
+  if (run.inserted > 0) parts.push(`${run.inserted} new`);
+  if (run.updated > 0) parts.push(`${run.updated} changed`);
+  if (run.removed > 0) parts.push(`${run.removed} removed`);
+  if (run.skipped > 0) {
+    const reasons = (Object.keys(run.skip_reasons) as SkipReason[])
+      .filter(reason => run.skip_reasons[reason])
+      .map(reason => `${run.skip_reasons[reason]} ${SKIP_REASON_LABELS[reason] ?? reason}`);
+    parts.push(`${run.skipped} skipped${reasons.length > 0 ? ` (${reasons.join(', ')})` : ''}`);
+  }
+  return parts.join(' · ');
+}
+
+function SyncRunHistory() {
+  const { runs, isLoading } = useSyncRuns();
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading history...</p>;
+  }
+
+  if (runs.length === 0) {
+    return <p className="text-xs text-muted-foreground">No syncs recorded yet</p>;
+  }
+
+  return (
+    <ScrollArea className="h-64 pr-3">
+      <div className="space-y-1">
+        {runs.map(run => (
+          <div key={run.id} className="px-3 py-2 rounded-lg bg-muted">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                {run.status === 'error' ? (
+                  <XCircle className="w-3.5 h-3.5 flex-shrink-0 text-destructive" />
+                ) : run.status === 'running' ? (
+                  <RefreshCw className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" />
+                ) : (
+                  <CheckCircle className="w-3.5 h-3.5 flex-shrink-0 text-primary" />
+                )}
+                <span className="text-sm text-foreground truncate">{run.source_name}</span>
+                {run.full_sync && (
+                  <Badge variant="outline" className="text-[10px] font-medium text-muted-foreground">
+                    Full
+                  </Badge>
+                )}
+              </div>
+              <span className="text-xs text-muted-foreground flex-shrink-0">
+                {format(new Date(run.started_at), 'd MMM, HH:mm')}
+              </span>
+            </div>
+            <p className={`text-xs mt-1 ${run.error ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {run.error ?? (run.status === 'running' ? 'Did not finish' : describeRun(run))}
+            </p>
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+}
 
 interface CalendarSyncStatusProps {
   variant?: 'compact' | 'full';
@@ -98,11 +163,17 @@ export function CalendarSyncStatus({ variant = 'full', onSyncComplete }: Calenda
           </Button>
         </div>
 
+        {/* Run History */}
+        <div className="pt-2 border-t border-border space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">History</p>
+          <SyncRunHistory />
+        </div>
+
         {/* Help Text */}
         <div className="pt-2 border-t border-border">
           <p className="text-xs text-muted-foreground">
-            <strong>Note:</strong> The sync will automatically fetch new events from your 
-            ATracker calendar that are newer than your latest practice session.
+            <strong>Note:</strong> Each sync fetches new, moved and deleted events from your
+            calendars. The history shows why fetched events were skipped.
           </p>
         </div>
       </CardContent>
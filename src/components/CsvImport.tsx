@@ -0,0 +1,369 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileUpload } from '@/components/FileUpload';
+import { useSessionImport, DetectedFormat } from '@/hooks/useSessionImport';
+import {
+  IMPORTERS,
+  getImporter,
+  ColumnMapping,
+  DateFormat,
+  DecimalConvention,
+  DurationUnit,
+  ImporterId,
+  ImportSettings,
+} from '@/lib/importers';
+import { ImportRowStatus } from '@/lib/sessionImport';
+import { formatHoursMinutes } from '@/lib/practiceAnalytics';
+import { cn } from '@/lib/utils';
+
+// Rows shown in the preview table; the summary always covers the whole file
+const PREVIEW_LIMIT = 200;
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  overlap: 'Overlap',
+  invalid: 'Invalid',
+};
+
+const STATUS_CLASSES: Record<ImportRowStatus, string> = {
+  new: 'text-[hsl(var(--chart-positive))]',
+  duplicate: 'text-muted-foreground',
+  overlap: 'text-[#FACC15]',
+  invalid: 'text-destructive',
+};
+
+// Radix Select does not allow empty values
+const NONE = '__none__';
+
+const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  atracker: '1. Feb 2024 at 18:00',
+  iso: 'ISO 8601',
+  ymd: 'YYYY-MM-DD',
+  dmy: 'DD.MM.YYYY',
+  mdy: 'MM/DD/YYYY',
+};
+
+const DURATION_UNIT_LABELS: Record<DurationUnit, string> = {
+  hours: 'Hours',
+  minutes: 'Minutes',
+  seconds: 'Seconds',
+  hms: 'H:MM:SS',
+};
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string; required?: boolean }[] = [
+  { key: 'start', label: 'Start date', required: true },
+  { key: 'startTime', label: 'Start time' },
+  { key: 'end', label: 'End date' },
+  { key: 'endTime', label: 'End time' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'task', label: 'Task' },
+];
+
+export function CsvImport() {
+  const {
+    detected,
+    plan,
+    parseErrors,
+    isAnalyzing,
+    isImporting,
+    importedCount,
+    analyze,
+    applySettings,
+    commit,
+    reset,
+  } = useSessionImport();
+  const [includeOverlaps, setIncludeOverlaps] = useState(false);
+  const [showMapping, setShowMapping] = useState(false);
+
+  // Detection failed or the user wants to adjust the mapping
+  const mappingEditor = detected && (!detected.settings || showMapping) ? (
+    <MappingEditor
+      key={`${detected.formatId ?? 'none'}-${detected.headers.join('|')}`}
+      detected={detected}
+      isApplying={isAnalyzing}
+      onApply={(formatId, settings) => {
+        setShowMapping(false);
+        applySettings(formatId, settings);
+      }}
+    />
+  ) : null;
+
+  const handleReset = () => {
+    setShowMapping(false);
+    reset();
+  };
+
+  if (!plan) {
+    return (
+      <div className="space-y-3">
+        {detected && !detected.settings ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Could not recognise this file. Pick the columns to import from.
+            </p>
+            {mappingEditor}
+            <Button variant="outline" onClick={handleReset}>
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <FileUpload
+            onFileLoad={analyze}
+            isLoading={isAnalyzing}
+            accept=".csv,.json,text/csv,application/json"
+            acceptLabel="Accepts .csv and .json files"
+          />
+        )}
+        {parseErrors.length > 0 && <ParseErrorList errors={parseErrors} />}
+      </div>
+    );
+  }
+
+  const { summary } = plan;
+  const writeCount = summary.newCount + (includeOverlaps ? summary.overlapCount : 0);
+
+  return (
+    <div className="space-y-4">
+      {detected?.formatId && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            Detected format: <span className="text-foreground">{getImporter(detected.formatId).label}</span>
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setShowMapping(prev => !prev)} disabled={isImporting}>
+            {showMapping ? 'Hide mapping' : 'Adjust mapping'}
+          </Button>
+        </div>
+      )}
+      {mappingEditor}
+
+      {/* Dry-run summary */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {[
+          { label: 'New', value: summary.newCount },
+          { label: 'Duplicates', value: summary.duplicateCount },
+          { label: 'Overlaps', value: summary.overlapCount },
+          { label: 'Errors', value: parseErrors.length + summary.invalidCount },
+        ].map(card => (
+          <div key={card.label} className="flex flex-col px-3 py-2 rounded-lg bg-muted">
+            <span className="text-[10px] text-muted-foreground">{card.label}</span>
+            <span className="text-sm font-semibold text-foreground">{card.value}</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Dry run: {summary.total} rows
+        {summary.firstDate && summary.lastDate
+          ? ` from ${format(summary.firstDate, 'd MMM yyyy')} to ${format(summary.lastDate, 'd MMM yyyy')}`
+          : ''}
+        . Importing adds {formatHoursMinutes(summary.newHours)} in {summary.newCount} new sessions. Nothing has been written yet.
+      </p>
+
+      {/* Preview table */}
+      <ScrollArea className="h-64 rounded-lg border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Start</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plan.rows.slice(0, PREVIEW_LIMIT).map((row, index) => (
+              <TableRow key={index}>
+                <TableCell className="font-mono text-xs">{format(row.startedAt, 'yyyy-MM-dd HH:mm')}</TableCell>
+                <TableCell className="text-xs">{formatHoursMinutes(row.durationSeconds / 3600)}</TableCell>
+                <TableCell className={cn('text-xs', STATUS_CLASSES[row.status])}>
+                  {STATUS_LABELS[row.status]}
+                  {row.reason ? <span className="text-muted-foreground"> · {row.reason}</span> : null}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+      {plan.rows.length > PREVIEW_LIMIT && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {PREVIEW_LIMIT} of {plan.rows.length} rows
+        </p>
+      )}
+
+      {parseErrors.length > 0 && <ParseErrorList errors={parseErrors} />}
+
+      {summary.overlapCount > 0 && (
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={includeOverlaps}
+            onCheckedChange={(checked) => setIncludeOverlaps(checked === true)}
+          />
+          Also import {summary.overlapCount} overlapping session{summary.overlapCount !== 1 ? 's' : ''}
+        </label>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={() => commit(includeOverlaps)} disabled={isImporting || writeCount === 0}>
+          {isImporting
+            ? `Importing ${importedCount}/${writeCount}...`
+            : `Import ${writeCount} session${writeCount !== 1 ? 's' : ''}`}
+        </Button>
+        <Button variant="outline" onClick={handleReset} disabled={isImporting}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface MappingEditorProps {
+  detected: DetectedFormat;
+  isApplying: boolean;
+  onApply: (formatId: ImporterId, settings: ImportSettings) => void;
+}
+
+function MappingEditor({ detected, isApplying, onApply }: MappingEditorProps) {
+  const formats = IMPORTERS.filter(i => i.kind === detected.kind);
+  const initialFormat = detected.formatId ?? formats[formats.length - 1].id;
+  const [formatId, setFormatId] = useState<ImporterId>(initialFormat);
+  const [settings, setSettings] = useState<ImportSettings>(
+    detected.settings ?? { ...getImporter(initialFormat).defaults, mapping: { start: detected.headers[0] ?? '' } }
+  );
+
+  // Switching format resets the parsing conventions but keeps the column choices
+  const handleFormatChange = (id: ImporterId) => {
+    setFormatId(id);
+    setSettings(prev => ({ ...getImporter(id).defaults, mapping: prev.mapping }));
+  };
+
+  const setColumn = (key: keyof ColumnMapping, value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      mapping: { ...prev.mapping, [key]: value === NONE ? undefined : value },
+    }));
+  };
+
+  const canApply = !!settings.mapping.start && (!!settings.mapping.duration || !!settings.mapping.end);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Format</Label>
+          <Select value={formatId} onValueChange={(value) => handleFormatChange(value as ImporterId)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {formats.map(f => (
+                <SelectItem key={f.id} value={f.id}>{f.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Date format</Label>
+          <Select
+            value={settings.dateFormat}
+            onValueChange={(value) => setSettings(prev => ({ ...prev, dateFormat: value as DateFormat }))}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(key => (
+                <SelectItem key={key} value={key}>{DATE_FORMAT_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Duration unit</Label>
+          <Select
+            value={settings.durationUnit}
+            onValueChange={(value) => setSettings(prev => ({ ...prev, durationUnit: value as DurationUnit }))}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DURATION_UNIT_LABELS) as DurationUnit[]).map(key => (
+                <SelectItem key={key} value={key}>{DURATION_UNIT_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Decimal separator</Label>
+          <Select
+            value={settings.decimal}
+            onValueChange={(value) => setSettings(prev => ({ ...prev, decimal: value as DecimalConvention }))}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="comma">Comma (1,5)</SelectItem>
+              <SelectItem value="dot">Dot (1.5)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {MAPPING_FIELDS.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label className="text-xs">{field.label}</Label>
+            <Select
+              value={settings.mapping[field.key] ?? NONE}
+              onValueChange={(value) => setColumn(field.key, value)}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {!field.required && <SelectItem value={NONE}>None</SelectItem>}
+                {detected.headers.filter(Boolean).map(header => (
+                  <SelectItem key={header} value={header}>{header}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Map a duration column, or an end column to compute the duration from.
+      </p>
+      <Button size="sm" onClick={() => onApply(formatId, settings)} disabled={!canApply || isApplying}>
+        {isApplying ? 'Analyzing...' : 'Apply mapping'}
+      </Button>
+    </div>
+  );
+}
+
+function ParseErrorList({ errors }: { errors: { row: number; message: string }[] }) {
+  return (
+    <div className="rounded-lg border border-destructive/50 p-3">
+      <div className="flex items-center gap-2 mb-2">
+        <Badge variant="destructive">{errors.length}</Badge>
+        <span className="text-sm font-medium">Rows that could not be parsed</span>
+      </div>
+      <div className="max-h-32 overflow-y-auto">
+        <ul className="space-y-1">
+          {errors.map(error => (
+            <li key={error.row} className="text-xs text-muted-foreground">
+              <span className="font-mono">Row {error.row}:</span> {error.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,31 @@
 import { useState, useMemo, useCallback, useEffect } from 'react';
-import { format, startOfDay } from 'date-fns';
+import { format } from 'date-fns';
 import { AddMilestoneDialog, AddMilestonePayload } from '@/components/AddMilestoneDialog';
 import { MetricDisplay } from '@/components/MetricDisplay';
 import { TimeRangeSelector } from '@/components/TimeRangeSelector';
+import { AverageMetricSelector } from '@/components/AverageMetricSelector';
 import { PracticeChart } from '@/components/PracticeChart';
 import { IntradayChart } from '@/components/IntradayChart';
+import { IntradayDayPicker } from '@/components/IntradayDayPicker';
 import { AllTimeChart } from '@/components/AllTimeChart';
 import { StatsFooter } from '@/components/StatsFooter';
-import { calculateAnalytics, filterDataByRange, downsampleData, calculateDelta, calculateIntradayData, AnalyticsResult, DailyData, IntradayData } from '@/lib/practiceAnalytics';
-import { PracticeSession } from '@/lib/csvParser';
+import { calculateConsistency, filterDataByRange, filterDataByDates, calculateDelta, calculateIntradayData, addHoursToDay, DEFAULT_STREAK_MINIMUM_MINUTES, getMetricSensitivity, getMetricValue, AVERAGE_METRICS, AnalyticsResult, AverageMetric, DailyData, DateRange, dayOnOrBefore, IntradayData } from '@/lib/practiceAnalytics';
+import { formatDateRange, milestoneRangePresets } from '@/lib/rangePresets';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useCalendarSync } from '@/hooks/useCalendarSync';
 import { useMilestones } from '@/hooks/useMilestones';
+import { fetchSessionRowsBetween, loadDailyAnalytics, SESSIONS_REFRESH_EVENT, SessionRow } from '@/hooks/usePracticeSessions';
+import { PREFERENCE_KEYS, usePreference } from '@/hooks/usePreference';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { formatZonedTime, keyToDate, nextDayKey, practiceDayKey, practiceDayStart, zonedHour } from '@/lib/dayBoundary';
 import { RefreshCw, Settings } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { APP_VERSION } from '@/lib/version';
-type TimeRange = '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX';
+type TimeRange = '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX' | 'CUSTOM';
+
+const METRIC_STORAGE_KEY = 'dailyAverage:metric';
 
 interface Milestone {
   id: number;
@@ -33,16 +41,20 @@ interface DailyAverageSectionProps {
   mirrorTimeSeconds?: number;
 }
 
-interface RawSession {
-  started_at: string;
-  duration_seconds: number;
-}
-
 export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }: DailyAverageSectionProps) {
   const [analytics, setAnalytics] = useState<AnalyticsResult | null>(null);
-  const [rawSessions, setRawSessions] = useState<RawSession[]>([]);
+  // Sessions around the practice day shown in the 1D view, loaded on demand
+  const [intradaySessions, setIntradaySessions] = useState<SessionRow[]>([]);
   const [milestones, setMilestones] = useState<Milestone[]>([]);
   const [timeRange, setTimeRange] = useState<TimeRange>('1M');
+  // Practice day replayed in the 1D view; null follows today
+  const [intradayDay, setIntradayDay] = useState<string | null>(null);
+  const [customRange, setCustomRange] = useState<DateRange | null>(null);
+  const [metric, setMetric] = useState<AverageMetric>(() => {
+    if (typeof window === 'undefined') return 'lifetime';
+    const stored = window.localStorage.getItem(METRIC_STORAGE_KEY);
+    return AVERAGE_METRICS.some(m => m.key === stored) ? (stored as AverageMetric) : 'lifetime';
+  });
   const [isLoading, setIsLoading] = useState(true);
   const [hoveredData, setHoveredData] = useState<DailyData | null>(null);
   const [hoveredIntradayData, setHoveredIntradayData] = useState<IntradayData | null>(null);
@@ -50,53 +62,22 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
   const { toast } = useToast();
   const { syncCalendar, isSyncing } = useCalendarSync();
   const { createMilestone } = useMilestones();
+  const navigate = useNavigate();
+  const [streakMinimumMinutes] = usePreference(PREFERENCE_KEYS.streakMinimumMinutes, DEFAULT_STREAK_MINIMUM_MINUTES);
+  const [dayBoundary] = useDayBoundary();
 
-  // Fetch all data from Supabase (paginated)
+  // Fetch the daily totals from Supabase
   const fetchData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const allData: any[] = [];
-      let from = 0;
-      const pageSize = 1000;
-      let data;
-
-      do {
-        const { data: pageData, error } = await supabase
-          .from('practice_sessions')
-          .select('*')
-          .order('started_at', { ascending: true })
-          .range(from, from + pageSize - 1);
-        
-        if (error) throw error;
-        data = pageData;
-        if (data && data.length > 0) {
-          allData.push(...data);
-        }
-        from += pageSize;
-      } while (data && data.length === pageSize);
+      const result = await loadDailyAnalytics(dayBoundary);
 
-      if (allData.length === 0) {
+      if (!result) {
         setAnalytics(null);
-        setRawSessions([]);
         onAnalyticsUpdate?.(null);
         return;
       }
 
-      // Store raw sessions for intraday calculation
-      setRawSessions(allData.map(row => ({
-        started_at: row.started_at,
-        duration_seconds: row.duration_seconds,
-      })));
-
-      const sessions: PracticeSession[] = allData.map(row => ({
-        taskName: 'Practice',
-        startTime: new Date(row.started_at),
-        endTime: new Date(new Date(row.started_at).getTime() + row.duration_seconds * 1000),
-        duration: '',
-        durationInHours: row.duration_seconds / 3600,
-      }));
-
-      const result = calculateAnalytics(sessions);
       setAnalytics(result);
       onAnalyticsUpdate?.(result);
       
@@ -104,27 +85,22 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
       const { data: milestonesData } = await supabase
         .from('milestones')
         .select('*')
+        .is('deleted_at', null)
         .order('hours', { ascending: true });
 
       const getCumulativeAt = (target: Date) => {
-        const key = format(startOfDay(target), 'yyyy-MM-dd');
-        const exact = result.dailyData.find(d => d.dateStr === key);
-        if (exact) return exact.cumulativeHours;
-        if (target < result.startDate) return 0;
-        if (target > result.endDate) return result.totalHours;
-        const fallback = [...result.dailyData].reverse().find(d => d.date <= target);
-        return fallback ? fallback.cumulativeHours : 0;
+        const day = dayOnOrBefore(result.dailyData, practiceDayKey(target, dayBoundary));
+        return day ? day.cumulativeHours : 0;
       };
 
-      const y1Date = new Date('2025-02-01T00:00:00');
-      const todayStart = startOfDay(new Date());
+      const todayKey = practiceDayKey(new Date(), dayBoundary);
 
-      // Generate a Yn marker for every yearly anniversary that has already passed.
+      // Generate a Yn marker for every yearly anniversary (1 February) that has already passed.
       const syntheticMilestones: Milestone[] = [];
       for (let yearOffset = 0; ; yearOffset++) {
-        const yDate = new Date(y1Date);
-        yDate.setFullYear(yDate.getFullYear() + yearOffset);
-        if (yDate > todayStart) break;
+        const yKey = `${2025 + yearOffset}-02-01`;
+        if (yKey > todayKey) break;
+        const yDate = practiceDayStart(yKey, dayBoundary);
         syntheticMilestones.push({
           id: -1001 - yearOffset,
           hours: Math.round(getCumulativeAt(yDate)),
@@ -148,12 +124,48 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
     } finally {
       setIsLoading(false);
     }
-  }, [toast, onAnalyticsUpdate]);
+  }, [toast, onAnalyticsUpdate, dayBoundary]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  // Refetch when sessions are edited elsewhere
+  useEffect(() => {
+    const handler = () => fetchData();
+    window.addEventListener(SESSIONS_REFRESH_EVENT, handler);
+    return () => window.removeEventListener(SESSIONS_REFRESH_EVENT, handler);
+  }, [fetchData]);
+
+  useEffect(() => {
+    window.localStorage.setItem(METRIC_STORAGE_KEY, metric);
+  }, [metric]);
+
+  // Only the 1D view needs raw sessions, and only those of the day it shows
+  const intradayKey = timeRange === '1D' ? intradayDay ?? practiceDayKey(new Date(), dayBoundary) : null;
+  useEffect(() => {
+    if (!intradayKey || !analytics) return;
+    let cancelled = false;
+    // Sessions from the day before can run into this day when they are split
+    const from = new Date(practiceDayStart(intradayKey, dayBoundary).getTime() - 24 * 3600 * 1000);
+    const to = practiceDayStart(nextDayKey(intradayKey), dayBoundary);
+    fetchSessionRowsBetween(from, to)
+      .then(rows => {
+        if (!cancelled) setIntradaySessions(rows);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          title: 'Error loading sessions',
+          description: error instanceof Error ? error.message : 'Unknown error',
+          variant: 'destructive',
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [intradayKey, analytics, dayBoundary, toast]);
+
   // Auto-sync calendar on mount
   useEffect(() => {
     let cancelled = false;
@@ -174,9 +186,18 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
     };
   }, []);
 
-  const { filteredData, delta, intradayData, baselineAverage, todayPlayTime, adjustedCurrentAverage, adjustedTotalHours, averageProgressPercent } = useMemo(() => {
+  // The intraday view always follows the lifetime average
+  const activeMetric: AverageMetric = timeRange === '1D' ? 'lifetime' : metric;
+
+  // Days of the custom range at full resolution (the chart may be downsampled)
+  const customRangeData = useMemo(() => {
+    if (!analytics || timeRange !== 'CUSTOM' || !customRange) return null;
+    return filterDataByDates(analytics.dailyData, customRange);
+  }, [analytics, timeRange, customRange]);
+
+  const { filteredData, delta, intradayData, baselineAverage, todayPlayTime, adjustedCurrentAverage, adjustedLifetimeAverage, adjustedTotalHours, averageProgressPercent } = useMemo(() => {
     if (!analytics) {
-      return { filteredData: [], delta: { value: 0, percentage: 0 }, intradayData: [], baselineAverage: 0, todayPlayTime: 0, adjustedCurrentAverage: 0, adjustedTotalHours: 0, averageProgressPercent: 0 };
+      return { filteredData: [], delta: { value: 0, percentage: 0 }, intradayData: [], baselineAverage: 0, todayPlayTime: 0, adjustedCurrentAverage: 0, adjustedLifetimeAverage: 0, adjustedTotalHours: 0, averageProgressPercent: 0 };
     }
     
     // Convert mirror time to hours
@@ -184,15 +205,17 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
     
     // Adjusted total hours (includes mirror time)
     const adjustedTotal = analytics.totalHours + mirrorTimeHours;
-    // Adjusted current average (includes mirror time distributed over total days)
-    const adjustedAvg = analytics.currentAverage + (mirrorTimeHours / analytics.totalDays);
+    // Adjusted lifetime average (includes mirror time distributed over total days)
+    const adjustedLifetime = analytics.currentAverage + (mirrorTimeHours / analytics.totalDays);
     
     // Calculate progress toward next second in the average
     // The display uses Math.round(), so we need to track when the rounded value changes
-    // Total seconds with mirror time
-    const totalSecondsWithMirror = (analytics.totalHours * 3600) + mirrorTimeSeconds;
-    // Exact average in seconds (e.g., 5234.67)
-    const exactAverageSeconds = totalSecondsWithMirror / analytics.totalDays;
+    const lastDay = analytics.dailyData[analytics.dailyData.length - 1];
+    // Exact average in seconds (e.g., 5234.67), with mirror time added to today
+    const exactAverageSeconds = getMetricValue(lastDay, activeMetric) * 3600
+      + mirrorTimeSeconds * getMetricSensitivity(lastDay, activeMetric);
+    // Adjusted current value of the selected average
+    const adjustedAvg = exactAverageSeconds / 3600;
     // Current displayed value (rounded)
     const displayedSeconds = Math.round(exactAverageSeconds);
     // The threshold where rounding changes is at X.5
@@ -204,28 +227,28 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
     
     // For 1D view, calculate intraday data with plateau-slope model
     if (timeRange === '1D') {
-      const { intradayData: intraday, baselineAverage: baseline } = calculateIntradayData(analytics.dailyData, rawSessions);
+      const todayKey = practiceDayKey(new Date(), dayBoundary);
+      const dayKey = intradayDay ?? todayKey;
+      const { intradayData: intraday, baselineAverage: baseline } = calculateIntradayData(analytics.dailyData, intradaySessions, dayBoundary, dayKey);
+      // Mirror time only belongs to today; past days are replayed as recorded
+      const dayMirrorHours = dayKey === todayKey ? mirrorTimeHours : 0;
+      const closest = dayOnOrBefore(analytics.dailyData, dayKey);
+      const dayData = closest?.dateStr === dayKey ? closest : undefined;
       
       // Add mirror time to the current average for display
       const lastIntraday = intraday.length > 0 ? intraday[intraday.length - 1] : null;
-      const currentAvg = lastIntraday ? lastIntraday.cumulativeAverage : analytics.currentAverage;
-      const intradayAdjustedAvg = currentAvg + (mirrorTimeHours / analytics.totalDays);
+      const currentAvg = lastIntraday ? lastIntraday.cumulativeAverage : (dayData?.cumulativeAverage ?? analytics.currentAverage);
+      const intradayAdjustedAvg = currentAvg + (dayMirrorHours / analytics.totalDays);
       const intradayDelta = intradayAdjustedAvg - baseline;
       
-      // Calculate today's total play time from raw sessions + mirror time
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const todaySessions = rawSessions.filter(s => {
-        const sessionDate = new Date(s.started_at);
-        sessionDate.setHours(0, 0, 0, 0);
-        return sessionDate.getTime() === today.getTime();
-      });
-      const todayPlayTimeHours = todaySessions.reduce((sum, s) => sum + s.duration_seconds / 3600, 0) + mirrorTimeHours;
+      // Calculate the day's total play time from its practice day + mirror time
+      const todayHours = dayData?.hoursPlayed ?? 0;
+      const todayPlayTimeHours = todayHours + dayMirrorHours;
       
       // Add virtual point for mirror time if timer is running
       // Only update graph every minute (round mirror time down to full minutes)
       let augmentedIntraday = [...intraday];
-      const mirrorMinutes = Math.floor(mirrorTimeSeconds / 60);
+      const mirrorMinutes = dayKey === todayKey ? Math.floor(mirrorTimeSeconds / 60) : 0;
       if (mirrorMinutes > 0 && intraday.length > 0) {
         const now = new Date();
         const lastPoint = intraday[intraday.length - 1];
@@ -234,11 +257,11 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
           // Use floored minutes for smoother updates
           const mirrorHoursFloored = mirrorMinutes / 60;
           const avgWithMirror = lastPoint.cumulativeAverage + (mirrorHoursFloored / analytics.totalDays);
-          const todayWithMirror = todaySessions.reduce((sum, s) => sum + s.duration_seconds / 3600, 0) + mirrorHoursFloored;
+          const todayWithMirror = todayHours + mirrorHoursFloored;
           augmentedIntraday.push({
             time: now,
-            timeStr: `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`,
-            hourOfDay: now.getHours(),
+            timeStr: formatZonedTime(now, dayBoundary),
+            hourOfDay: zonedHour(now, dayBoundary),
             cumulativeAverage: avgWithMirror,
             hoursPlayedThisInterval: 0,
             cumulativeTodayHours: todayWithMirror,
@@ -254,37 +277,35 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
         baselineAverage: baseline,
         todayPlayTime: todayPlayTimeHours,
         adjustedCurrentAverage: intradayAdjustedAvg,
+        adjustedLifetimeAverage: adjustedLifetime,
         adjustedTotalHours: adjustedTotal,
         averageProgressPercent: progressPercent
       };
     }
     
-    let data = filterDataByRange(analytics.dailyData, timeRange === 'MAX' ? 'ALL' : timeRange, analytics.endDate);
-    if (timeRange === '6M' || timeRange === '1Y' || timeRange === 'ALL' || timeRange === 'MAX') {
-      data = downsampleData(data, 100);
-    }
+    // The charts downsample to their own width, so the full range is passed through
+    const data = timeRange === 'CUSTOM'
+      ? customRangeData ?? []
+      : filterDataByRange(analytics.dailyData, timeRange === 'MAX' ? 'ALL' : timeRange, analytics.endDate, dayBoundary);
     
     // For 1W view, update the last data point to include mirror time
     let augmentedData = [...data];
     if (mirrorTimeHours > 0 && augmentedData.length > 0) {
       const lastPoint = augmentedData[augmentedData.length - 1];
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const lastPointDate = new Date(lastPoint.date);
-      lastPointDate.setHours(0, 0, 0, 0);
       
       // If the last point is today, update it with mirror time
-      if (lastPointDate.getTime() === today.getTime()) {
-        augmentedData[augmentedData.length - 1] = {
-          ...lastPoint,
-          hoursPlayed: lastPoint.hoursPlayed + mirrorTimeHours,
-          cumulativeHours: lastPoint.cumulativeHours + mirrorTimeHours,
-          cumulativeAverage: (lastPoint.cumulativeHours + mirrorTimeHours) / lastPoint.dayNumber,
-        };
+      if (lastPoint.dateStr === practiceDayKey(new Date(), dayBoundary)) {
+        augmentedData[augmentedData.length - 1] = addHoursToDay(lastPoint, mirrorTimeHours);
       }
     }
     
-    const baseDelta = calculateDelta(augmentedData);
+    // A custom range that ended before today shows the average as of its last day
+    const rangeLast = augmentedData[augmentedData.length - 1];
+    const shownAverage = timeRange === 'CUSTOM' && rangeLast && rangeLast.dateStr !== practiceDayKey(new Date(), dayBoundary)
+      ? getMetricValue(rangeLast, activeMetric)
+      : adjustedAvg;
+
+    const baseDelta = calculateDelta(augmentedData, activeMetric);
     // Add mirror time contribution to the delta (for views where today might not be visible)
     const adjustedDelta = {
       value: baseDelta.value,
@@ -296,11 +317,38 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
       intradayData: [], 
       baselineAverage: 0, 
       todayPlayTime: 0,
-      adjustedCurrentAverage: adjustedAvg,
+      adjustedCurrentAverage: shownAverage,
+      adjustedLifetimeAverage: adjustedLifetime,
       adjustedTotalHours: adjustedTotal,
       averageProgressPercent: progressPercent
     };
-  }, [analytics, timeRange, rawSessions, mirrorTimeSeconds]);
+  }, [analytics, timeRange, intradaySessions, mirrorTimeSeconds, activeMetric, dayBoundary, intradayDay, customRangeData]);
+
+  // With a custom range the footer describes the range instead of the whole history
+  const consistency = useMemo(
+    () => (analytics ? calculateConsistency(customRangeData ?? analytics.dailyData, streakMinimumMinutes, dayBoundary) : null),
+    [analytics, customRangeData, streakMinimumMinutes, dayBoundary]
+  );
+
+  const rangeTotals = useMemo(() => {
+    if (!customRangeData || customRangeData.length === 0) return null;
+    return {
+      totalHours: customRangeData.reduce((sum, d) => sum + d.hoursPlayed, 0),
+      days: customRangeData.length,
+      endsToday: customRangeData[customRangeData.length - 1].dateStr === practiceDayKey(new Date(), dayBoundary),
+    };
+  }, [customRangeData, dayBoundary]);
+
+  // The running mirror timer counts towards a range that ends today
+  const rangeFooter = rangeTotals && {
+    totalHours: rangeTotals.totalHours + (rangeTotals.endsToday ? mirrorTimeSeconds / 3600 : 0),
+    days: rangeTotals.days,
+  };
+
+  const rangePresets = useMemo(() => {
+    if (!analytics) return [];
+    return milestoneRangePresets(milestones, analytics.startDate, keyToDate(practiceDayKey(new Date(), dayBoundary)), dayBoundary);
+  }, [analytics, milestones, dayBoundary]);
 
   const handleManualSync = async () => {
     try {
@@ -328,16 +376,44 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
 
   const getAverageAtDate = useCallback((target: Date) => {
     if (!analytics) return null;
-    const key = format(startOfDay(target), 'yyyy-MM-dd');
-    const exact = analytics.dailyData.find(d => d.dateStr === key);
-    if (exact) return exact.cumulativeAverage;
-    const fallback = [...analytics.dailyData].reverse().find(d => d.date <= target);
-    return fallback ? fallback.cumulativeAverage : analytics.currentAverage;
-  }, [analytics]);
+    const day = dayOnOrBefore(analytics.dailyData, practiceDayKey(target, dayBoundary));
+    return day ? day.cumulativeAverage : analytics.currentAverage;
+  }, [analytics, dayBoundary]);
+
+  // Picking 1D from the selector always starts at today
+  const handleRangeChange = useCallback((range: TimeRange) => {
+    setTimeRange(range);
+    if (range === '1D') setIntradayDay(null);
+  }, []);
+
+  const handleIntradayDateChange = useCallback((date: Date) => {
+    const dayKey = format(date, 'yyyy-MM-dd');
+    setIntradayDay(dayKey === practiceDayKey(new Date(), dayBoundary) ? null : dayKey);
+    setHoveredIntradayData(null);
+  }, [dayBoundary]);
+
+  const handleCustomRangeChange = useCallback((range: DateRange) => {
+    setCustomRange(range);
+    setTimeRange('CUSTOM');
+    setHoveredData(null);
+  }, []);
+
+  // Dragging across the chart narrows it to the selected days
+  const handleRangeSelect = useCallback((start: DailyData, end: DailyData) => {
+    handleCustomRangeChange({ start: start.date, end: end.date });
+  }, [handleCustomRangeChange]);
+
+  // Tapping a day in the chart replays it in the 1D view
+  const handleDayClick = useCallback((day: DailyData) => {
+    handleRangeChange('1D');
+    handleIntradayDateChange(day.date);
+    setHoveredData(null);
+  }, [handleRangeChange, handleIntradayDateChange]);
 
   const handleCreateMilestone = useCallback(async (payload: AddMilestonePayload) => {
     if (!analytics) return;
-    const achievedDate = new Date(`${payload.date}T00:00:00`);
+    // A milestone added for a date is placed at the start of that practice day
+    const achievedDate = practiceDayStart(payload.date, dayBoundary);
     const averageAtMilestone = getAverageAtDate(achievedDate);
 
     await createMilestone({
@@ -349,7 +425,7 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
     });
 
     await fetchData();
-  }, [analytics, createMilestone, fetchData, getAverageAtDate]);
+  }, [analytics, createMilestone, fetchData, getAverageAtDate, dayBoundary]);
 
   if (isLoading) {
     return (
@@ -385,15 +461,45 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
         baselineAverage={baselineAverage}
         isIntradayView={timeRange === '1D'}
         todayPlayTime={todayPlayTime}
-        mirrorTimeSeconds={mirrorTimeSeconds}
+        intradayDate={intradayDay ? keyToDate(intradayDay) : null}
+        mirrorTimeSeconds={intradayDay ? 0 : mirrorTimeSeconds}
         averageProgressPercent={averageProgressPercent}
+        metric={activeMetric}
+        rangeLabel={timeRange === 'CUSTOM' && customRange ? formatDateRange(customRange) : null}
       />
 
       {/* Time Range Selector */}
       <div className="mt-4">
-        <TimeRangeSelector selectedRange={timeRange} onRangeChange={setTimeRange} />
+        <div className="overflow-x-auto" data-swipe-ignore>
+          <TimeRangeSelector
+            selectedRange={timeRange}
+            onRangeChange={handleRangeChange}
+            customRange={customRange}
+            onCustomRangeChange={handleCustomRangeChange}
+            presets={rangePresets}
+          />
+        </div>
       </div>
 
+      {/* Day picker for replaying past days */}
+      {timeRange === '1D' && (
+        <div className="mt-3">
+          <IntradayDayPicker
+            date={keyToDate(intradayDay ?? practiceDayKey(new Date(), dayBoundary))}
+            minDate={analytics.startDate}
+            maxDate={keyToDate(practiceDayKey(new Date(), dayBoundary))}
+            onDateChange={handleIntradayDateChange}
+          />
+        </div>
+      )}
+
+      {/* Average Metric Selector */}
+      {timeRange !== '1D' && (
+        <div className="mt-3">
+          <AverageMetricSelector selectedMetric={metric} onMetricChange={setMetric} />
+        </div>
+      )}
+
       {/* Practice Chart */}
       <div className="mt-4">
         {timeRange === '1D' ? (
@@ -401,19 +507,24 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
             data={intradayData}
             baselineAverage={baselineAverage}
             onHover={setHoveredIntradayData}
-            isMirrorActive={mirrorTimeSeconds > 0}
+            isMirrorActive={!intradayDay && mirrorTimeSeconds > 0}
+            dayBoundary={dayBoundary}
           />
         ) : timeRange === 'ALL' ? (
           <AllTimeChart
             data={filteredData}
             milestones={milestones}
             onHover={setHoveredData}
+            metric={activeMetric}
           />
         ) : (
           <PracticeChart
             data={filteredData}
             timeRange={timeRange === 'MAX' ? 'ALL' : timeRange}
             onHover={setHoveredData}
+            metric={activeMetric}
+            onDayClick={handleDayClick}
+            onRangeSelect={handleRangeSelect}
           />
         )}
       </div>
@@ -421,10 +532,13 @@ export function DailyAverageSection({ onAnalyticsUpdate, mirrorTimeSeconds = 0 }
       {/* Stats Footer */}
       <div className="mt-4">
         <StatsFooter
-          totalHours={adjustedTotalHours}
-          totalDays={analytics.totalDays}
-          currentAverage={adjustedCurrentAverage}
+          totalHours={rangeFooter ? rangeFooter.totalHours : adjustedTotalHours}
+          totalDays={rangeFooter ? rangeFooter.days : analytics.totalDays}
+          currentAverage={rangeFooter ? rangeFooter.totalHours / rangeFooter.days : adjustedLifetimeAverage}
+          consistency={consistency}
+          isRange={!!rangeFooter}
           onAddMilestone={() => setIsAddMilestoneOpen(true)}
+          onOpenStats={() => navigate('/stats')}
         />
       </div>
 
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { browserTimeZone, isValidTimeZone } from '@/lib/dayBoundary';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export function DayBoundarySettings() {
+  const [dayBoundary, setDayBoundary] = useDayBoundary();
+  const [timeZone, setTimeZone] = useState(dayBoundary.timeZone);
+  const [error, setError] = useState<string | null>(null);
+  const deviceTimeZone = browserTimeZone();
+
+  useEffect(() => {
+    setTimeZone(dayBoundary.timeZone);
+  }, [dayBoundary.timeZone]);
+
+  const applyTimeZone = (value: string) => {
+    const trimmed = value.trim();
+    if (!isValidTimeZone(trimmed)) {
+      setError('Unknown time zone. Use a name like Europe/Amsterdam or Asia/Jakarta.');
+      return;
+    }
+    setError(null);
+    setTimeZone(trimmed);
+    if (trimmed !== dayBoundary.timeZone) {
+      setDayBoundary({ ...dayBoundary, timeZone: trimmed });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2">
+        <Label>Day starts at</Label>
+        <Select
+          value={String(dayBoundary.dayStartHour)}
+          onValueChange={(value) => setDayBoundary({ ...dayBoundary, dayStartHour: Number(value) })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HOURS.map(hour => (
+              <SelectItem key={hour} value={String(hour)}>
+                {`${String(hour).padStart(2, '0')}:00`}{hour === 0 ? ' (midnight)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="home-time-zone">Home time zone</Label>
+        <div className="flex gap-2">
+          <Input
+            id="home-time-zone"
+            value={timeZone}
+            onChange={(event) => setTimeZone(event.target.value)}
+            onBlur={() => applyTimeZone(timeZone)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') applyTimeZone(timeZone);
+            }}
+            className="w-56"
+          />
+          {dayBoundary.timeZone !== deviceTimeZone ? (
+            <Button variant="outline" onClick={() => applyTimeZone(deviceTimeZone)}>
+              Use {deviceTimeZone}
+            </Button>
+          ) : null}
+        </div>
+        {error ? <p className="text-xs text-destructive">{error}</p> : null}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="split-sessions">Split sessions across days</Label>
+          <p className="text-xs text-muted-foreground">
+            Sessions that run past the day start count towards both days instead of the day they started.
+          </p>
+        </div>
+        <Switch
+          id="split-sessions"
+          checked={dayBoundary.splitSessions}
+          onCheckedChange={(checked) => setDayBoundary({ ...dayBoundary, splitSessions: checked })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,11 @@ import { Upload, FileText } from 'lucide-react';
 interface FileUploadProps {
   onFileLoad: (content: string) => void;
   isLoading?: boolean;
+  accept?: string;
+  acceptLabel?: string;
 }
 
-export function FileUpload({ onFileLoad, isLoading }: FileUploadProps) {
+export function FileUpload({ onFileLoad, isLoading, accept = '.csv,text/csv', acceptLabel = 'Accepts .csv files' }: FileUploadProps) {
   const inputRef = useRef<HTMLInputElement>(null);
 
   const readFile = useCallback((file: File) => {
@@ -72,7 +74,7 @@ export function FileUpload({ onFileLoad, isLoading }: FileUploadProps) {
       <input
         ref={inputRef}
         type="file"
-        accept=".csv,text/csv"
+        accept={accept}
         onChange={handleChange}
         className="sr-only"
         disabled={isLoading}
@@ -89,11 +91,11 @@ export function FileUpload({ onFileLoad, isLoading }: FileUploadProps) {
           {isLoading ? 'Processing...' : 'Upload Practice Data'}
         </h3>
         <p className="text-sm text-muted-foreground text-center max-w-xs">
-          Drag and drop your CSV file here, or click to browse
+          Drag and drop your file here, or click to browse
         </p>
         <div className="flex items-center gap-2 mt-4 text-xs text-muted-foreground">
           <FileText className="w-4 h-4" />
-          <span>Accepts .csv files</span>
+          <span>{acceptLabel}</span>
         </div>
       </div>
     </div>
@@ -0,0 +1,24 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PREFERENCE_KEYS, usePreference } from '@/hooks/usePreference';
+import { DEFAULT_FORECAST_MODEL, FORECAST_MODELS, ForecastModel } from '@/lib/forecast';
+
+export function ForecastModelSelect() {
+  const [model, setModel] = usePreference<ForecastModel>(PREFERENCE_KEYS.forecastModel, DEFAULT_FORECAST_MODEL);
+  const selected = FORECAST_MODELS.find(m => m.key === model) ?? FORECAST_MODELS[0];
+
+  return (
+    <div className="space-y-2">
+      <Select value={selected.key} onValueChange={(value) => setModel(value as ForecastModel)}>
+        <SelectTrigger className="w-56">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FORECAST_MODELS.map(m => (
+            <SelectItem key={m.key} value={m.key}>{m.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">{selected.description}</p>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useMemo } from 'react';
+import { isAfter } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { useGoals } from '@/hooks/useGoals';
+import { GOAL_PERIOD_LABELS, GoalPeriod, goalResults } from '@/lib/goals';
+import { AnalyticsResult, formatHoursMinutes } from '@/lib/practiceAnalytics';
+
+const COLORS = {
+  reached: 'hsl(var(--chart-positive))',
+  progress: 'hsl(var(--foreground))',
+  track: 'hsl(var(--muted))',
+};
+
+const PERIODS: GoalPeriod[] = ['day', 'week', 'month'];
+const RADIUS = 26;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+interface GoalRingsProps {
+  analytics: AnalyticsResult | null;
+  mirrorTimeSeconds?: number;
+}
+
+export function GoalRings({ analytics, mirrorTimeSeconds = 0 }: GoalRingsProps) {
+  const { goals } = useGoals();
+
+  // Progress of the current day, week and month; periods without a goal are left out
+  const rings = useMemo(() => {
+    if (!analytics || goals.length === 0) return [];
+    const today = analytics.dailyData[analytics.dailyData.length - 1].date;
+    const mirrorTimeHours = mirrorTimeSeconds / 3600;
+    return PERIODS.flatMap(period => {
+      const results = goalResults(goals, analytics.dailyData, period);
+      const current = results[results.length - 1];
+      if (!current || isAfter(today, current.end)) return [];
+      const actualHours = current.actualHours + mirrorTimeHours;
+      return [{ ...current, actualHours, reached: actualHours >= current.targetHours }];
+    });
+  }, [analytics, goals, mirrorTimeSeconds]);
+
+  if (rings.length === 0) return null;
+
+  return (
+    <Link to="/stats" className="flex justify-center gap-8 px-4 pt-2 pb-4">
+      {rings.map(ring => {
+        const progress = Math.min(1, ring.targetHours > 0 ? ring.actualHours / ring.targetHours : 0);
+        return (
+          <div key={ring.period} className="flex flex-col items-center gap-1">
+            <svg width="64" height="64" viewBox="0 0 64 64" className="-rotate-90">
+              <circle cx="32" cy="32" r={RADIUS} fill="none" stroke={COLORS.track} strokeWidth="6" />
+              <circle
+                cx="32"
+                cy="32"
+                r={RADIUS}
+                fill="none"
+                stroke={ring.reached ? COLORS.reached : COLORS.progress}
+                strokeWidth="6"
+                strokeLinecap="round"
+                strokeDasharray={CIRCUMFERENCE}
+                strokeDashoffset={CIRCUMFERENCE * (1 - progress)}
+                className="transition-all duration-500"
+              />
+            </svg>
+            <span className="text-[10px] font-semibold uppercase tracking-widest text-muted-foreground">
+              {GOAL_PERIOD_LABELS[ring.period]}
+            </span>
+            <span className="text-xs text-foreground">
+              {formatHoursMinutes(ring.actualHours)} / {formatHoursMinutes(ring.targetHours)}
+            </span>
+          </div>
+        );
+      })}
+    </Link>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { GoalChange, useGoals } from '@/hooks/useGoals';
+import { PracticeGoal } from '@/lib/goals';
+import { WEEKDAY_LABELS } from '@/lib/practiceAnalytics';
+
+function activeMinutes(goals: PracticeGoal[], period: PracticeGoal['period'], weekday: number | null): string {
+  const goal = goals.find(g => g.period === period && g.weekday === weekday && g.ends_on === null);
+  return goal ? String(goal.target_minutes) : '';
+}
+
+// Empty input removes the goal; anything else must be a positive number
+function parseValue(value: string, scale: number): number | null | undefined {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return undefined;
+  return Math.round(parsed * scale);
+}
+
+export function GoalsSettings() {
+  const { goals, isLoading, isUpdating, saveGoals } = useGoals();
+  const [daily, setDaily] = useState('');
+  const [weekdays, setWeekdays] = useState<string[]>(new Array(7).fill(''));
+  const [weekly, setWeekly] = useState('');
+  const [monthly, setMonthly] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDaily(activeMinutes(goals, 'day', null));
+    setWeekdays(WEEKDAY_LABELS.map((_, weekday) => activeMinutes(goals, 'day', weekday)));
+    // Weekly and monthly goals are edited in hours
+    const toHours = (minutes: string) => (minutes ? String(Number(minutes) / 60) : '');
+    setWeekly(toHours(activeMinutes(goals, 'week', null)));
+    setMonthly(toHours(activeMinutes(goals, 'month', null)));
+  }, [goals]);
+
+  const handleSave = async () => {
+    setError(null);
+    const changes: GoalChange[] = [
+      { period: 'day', weekday: null, minutes: parseValue(daily, 1) },
+      ...weekdays.map((value, weekday) => ({ period: 'day' as const, weekday, minutes: parseValue(value, 1) })),
+      { period: 'week', weekday: null, minutes: parseValue(weekly, 60) },
+      { period: 'month', weekday: null, minutes: parseValue(monthly, 60) },
+    ];
+    if (changes.some(change => change.minutes === undefined)) {
+      setError('Targets must be positive numbers. Leave a field empty for no goal.');
+      return;
+    }
+    await saveGoals(changes);
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2">
+        <Label htmlFor="goal-daily">Every day (minutes)</Label>
+        <Input
+          id="goal-daily"
+          type="number"
+          min={1}
+          value={daily}
+          placeholder="No daily goal"
+          onChange={(event) => setDaily(event.target.value)}
+          className="w-40"
+        />
+      </div>
+
+      <div className="grid gap-2">
+        <Label>Per weekday (minutes, overrides every day)</Label>
+        <div className="grid grid-cols-7 gap-1">
+          {WEEKDAY_LABELS.map((label, weekday) => (
+            <div key={label} className="flex flex-col items-center gap-1">
+              <span className="text-[10px] text-muted-foreground">{label}</span>
+              <Input
+                type="number"
+                min={1}
+                value={weekdays[weekday]}
+                placeholder={daily || '–'}
+                onChange={(event) => setWeekdays(prev => prev.map((v, i) => (i === weekday ? event.target.value : v)))}
+                className="h-8 px-1 text-center text-xs"
+                aria-label={`${label} goal in minutes`}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="grid gap-2">
+          <Label htmlFor="goal-weekly">Per week (hours)</Label>
+          <Input
+            id="goal-weekly"
+            type="number"
+            min={0}
+            step={0.5}
+            value={weekly}
+            placeholder="No weekly goal"
+            onChange={(event) => setWeekly(event.target.value)}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="goal-monthly">Per month (hours)</Label>
+          <Input
+            id="goal-monthly"
+            type="number"
+            min={0}
+            step={1}
+            value={monthly}
+            placeholder="No monthly goal"
+            onChange={(event) => setMonthly(event.target.value)}
+          />
+        </div>
+      </div>
+
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+
+      <Button variant="outline" onClick={handleSave} disabled={isUpdating}>
+        {isUpdating ? 'Saving...' : 'Save goals'}
+      </Button>
+    </div>
+  );
+}
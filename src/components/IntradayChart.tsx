@@ -8,16 +8,21 @@ import {
   ResponsiveContainer,
   ReferenceLine,
 } from 'recharts';
-import { format } from 'date-fns';
+import { addHours } from 'date-fns';
 import { IntradayData } from '@/lib/practiceAnalytics';
+import { DayBoundary, DEFAULT_DAY_BOUNDARY, formatZonedTime, nextDayKey, practiceDayKey, practiceDayStart } from '@/lib/dayBoundary';
 
 interface IntradayChartProps {
   data: IntradayData[];
   baselineAverage: number;
   onHover?: (data: IntradayData | null) => void;
   isMirrorActive?: boolean;
+  dayBoundary?: DayBoundary;
 }
 
+// The chart hides the night before 6:00 (in the home time zone)
+const VISIBLE_FROM_HOUR = 6;
+
 // Trade Republic exact colors
 const COLORS = {
   positive: 'hsl(var(--chart-positive))',
@@ -27,7 +32,7 @@ const COLORS = {
   white: 'hsl(var(--foreground))',
 };
 
-export function IntradayChart({ data, baselineAverage, onHover, isMirrorActive = false }: IntradayChartProps) {
+export function IntradayChart({ data, baselineAverage, onHover, isMirrorActive = false, dayBoundary = DEFAULT_DAY_BOUNDARY }: IntradayChartProps) {
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
   const [isScrubbing, setIsScrubbing] = useState(false);
   const chartWrapperRef = useRef<HTMLDivElement>(null);
@@ -39,10 +44,29 @@ export function IntradayChart({ data, baselineAverage, onHover, isMirrorActive =
   const SCRUB_HOLD_MS = 140;
   const MOVE_CANCEL_THRESHOLD = 10;
 
+  // Domain from 6:00 (or the day start, if later) to the end of the practice day,
+  // with ticks every 4 hours
+  const { dayStart, dayEnd, xAxisTicks } = useMemo(() => {
+    const dayKey = practiceDayKey(data.length > 0 ? data[0].time : new Date(), dayBoundary);
+    const start = addHours(
+      practiceDayStart(dayKey, dayBoundary),
+      Math.max(0, VISIBLE_FROM_HOUR - dayBoundary.dayStartHour)
+    );
+    const end = practiceDayStart(nextDayKey(dayKey), dayBoundary).getTime() - 1;
+    if (data.length === 0) {
+      return { dayStart: start.getTime(), dayEnd: end, xAxisTicks: [] };
+    }
+
+    const ticks: number[] = [];
+    for (let tick = start; tick.getTime() < end; tick = addHours(tick, 4)) {
+      ticks.push(tick.getTime());
+    }
+    return { dayStart: start.getTime(), dayEnd: end, xAxisTicks: ticks };
+  }, [data, dayBoundary]);
+
   const chartData = useMemo(() => {
-    // Filter out data before 6am
     return data
-      .filter(d => d.time.getHours() >= 6)
+      .filter(d => d.time.getTime() >= dayStart)
       .map((d, index) => ({
         ...d,
         index,
@@ -50,34 +74,7 @@ export function IntradayChart({ data, baselineAverage, onHover, isMirrorActive =
         displayTime: d.timeStr,
         averageHours: d.cumulativeAverage,
       }));
-  }, [data]);
-
-  // Domain from 6am to 23:59, with ticks at 6, 10, 14, 18, 22
-  const { dayStart, dayEnd, xAxisTicks } = useMemo(() => {
-    if (chartData.length === 0) {
-      const now = new Date();
-      const start = new Date(now);
-      start.setHours(6, 0, 0, 0);
-      const end = new Date(now);
-      end.setHours(23, 59, 59, 999);
-      return { dayStart: start.getTime(), dayEnd: end.getTime(), xAxisTicks: [] };
-    }
-    
-    const baseDate = new Date(chartData[0].time);
-    const start = new Date(baseDate);
-    start.setHours(6, 0, 0, 0);
-    const end = new Date(baseDate);
-    end.setHours(23, 59, 59, 999);
-    
-    // 5 evenly spaced ticks from 6am to 10pm (4-hour intervals)
-    const ticks = [6, 10, 14, 18, 22].map(hour => {
-      const tickTime = new Date(baseDate);
-      tickTime.setHours(hour, 0, 0, 0);
-      return tickTime.getTime();
-    });
-    
-    return { dayStart: start.getTime(), dayEnd: end.getTime(), xAxisTicks: ticks };
-  }, [chartData]);
+  }, [data, dayStart]);
 
   // Calculate Y-axis domain to always include baseline and show separation
   const { yMin, yMax, range } = useMemo(() => {
@@ -117,8 +114,8 @@ export function IntradayChart({ data, baselineAverage, onHover, isMirrorActive =
   }, [range]);
 
   const formatXAxisTick = useCallback((timestamp: number) => {
-    return format(new Date(timestamp), 'HH:mm');
-  }, []);
+    return formatZonedTime(new Date(timestamp), dayBoundary);
+  }, [dayBoundary]);
 
   const handleMouseMove = useCallback((state: any) => {
     if (state?.activeTooltipIndex !== undefined) {
@@ -0,0 +1,65 @@
+import { addDays, format, isSameDay, subDays } from 'date-fns';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface IntradayDayPickerProps {
+  date: Date;
+  // First practice day and today; days outside can't be picked
+  minDate: Date;
+  maxDate: Date;
+  onDateChange: (date: Date) => void;
+}
+
+export function IntradayDayPicker({ date, minDate, maxDate, onDateChange }: IntradayDayPickerProps) {
+  const isToday = isSameDay(date, maxDate);
+
+  return (
+    <div className="flex items-center gap-1" data-swipe-ignore>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        disabled={date <= minDate}
+        onClick={() => onDateChange(subDays(date, 1))}
+        aria-label="Previous day"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 text-xs font-medium">
+            <CalendarDays className="w-3.5 h-3.5 mr-1.5" />
+            {isToday ? 'Today' : format(date, 'EEE d MMM yyyy')}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={date}
+            defaultMonth={date}
+            onSelect={(selected) => selected && onDateChange(selected)}
+            disabled={[{ before: minDate }, { after: maxDate }]}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        disabled={isToday}
+        onClick={() => onDateChange(addDays(date, 1))}
+        aria-label="Next day"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+      {!isToday && (
+        <Button variant="ghost" size="sm" className="h-8 text-xs text-muted-foreground" onClick={() => onDateChange(maxDate)}>
+          Today
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { ChevronDown, ChevronUp } from 'lucide-react';
-import { DailyData, IntradayData } from '@/lib/practiceAnalytics';
+import { AVERAGE_METRICS, AverageMetric, DailyData, IntradayData, getMetricSensitivity, getMetricValue } from '@/lib/practiceAnalytics';
 import { format } from 'date-fns';
 
 // Trade Republic exact colors
@@ -19,8 +19,11 @@ interface MetricDisplayProps {
   baselineAverage?: number;
   isIntradayView?: boolean;
   todayPlayTime?: number; // Today's total play time in hours
+  intradayDate?: Date | null; // Past day replayed in the intraday view (null for today)
   mirrorTimeSeconds?: number; // Current mirror timer seconds
   averageProgressPercent?: number; // Progress toward next second in average (0-100)
+  metric?: AverageMetric; // Average shown outside the intraday view
+  rangeLabel?: string | null; // Custom date range being shown, if any
 }
 
 export function MetricDisplay({
@@ -32,8 +35,11 @@ export function MetricDisplay({
   baselineAverage = 0,
   isIntradayView = false,
   todayPlayTime = 0,
+  intradayDate = null,
   mirrorTimeSeconds = 0,
   averageProgressPercent = 0,
+  metric = 'lifetime',
+  rangeLabel = null,
 }: MetricDisplayProps) {
   const formatHoursMinutes = (hours: number): string => {
     const totalSeconds = Math.round(hours * 3600);
@@ -104,10 +110,13 @@ export function MetricDisplay({
   // Calculate delta caused by a specific day
   const calculateDayDelta = (data: DailyData): number => {
     if (data.dayNumber <= 1) return 0;
+    if (metric !== 'lifetime') return data.hoursPlayed * getMetricSensitivity(data, metric);
     const previousAverage = (data.cumulativeHours - data.hoursPlayed) / (data.dayNumber - 1);
     return data.cumulativeAverage - previousAverage;
   };
 
+  const metricTitle = AVERAGE_METRICS.find(m => m.key === metric)?.title ?? 'Daily Average';
+
   // Determine display values based on hover state
   let displayValue: number;
   let displayLabel: string;
@@ -117,7 +126,7 @@ export function MetricDisplay({
   let timeDifference: number | null = null;
 
   if (hoveredData) {
-    displayValue = hoveredData.cumulativeAverage;
+    displayValue = getMetricValue(hoveredData, metric);
     effectivePlayTime = hoveredData.hoursPlayed;
     effectiveDelta = calculateDayDelta(hoveredData);
     // Format: date • day • play time • delta
@@ -133,10 +142,10 @@ export function MetricDisplay({
   } else if (isIntradayView) {
     displayValue = currentAverage;
     timeDifference = todayPlayTime - baselineAverage;
-    displayLabel = 'Daily Average';
+    displayLabel = intradayDate ? `${format(intradayDate, 'd MMM yyyy')} · Daily Average` : 'Daily Average';
   } else {
     displayValue = currentAverage;
-    displayLabel = 'Daily Average';
+    displayLabel = rangeLabel ? `${metricTitle} · ${rangeLabel}` : metricTitle;
   }
 
   const deltaIsPositive = effectiveDelta >= 0;
@@ -1,13 +1,13 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { Play, Square } from 'lucide-react';
+import { useEffect, useCallback, useRef } from 'react';
+import { Play, Pause } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { supabase } from '@/integrations/supabase/client';
+import { usePracticeTimer } from '@/hooks/usePracticeTimer';
 import { useToast } from '@/hooks/use-toast';
 
 interface MirrorTimerProps {
   onTimerStateChange?: (isRunning: boolean) => void;
-  onNewSessionDetected?: () => void;
+  onSessionSaved?: () => void;
 }
 
 const COLORS = {
@@ -15,12 +15,10 @@ const COLORS = {
   green: 'hsl(var(--chart-positive))',
 };
 
-export function MirrorTimer({ onTimerStateChange, onNewSessionDetected }: MirrorTimerProps) {
-  const [isRunning, setIsRunning] = useState(false);
-  const [elapsedSeconds, setElapsedSeconds] = useState(0);
-  const [lastSessionCount, setLastSessionCount] = useState<number | null>(null);
-  const startTimeRef = useRef<Date | null>(null);
+export function MirrorTimer({ onTimerStateChange, onSessionSaved }: MirrorTimerProps) {
+  const timer = usePracticeTimer();
   const longPressTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const longPressFiredRef = useRef(false);
   const { toast } = useToast();
 
   // Format elapsed time as HH:MM:SS or MM:SS
@@ -48,71 +46,60 @@ export function MirrorTimer({ onTimerStateChange, onNewSessionDetected }: Mirror
     return parts.join(' ');
   };
 
-  // Get current session count from database
-  const getSessionCount = useCallback(async (): Promise<number> => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const { count } = await supabase
-      .from('practice_sessions')
-      .select('*', { count: 'exact', head: true })
-      .gte('started_at', today.toISOString());
-    
-    return count || 0;
-  }, []);
-
-  // Silent sync - doesn't show toast or trigger spinner
-  const silentSync = useCallback(async (): Promise<boolean> => {
-    try {
-      const { data, error } = await supabase.functions.invoke('sync-calendar');
-      if (error) return false;
-      return (data?.synced || 0) > 0;
-    } catch {
-      return false;
+  useEffect(() => {
+    onTimerStateChange?.(timer.isActive);
+  }, [timer.isActive, onTimerStateChange]);
+
+  // Stop the timer and save the session (long press)
+  const handleStop = useCallback(async () => {
+    const result = await timer.stop();
+    if (result.saved) {
+      onSessionSaved?.();
+      toast({
+        title: 'Session saved',
+        description: formatDuration(result.durationSeconds),
+        duration: 2000,
+      });
+    } else if (result.reason === 'duplicate') {
+      onSessionSaved?.();
+      toast({
+        title: 'Already recorded',
+        description: 'A synced session already covers this time',
+        duration: 2000,
+      });
+    } else if (result.reason === 'too_short') {
+      toast({
+        title: 'Timer cancelled',
+        description: 'Sessions under a minute are not saved',
+        duration: 2000,
+      });
     }
-  }, []);
-
-  // Start the timer
-  const handleStart = useCallback(async () => {
-    // Store initial session count to detect new sessions
-    const count = await getSessionCount();
-    setLastSessionCount(count);
-    
-    startTimeRef.current = new Date();
-    setElapsedSeconds(0);
-    setIsRunning(true);
-    onTimerStateChange?.(true);
-  }, [getSessionCount, onTimerStateChange]);
+  }, [timer, onSessionSaved, toast]);
 
-  // Stop/cancel the timer (long press)
-  const handleCancel = useCallback(() => {
-    setIsRunning(false);
-    setElapsedSeconds(0);
-    startTimeRef.current = null;
-    setLastSessionCount(null);
-    onTimerStateChange?.(false);
-    toast({
-      title: 'Timer cancelled',
-      duration: 2000,
-    });
-  }, [onTimerStateChange, toast]);
-
-  // Handle tap
+  // Handle tap: start, pause or resume
   const handleTap = useCallback(() => {
-    if (!isRunning) {
-      handleStart();
+    if (longPressFiredRef.current) {
+      longPressFiredRef.current = false;
+      return;
+    }
+    if (timer.isRunning) {
+      timer.pause();
+    } else if (timer.isPaused) {
+      timer.resume();
+    } else {
+      timer.start();
     }
-    // When running, taps do nothing - need long press to cancel
-  }, [isRunning, handleStart]);
+  }, [timer]);
 
   // Long press handlers
   const handlePressStart = useCallback(() => {
-    if (isRunning) {
+    if (timer.isActive) {
       longPressTimeoutRef.current = setTimeout(() => {
-        handleCancel();
+        longPressFiredRef.current = true;
+        handleStop();
       }, 500); // 500ms long press
     }
-  }, [isRunning, handleCancel]);
+  }, [timer.isActive, handleStop]);
 
   const handlePressEnd = useCallback(() => {
     if (longPressTimeoutRef.current) {
@@ -121,69 +108,21 @@ export function MirrorTimer({ onTimerStateChange, onNewSessionDetected }: Mirror
     }
   }, []);
 
-  // Elapsed time counter
-  useEffect(() => {
-    if (!isRunning) return;
-
-    const interval = setInterval(() => {
-      if (startTimeRef.current) {
-        const now = new Date();
-        const elapsed = Math.floor((now.getTime() - startTimeRef.current.getTime()) / 1000);
-        setElapsedSeconds(elapsed);
-      }
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [isRunning]);
-
-  // Background sync polling (every 30 seconds while timer is running)
-  useEffect(() => {
-    if (!isRunning) return;
-
-    const pollInterval = setInterval(async () => {
-      // Silent sync
-      const hasNewData = await silentSync();
-      
-      if (hasNewData && lastSessionCount !== null) {
-        // Check if session count increased
-        const newCount = await getSessionCount();
-        
-        if (newCount > lastSessionCount) {
-          // New session detected! Stop timer and refresh
-          setIsRunning(false);
-          const finalElapsed = elapsedSeconds;
-          setElapsedSeconds(0);
-          startTimeRef.current = null;
-          setLastSessionCount(null);
-          onTimerStateChange?.(false);
-          
-          // Notify parent to refresh data
-          onNewSessionDetected?.();
-          
-          toast({
-            title: 'Practice session detected!',
-            description: `Session synced from ATracker`,
-            duration: 3000,
-          });
-        }
-      }
-    }, 30000); // Every 30 seconds
-
-    return () => clearInterval(pollInterval);
-  }, [isRunning, lastSessionCount, silentSync, getSessionCount, elapsedSeconds, onTimerStateChange, onNewSessionDetected, toast]);
-
   return (
     <div className="fixed bottom-24 right-4 z-50 flex items-center gap-3">
       {/* Elapsed time display */}
-      {isRunning && (
+      {timer.isActive && (
         <div 
-          className="px-3 py-1.5 rounded-full text-sm font-mono font-medium animate-pulse"
+          className={cn(
+            "px-3 py-1.5 rounded-full text-sm font-mono font-medium",
+            timer.isRunning && "animate-pulse"
+          )}
           style={{ 
             backgroundColor: 'rgba(253, 65, 54, 0.15)',
             color: COLORS.red,
           }}
         >
-          {formatElapsedTime(elapsedSeconds)}
+          {formatElapsedTime(timer.elapsedSeconds)}
         </div>
       )}
       
@@ -192,20 +131,21 @@ export function MirrorTimer({ onTimerStateChange, onNewSessionDetected }: Mirror
         size="icon"
         className={cn(
           "w-14 h-14 rounded-full shadow-lg transition-all duration-200",
-          isRunning && "animate-pulse"
+          timer.isRunning && "animate-pulse"
         )}
         style={{
-          backgroundColor: isRunning ? COLORS.red : COLORS.green,
+          backgroundColor: timer.isActive ? COLORS.red : COLORS.green,
         }}
         onClick={handleTap}
+        disabled={timer.isSaving}
         onMouseDown={handlePressStart}
         onMouseUp={handlePressEnd}
         onMouseLeave={handlePressEnd}
         onTouchStart={handlePressStart}
         onTouchEnd={handlePressEnd}
       >
-        {isRunning ? (
-          <Square className="w-6 h-6 text-white" fill="white" />
+        {timer.isRunning ? (
+          <Pause className="w-6 h-6 text-white" fill="white" />
         ) : (
           <Play className="w-6 h-6 text-white ml-1" fill="white" />
         )}
@@ -7,14 +7,24 @@ import {
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceArea,
 } from 'recharts';
 import { format } from 'date-fns';
-import { DailyData } from '@/lib/practiceAnalytics';
+import { AverageMetric, chartPointBudget, DailyData, downsampleData, getMetricValue, nearestPointIndex } from '@/lib/practiceAnalytics';
+import { useElementWidth } from '@/hooks/useElementWidth';
 
 interface PracticeChartProps {
   data: DailyData[];
-  timeRange: '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX';
+  timeRange: '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX' | 'CUSTOM';
   onHover?: (data: DailyData | null) => void;
+  metric?: AverageMetric;
+  // A second period drawn over the first, aligned by day offset from each period's first day
+  // (cut to the length of data)
+  comparisonData?: DailyData[];
+  // Called with the tapped (or clicked) day
+  onDayClick?: (data: DailyData) => void;
+  // Called with the first and last day of a range dragged out with the mouse
+  onRangeSelect?: (start: DailyData, end: DailyData) => void;
 }
 
 // Trade Republic exact colors
@@ -26,11 +36,19 @@ const COLORS = {
   white: 'hsl(var(--foreground))',
 };
 
-export function PracticeChart({ data, timeRange, onHover }: PracticeChartProps) {
+export function PracticeChart({ data, timeRange, onHover, metric = 'lifetime', comparisonData, onDayClick, onRangeSelect }: PracticeChartProps) {
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
   const [scrubPercentage, setScrubPercentage] = useState<number>(100);
   const [isScrubbing, setIsScrubbing] = useState(false);
-  const chartWrapperRef = useRef<HTMLDivElement>(null);
+  const [dragRange, setDragRange] = useState<{ from: number; to: number } | null>(null);
+  // The click that ends a drag shouldn't also open the day
+  const dragEndedRef = useRef(false);
+  const chartWrapperRef = useRef<HTMLDivElement | null>(null);
+  const [measureChart, chartWidth] = useElementWidth<HTMLDivElement>();
+  const setChartWrapper = useCallback((element: HTMLDivElement | null) => {
+    chartWrapperRef.current = element;
+    measureChart(element);
+  }, [measureChart]);
   const touchHoldRef = useRef<{ x: number; y: number; timeoutId: number | null } | null>(null);
   const isCoarsePointer = useMemo(
     () => typeof window !== 'undefined' && window.matchMedia?.('(pointer: coarse)').matches,
@@ -39,16 +57,26 @@ export function PracticeChart({ data, timeRange, onHover }: PracticeChartProps)
   const SCRUB_HOLD_MS = 140;
   const MOVE_CANCEL_THRESHOLD = 10;
 
+  // Long ranges are downsampled to what the rendered width can show
   const chartData = useMemo(() => {
-    return data.map((d, index) => ({
+    const points = data.map((d, index) => ({
       ...d,
-      index,
       // Use timestamp for continuous time scale
       timestamp: d.date.getTime(),
       displayDate: format(d.date, 'd MMM'),
-      averageHours: d.cumulativeAverage,
+      averageHours: getMetricValue(d, metric),
+      comparisonHours: comparisonData?.[index] ? getMetricValue(comparisonData[index], metric) : null,
     }));
-  }, [data]);
+    return downsampleData(points, chartPointBudget(chartWidth), metric, comparisonData ? d => d.comparisonHours : undefined);
+  }, [data, metric, comparisonData, chartWidth]);
+
+  // Downsampled points aren't evenly spaced, so positions come from the time axis
+  const percentageAt = useCallback((index: number) => {
+    if (chartData.length < 2) return 100;
+    const startTime = chartData[0].timestamp;
+    const span = chartData[chartData.length - 1].timestamp - startTime;
+    return span > 0 ? ((chartData[index].timestamp - startTime) / span) * 100 : 100;
+  }, [chartData]);
 
   // Calculate exactly 5 equidistant time-based ticks
   const xAxisTicks = useMemo(() => {
@@ -67,7 +95,7 @@ export function PracticeChart({ data, timeRange, onHover }: PracticeChartProps)
   // Calculate the data range to determine formatting precision
   const { range, baselineValue } = useMemo(() => {
     if (chartData.length === 0) return { minValue: 0, maxValue: 0, range: 0, baselineValue: 0 };
-    const values = chartData.map(d => d.averageHours);
+    const values = chartData.flatMap(d => (d.comparisonHours === null ? [d.averageHours] : [d.averageHours, d.comparisonHours]));
     const min = Math.min(...values);
     const max = Math.max(...values);
     const baseline = chartData[0]?.averageHours || 0;
@@ -101,38 +129,57 @@ export function PracticeChart({ data, timeRange, onHover }: PracticeChartProps)
       const index = state.activeTooltipIndex;
       setActiveIndex(index);
       // Snap gradient to the active data point's position
-      const percentage = chartData.length > 1 
-        ? (index / (chartData.length - 1)) * 100 
-        : 100;
-      setScrubPercentage(percentage);
+      setScrubPercentage(percentageAt(index));
+      setDragRange(prev => (prev ? { ...prev, to: index } : prev));
     }
     if (state?.activePayload?.[0]?.payload && onHover) {
       onHover(state.activePayload[0].payload as DailyData);
     }
-  }, [onHover, chartData.length]);
+  }, [onHover, percentageAt]);
 
   const handleMouseLeave = useCallback(() => {
     setActiveIndex(null);
     setScrubPercentage(100);
+    setDragRange(null);
     if (onHover) {
       onHover(null);
     }
   }, [onHover]);
 
-  const updateFromClientX = useCallback((clientX: number) => {
-    if (!chartWrapperRef.current || chartData.length === 0) return;
+  const handleMouseDown = useCallback((state: { activeTooltipIndex?: number } | null) => {
+    if (!onRangeSelect || state?.activeTooltipIndex === undefined) return;
+    setDragRange({ from: state.activeTooltipIndex, to: state.activeTooltipIndex });
+  }, [onRangeSelect]);
+
+  const handleMouseUp = useCallback(() => {
+    if (dragRange && dragRange.from !== dragRange.to && onRangeSelect) {
+      const from = Math.min(dragRange.from, dragRange.to);
+      const to = Math.max(dragRange.from, dragRange.to);
+      dragEndedRef.current = true;
+      onRangeSelect(chartData[from] as DailyData, chartData[to] as DailyData);
+    }
+    setDragRange(null);
+  }, [dragRange, onRangeSelect, chartData]);
+
+  const indexAtClientX = useCallback((clientX: number): number | null => {
+    if (!chartWrapperRef.current || chartData.length === 0) return null;
     const rect = chartWrapperRef.current.getBoundingClientRect();
     const x = Math.min(Math.max(clientX - rect.left, 0), rect.width);
     const ratio = rect.width > 0 ? x / rect.width : 0;
-    const index = Math.round(ratio * (chartData.length - 1));
-    const clampedIndex = Math.min(Math.max(index, 0), chartData.length - 1);
+    const startTime = chartData[0].timestamp;
+    return nearestPointIndex(chartData, startTime + ratio * (chartData[chartData.length - 1].timestamp - startTime));
+  }, [chartData]);
+
+  const updateFromClientX = useCallback((clientX: number) => {
+    const clampedIndex = indexAtClientX(clientX);
+    if (clampedIndex === null) return;
 
     setActiveIndex(clampedIndex);
-    setScrubPercentage(chartData.length > 1 ? (clampedIndex / (chartData.length - 1)) * 100 : 100);
+    setScrubPercentage(percentageAt(clampedIndex));
     if (onHover) {
       onHover(chartData[clampedIndex] as DailyData);
     }
-  }, [chartData, onHover]);
+  }, [chartData, indexAtClientX, onHover, percentageAt]);
 
   const handleScrubStart = useCallback((clientX: number, event?: React.SyntheticEvent) => {
     event?.preventDefault();
@@ -194,11 +241,26 @@ export function PracticeChart({ data, timeRange, onHover }: PracticeChartProps)
   }, [clearTouchHold, handleScrubMove, isScrubbing, MOVE_CANCEL_THRESHOLD]);
 
   const handleTouchEnd = useCallback((event: React.TouchEvent) => {
+    // Lifting the finger before the hold turned into a scrub is a tap
+    const tap = touchHoldRef.current;
     clearTouchHold();
     if (isScrubbing) {
       handleScrubEnd(event);
+    } else if (tap && onDayClick) {
+      const index = indexAtClientX(tap.x);
+      if (index !== null) onDayClick(chartData[index] as DailyData);
     }
-  }, [clearTouchHold, handleScrubEnd, isScrubbing]);
+  }, [clearTouchHold, handleScrubEnd, isScrubbing, onDayClick, indexAtClientX, chartData]);
+
+  const handleClick = useCallback((state: { activePayload?: { payload?: DailyData }[] } | null) => {
+    if (dragEndedRef.current) {
+      dragEndedRef.current = false;
+      return;
+    }
+    if (state?.activePayload?.[0]?.payload && onDayClick) {
+      onDayClick(state.activePayload[0].payload);
+    }
+  }, [onDayClick]);
 
   useEffect(() => () => clearTouchHold(), [clearTouchHold]);
 
@@ -293,7 +355,7 @@ export function PracticeChart({ data, timeRange, onHover }: PracticeChartProps)
 
   return (
     <div
-      ref={chartWrapperRef}
+      ref={setChartWrapper}
       className="w-full h-72 md:h-80 relative overscroll-none"
       style={{ touchAction: isScrubbing ? 'none' : 'pan-y' }}
     >
@@ -315,6 +377,10 @@ export function PracticeChart({ data, timeRange, onHover }: PracticeChartProps)
           margin={{ top: 40, right: 24, left: 24, bottom: 20 }}
           onMouseMove={handleMouseMove}
           onMouseLeave={handleMouseLeave}
+          onClick={handleClick}
+          onMouseDown={handleMouseDown}
+          onMouseUp={handleMouseUp}
+          style={onDayClick || onRangeSelect ? { cursor: 'pointer' } : undefined}
         >
           <defs>
             {/* Scrub gradient to dim line after selected point */}
@@ -358,12 +424,34 @@ export function PracticeChart({ data, timeRange, onHover }: PracticeChartProps)
             strokeWidth={1.5}
             strokeOpacity={0.8}
           />
+          {dragRange && dragRange.from !== dragRange.to && (
+            <ReferenceArea
+              x1={chartData[Math.min(dragRange.from, dragRange.to)].timestamp}
+              x2={chartData[Math.max(dragRange.from, dragRange.to)].timestamp}
+              fill={COLORS.muted}
+              fillOpacity={0.15}
+              strokeOpacity={0}
+            />
+          )}
           <Tooltip
             cursor={false}
             content={() => null}
             wrapperStyle={{ display: 'none' }}
           />
           
+          {comparisonData ? (
+            <Line
+              type="linear"
+              dataKey="comparisonHours"
+              stroke={COLORS.muted}
+              strokeWidth={1.5}
+              strokeDasharray="4 4"
+              dot={false}
+              activeDot={false}
+              isAnimationActive={false}
+            />
+          ) : null}
+
           {/* Single line with dynamic gradient stroke */}
           <Line
             type="linear"
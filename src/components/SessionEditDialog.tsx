@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { SessionInput } from '@/hooks/usePracticeSessions';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { formatZonedTime, practiceDayKey, zonedDateTime } from '@/lib/dayBoundary';
+
+interface SessionEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing session to edit; null opens the dialog in "add" mode
+  session: { started_at: string; duration_seconds: number } | null;
+  onSave: (input: SessionInput) => Promise<void> | void;
+}
+
+export function SessionEditDialog({ open, onOpenChange, session, onSave }: SessionEditDialogProps) {
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [minutes, setMinutes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [dayBoundary] = useDayBoundary();
+
+  useEffect(() => {
+    if (!open) return;
+    // Date and time are shown and entered as wall-clock time in the home zone
+    const start = session ? new Date(session.started_at) : new Date();
+    setDate(practiceDayKey(start, { ...dayBoundary, dayStartHour: 0 }));
+    setTime(formatZonedTime(start, dayBoundary));
+    setMinutes(session ? String(Math.round(session.duration_seconds / 60)) : '30');
+    setError(null);
+  }, [open, session, dayBoundary]);
+
+  const handleSubmit = async () => {
+    setError(null);
+
+    if (!date || !time) {
+      setError('Pick a date and start time.');
+      return;
+    }
+
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    if ([year, month, day, hour, minute].some(value => !Number.isFinite(value))) {
+      setError('Enter a valid start time.');
+      return;
+    }
+    const startedAt = zonedDateTime(year, month, day, hour, minute, 0, dayBoundary.timeZone);
+
+    const minutesValue = Number(minutes);
+    if (!Number.isFinite(minutesValue) || minutesValue <= 0) {
+      setError('Enter a valid duration.');
+      return;
+    }
+
+    if (minutesValue > 24 * 60) {
+      setError('A session cannot be longer than 24 hours.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        startedAt: startedAt.toISOString(),
+        durationSeconds: Math.round(minutesValue * 60),
+      });
+      onOpenChange(false);
+    } catch (submitError) {
+      const message = submitError instanceof Error ? submitError.message : 'Failed to save session.';
+      setError(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{session ? 'Edit session' : 'Add session'}</DialogTitle>
+          <DialogDescription>
+            {session ? 'Correct the start time or duration of this session.' : 'Log a practice session by hand.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="grid gap-2">
+              <Label htmlFor="session-date">Date</Label>
+              <Input
+                id="session-date"
+                type="date"
+                value={date}
+                onChange={(event) => setDate(event.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="session-time">Start time</Label>
+              <Input
+                id="session-time"
+                type="time"
+                value={time}
+                onChange={(event) => setTime(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="session-minutes">Duration (minutes)</Label>
+            <Input
+              id="session-minutes"
+              type="number"
+              min={1}
+              step={1}
+              value={minutes}
+              onChange={(event) => setMinutes(event.target.value)}
+            />
+          </div>
+
+          {error ? <p className="text-xs text-destructive">{error}</p> : null}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="ghost"
+            className="text-muted-foreground hover:text-foreground hover:bg-muted/40"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="border-border/60 text-foreground hover:bg-muted/40"
+            onClick={handleSubmit}
+            disabled={isSaving}
+          >
+            {isSaving ? 'Saving...' : session ? 'Save changes' : 'Add session'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
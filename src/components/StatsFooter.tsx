@@ -1,32 +1,52 @@
 import { useState, useRef } from 'react';
 import { Info } from 'lucide-react';
-import { formatHoursMinutes } from '@/lib/practiceAnalytics';
+import { ConsistencyStats, formatHoursMinutes } from '@/lib/practiceAnalytics';
 import { AverageInfoDialog } from './AverageInfoDialog';
 
 interface StatsFooterProps {
   totalHours: number;
   totalDays: number;
   currentAverage?: number;
+  consistency?: ConsistencyStats | null;
   onAddMilestone?: () => void;
+  onOpenStats?: () => void;
+  // Set while a custom date range is shown; the totals then cover only that range
+  isRange?: boolean;
 }
 
-export function StatsFooter({ totalHours, totalDays, currentAverage, onAddMilestone }: StatsFooterProps) {
+export function StatsFooter({ totalHours, totalDays, currentAverage, consistency, onAddMilestone, onOpenStats, isRange = false }: StatsFooterProps) {
   const [showInfo, setShowInfo] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   const cards: { key: string; label: string; value: React.ReactNode; onClick?: () => void }[] = [
     {
       key: 'total-hours',
-      label: 'Total Hours',
+      label: isRange ? 'Hours in Range' : 'Total Hours',
       value: formatHoursMinutes(totalHours),
       onClick: undefined,
     },
     {
       key: 'day-counter',
-      label: 'Day Counter',
+      label: isRange ? 'Days in Range' : 'Day Counter',
       value: String(totalDays),
       onClick: undefined,
     },
+    ...(consistency
+      ? [
+          {
+            key: 'streak',
+            label: `Streak · best ${consistency.longestStreak}d`,
+            value: `${consistency.currentStreak}d`,
+            onClick: onOpenStats,
+          },
+          {
+            key: 'consistency',
+            label: `Consistency · ${consistency.windowDays}d`,
+            value: `${Math.round(consistency.consistencyScore)}%`,
+            onClick: onOpenStats,
+          },
+        ]
+      : []),
     {
       key: 'add-milestone',
       label: 'Add Milestone',
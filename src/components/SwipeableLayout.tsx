@@ -1,61 +1,38 @@
-import { useState, useRef, useEffect, useCallback, ReactNode } from 'react';
+import { useState, useRef, useEffect, ReactNode } from 'react';
 import { cn } from '@/lib/utils';
-import { RefreshCw, Play } from 'lucide-react';
+import { RefreshCw, Play, Pause, Square, CalendarDays, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Link } from 'react-router-dom';
 import { useCalendarSync } from '@/hooks/useCalendarSync';
+import { usePracticeTimer } from '@/hooks/usePracticeTimer';
 import { useToast } from '@/hooks/use-toast';
 import { APP_VERSION } from '@/lib/version';
-import { supabase } from '@/integrations/supabase/client';
 
 interface SwipeableLayoutProps {
   leftView: ReactNode;
   rightView: ReactNode;
   onSync?: () => Promise<void>;
   onMirrorTimeChange?: (seconds: number) => void;
+  // Today's practice, running timer included, has reached the daily goal
+  isDailyGoalReached?: boolean;
   isSwipeDisabled?: boolean;
   onViewChange?: (view: 'left' | 'right') => void;
 }
 
-export function SwipeableLayout({ leftView, rightView, onSync, onMirrorTimeChange, isSwipeDisabled, onViewChange }: SwipeableLayoutProps) {
+export function SwipeableLayout({ leftView, rightView, onSync, onMirrorTimeChange, isDailyGoalReached = false, isSwipeDisabled, onViewChange }: SwipeableLayoutProps) {
   const [currentView, setCurrentView] = useState<'left' | 'right'>('left');
   useEffect(() => {
     onViewChange?.(currentView);
   }, [currentView, onViewChange]);
   const [touchDelta, setTouchDelta] = useState(0);
   const [isSwiping, setIsSwiping] = useState(false);
-  const [isTimerRunning, setIsTimerRunning] = useState(false);
-  const [timerSeconds, setTimerSeconds] = useState(0);
-  const [initialSessionCount, setInitialSessionCount] = useState<number | null>(null);
-  const timerStartRef = useRef<Date | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const touchStartRef = useRef<{ x: number; y: number } | null>(null);
   const axisLockRef = useRef<'x' | 'y' | null>(null);
   const { syncCalendar, isSyncing } = useCalendarSync();
+  const timer = usePracticeTimer();
   const { toast } = useToast();
 
-  // Silent sync - doesn't show UI feedback
-  const silentSync = useCallback(async (): Promise<boolean> => {
-    try {
-      const { data, error } = await supabase.functions.invoke('sync-calendar');
-      if (error) return false;
-      return (data?.synced || 0) > 0;
-    } catch {
-      return false;
-    }
-  }, []);
-
-  // Get today's session count
-  const getSessionCount = useCallback(async (): Promise<number> => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const { count } = await supabase
-      .from('practice_sessions')
-      .select('*', { count: 'exact', head: true })
-      .gte('started_at', today.toISOString());
-    return count || 0;
-  }, []);
-
   // Format timer: seconds (0:SS) -> minutes (Xm) -> hours (H:MM)
   const formatTimer = (seconds: number): string => {
     const h = Math.floor(seconds / 3600);
@@ -74,73 +51,43 @@ export function SwipeableLayout({ leftView, rightView, onSync, onMirrorTimeChang
     }
   };
 
-  // Timer counter effect - notify parent of mirror time changes
-  useEffect(() => {
-    if (!isTimerRunning) {
-      onMirrorTimeChange?.(0);
-      return;
-    }
-    
-    const interval = setInterval(() => {
-      if (timerStartRef.current) {
-        const elapsed = Math.floor((new Date().getTime() - timerStartRef.current.getTime()) / 1000);
-        setTimerSeconds(elapsed);
-        onMirrorTimeChange?.(elapsed);
-      }
-    }, 1000);
-    
-    return () => clearInterval(interval);
-  }, [isTimerRunning, onMirrorTimeChange]);
-
-  // Periodic silent sync every 30 seconds while timer is running
+  // Notify parent of mirror time changes - unsaved timer time counts until it is written
   useEffect(() => {
-    if (!isTimerRunning || initialSessionCount === null) return;
-
-    const pollInterval = setInterval(async () => {
-      const hasNewData = await silentSync();
-      
-      if (hasNewData) {
-        // Check if session count increased
-        const newCount = await getSessionCount();
-        
-        if (newCount > initialSessionCount) {
-          // New session detected! Stop timer and refresh
-          setIsTimerRunning(false);
-          setTimerSeconds(0);
-          timerStartRef.current = null;
-          setInitialSessionCount(null);
-          onMirrorTimeChange?.(0);
-          
-          // Notify parent to refresh data
-          await onSync?.();
-          
-          toast({
-            title: 'Practice session synced!',
-            description: 'New session detected from calendar',
-            duration: 3000,
-          });
-        }
-      }
-    }, 30000); // Every 30 seconds
-
-    return () => clearInterval(pollInterval);
-  }, [isTimerRunning, initialSessionCount, silentSync, getSessionCount, onSync, onMirrorTimeChange, toast]);
+    onMirrorTimeChange?.(timer.isActive ? timer.elapsedSeconds : 0);
+  }, [timer.isActive, timer.elapsedSeconds, onMirrorTimeChange]);
 
-  const handleTimerToggle = async () => {
-    if (isTimerRunning) {
-      // Stop timer
-      setIsTimerRunning(false);
-      setTimerSeconds(0);
-      timerStartRef.current = null;
-      setInitialSessionCount(null);
-      onMirrorTimeChange?.(0);
+  const handleTimerToggle = () => {
+    if (timer.isRunning) {
+      timer.pause();
+    } else if (timer.isPaused) {
+      timer.resume();
     } else {
-      // Start timer - record initial session count
-      const count = await getSessionCount();
-      setInitialSessionCount(count);
-      timerStartRef.current = new Date();
-      setTimerSeconds(0);
-      setIsTimerRunning(true);
+      timer.start();
+    }
+  };
+
+  const handleTimerStop = async () => {
+    const result = await timer.stop();
+    if (result.saved) {
+      await onSync?.();
+      toast({
+        title: 'Session saved',
+        description: `${formatTimer(result.durationSeconds)} added to your practice history`,
+        duration: 2000,
+      });
+    } else if (result.reason === 'duplicate') {
+      await onSync?.();
+      toast({
+        title: 'Already recorded',
+        description: 'A synced session already covers this time',
+        duration: 2000,
+      });
+    } else if (result.reason === 'too_short') {
+      toast({
+        title: 'Session too short',
+        description: 'Sessions under a minute are not saved',
+        duration: 2000,
+      });
     }
   };
 
@@ -267,12 +214,35 @@ export function SwipeableLayout({ leftView, rightView, onSync, onMirrorTimeChang
             onClick={handleTimerToggle}
             className="hover:bg-transparent hover:text-foreground focus:ring-0 focus-visible:ring-0 focus:outline-none focus-visible:outline-none text-muted-foreground"
           >
-            {isTimerRunning ? (
-              <span className="font-mono text-sm">{formatTimer(timerSeconds)}</span>
+            {timer.isActive ? (
+              <span
+                className={cn(
+                  "flex items-center gap-1 font-mono text-sm",
+                  timer.isRunning && "text-foreground",
+                  isDailyGoalReached && "text-chart-positive"
+                )}
+                title={isDailyGoalReached ? "Today's goal reached" : undefined}
+              >
+                {timer.isPaused && <Pause className="w-3 h-3" />}
+                {isDailyGoalReached && !timer.isPaused && <Check className="w-3 h-3" />}
+                {formatTimer(timer.elapsedSeconds)}
+              </span>
             ) : (
               <Play className="w-4 h-4" />
             )}
           </Button>
+          {timer.isActive && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleTimerStop}
+              disabled={timer.isSaving}
+              aria-label="Stop and save session"
+              className="hover:bg-transparent hover:text-foreground focus:ring-0 focus-visible:ring-0 focus:outline-none focus-visible:outline-none text-muted-foreground"
+            >
+              <Square className="w-3.5 h-3.5" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -285,6 +255,15 @@ export function SwipeableLayout({ leftView, rightView, onSync, onMirrorTimeChang
           >
             <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
           </Button>
+          <Link to="/stats" aria-label="Stats">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground hover:bg-transparent hover:text-foreground focus:ring-0 focus-visible:ring-0 focus:outline-none focus-visible:outline-none"
+            >
+              <CalendarDays className="w-4 h-4" />
+            </Button>
+          </Link>
           <Link to="/settings">
             <Button 
               variant="ghost" 
@@ -0,0 +1,278 @@
+import { useEffect, useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  SyncFilterMode,
+  SyncSource,
+  SyncSourceInput,
+  useSyncSources,
+  validateTitleFilter,
+  verificationMarker,
+} from '@/hooks/useSyncSources';
+
+const FILTER_MODE_LABELS: Record<SyncFilterMode, string> = {
+  keyword: 'Title contains',
+  regex: 'Title matches regex',
+};
+
+function describeSource(source: SyncSource): string {
+  const parts = [
+    source.title_filter
+      ? source.filter_mode === 'regex'
+        ? `/${source.title_filter}/`
+        : `“${source.title_filter}”`
+      : 'All events',
+  ];
+  if (source.min_duration_minutes > 0) parts.push(`≥ ${source.min_duration_minutes} min`);
+  return parts.join(' · ');
+}
+
+interface SyncSourceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing source to edit; null opens the dialog in "add" mode
+  source: SyncSource | null;
+  onSave: (input: SyncSourceInput) => Promise<boolean>;
+}
+
+function SyncSourceDialog({ open, onOpenChange, source, onSave }: SyncSourceDialogProps) {
+  const [name, setName] = useState('');
+  const [calendarId, setCalendarId] = useState('');
+  const [titleFilter, setTitleFilter] = useState('');
+  const [filterMode, setFilterMode] = useState<SyncFilterMode>('keyword');
+  const [minMinutes, setMinMinutes] = useState('0');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(source?.name ?? '');
+    setCalendarId(source?.calendar_id ?? '');
+    setTitleFilter(source?.title_filter ?? (source ? '' : 'practice'));
+    setFilterMode(source?.filter_mode ?? 'keyword');
+    setMinMinutes(String(source?.min_duration_minutes ?? 0));
+    setError(null);
+  }, [open, source]);
+
+  const handleSubmit = async () => {
+    setError(null);
+
+    if (!name.trim() || !calendarId.trim()) {
+      setError('Enter a name and a calendar ID.');
+      return;
+    }
+
+    const minutesValue = Number(minMinutes || 0);
+    if (!Number.isInteger(minutesValue) || minutesValue < 0) {
+      setError('Enter a whole number of minutes.');
+      return;
+    }
+
+    const filter = titleFilter.trim() || null;
+    const filterError = validateTitleFilter(filter, filterMode);
+    if (filterError) {
+      setError(`Invalid regex: ${filterError}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await onSave({
+        name: name.trim(),
+        calendar_id: calendarId.trim(),
+        title_filter: filter,
+        filter_mode: filterMode,
+        min_duration_minutes: minutesValue,
+        enabled: source?.enabled ?? true,
+      });
+      if (saved) onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{source ? 'Edit calendar' : 'Add calendar'}</DialogTitle>
+          <DialogDescription>
+            Share the calendar with the sync service account first, then paste its ID from the Google Calendar settings.
+            Syncing starts once the verification code shown in the list is in the calendar's description.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="source-name">Name</Label>
+            <Input
+              id="source-name"
+              value={name}
+              placeholder="Piano practice"
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="source-calendar">Calendar ID</Label>
+            <Input
+              id="source-calendar"
+              value={calendarId}
+              placeholder="abc123@group.calendar.google.com"
+              onChange={(event) => setCalendarId(event.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="grid gap-2">
+              <Label>Filter</Label>
+              <Select value={filterMode} onValueChange={(value) => setFilterMode(value as SyncFilterMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FILTER_MODE_LABELS) as SyncFilterMode[]).map(mode => (
+                    <SelectItem key={mode} value={mode}>{FILTER_MODE_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="source-filter">{filterMode === 'regex' ? 'Pattern' : 'Keyword'}</Label>
+              <Input
+                id="source-filter"
+                value={titleFilter}
+                placeholder="Leave empty for all events"
+                onChange={(event) => setTitleFilter(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="source-min-minutes">Minimum duration (minutes)</Label>
+            <Input
+              id="source-min-minutes"
+              type="number"
+              min={0}
+              step={1}
+              value={minMinutes}
+              onChange={(event) => setMinMinutes(event.target.value)}
+            />
+          </div>
+
+          {error ? <p className="text-xs text-destructive">{error}</p> : null}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="ghost"
+            className="text-muted-foreground hover:text-foreground hover:bg-muted/40"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="border-border/60 text-foreground hover:bg-muted/40"
+            onClick={handleSubmit}
+            disabled={isSaving}
+          >
+            {isSaving ? 'Saving...' : source ? 'Save changes' : 'Add calendar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function SyncSourcesSettings() {
+  const { sources, isLoading, isUpdating, addSource, updateSource, deleteSource } = useSyncSources();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SyncSource | null>(null);
+
+  const openDialog = (source: SyncSource | null) => {
+    setEditing(source);
+    setDialogOpen(true);
+  };
+
+  const handleSave = (input: SyncSourceInput) =>
+    editing ? updateSource(editing.id, input) : addSource(input);
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : sources.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No calendars configured.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {sources.map(source => (
+            <div
+              key={source.id}
+              className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-muted"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-foreground truncate">{source.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {source.calendar_id} · {describeSource(source)}
+                </p>
+                <p className="text-xs text-muted-foreground truncate select-all" title="Add to the calendar's description">
+                  {verificationMarker(source.verification_code)}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <Switch
+                  checked={source.enabled}
+                  onCheckedChange={(checked) => updateSource(source.id, { enabled: checked })}
+                  disabled={isUpdating}
+                  aria-label={source.enabled ? 'Disable sync' : 'Enable sync'}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                  onClick={() => openDialog(source)}
+                  disabled={isUpdating}
+                  aria-label="Edit"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  onClick={() => deleteSource(source.id)}
+                  disabled={isUpdating}
+                  aria-label="Remove"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button variant="outline" onClick={() => openDialog(null)} disabled={isUpdating}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add calendar
+      </Button>
+
+      <SyncSourceDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        source={editing}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
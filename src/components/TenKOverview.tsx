@@ -1,8 +1,12 @@
 import { useEffect, useMemo } from 'react';
 import { VerticalTimeline } from '@/components/dashboard/VerticalTimeline';
 import { useMilestones } from '@/hooks/useMilestones';
-import { AnalyticsResult } from '@/lib/practiceAnalytics';
-import { format, startOfDay, differenceInDays } from 'date-fns';
+import { PREFERENCE_KEYS, usePreference } from '@/hooks/usePreference';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { addHoursToDay, AnalyticsResult, dayOnOrBefore } from '@/lib/practiceAnalytics';
+import { buildForecast, DEFAULT_FORECAST_MODEL, ForecastModel } from '@/lib/forecast';
+import { keyToDate, practiceDayKey, practiceDayStart } from '@/lib/dayBoundary';
+import { differenceInDays } from 'date-fns';
 
 interface TenKOverviewProps {
   analytics: AnalyticsResult | null;
@@ -10,7 +14,9 @@ interface TenKOverviewProps {
 }
 
 export function TenKOverview({ analytics, mirrorTimeSeconds = 0 }: TenKOverviewProps) {
-  const { milestones, checkAndCreateMilestones, updateMilestoneDescription } = useMilestones();
+  const { milestones, checkAndCreateMilestones, updateMilestoneDescription, deleteMilestone } = useMilestones();
+  const [forecastModel] = usePreference<ForecastModel>(PREFERENCE_KEYS.forecastModel, DEFAULT_FORECAST_MODEL);
+  const [dayBoundary] = useDayBoundary();
 
   // Check for new 100h milestones when analytics loads
   useEffect(() => {
@@ -22,24 +28,20 @@ export function TenKOverview({ analytics, mirrorTimeSeconds = 0 }: TenKOverviewP
   const timelineMilestones = useMemo(() => {
     if (!analytics) return milestones;
 
+    const { dailyData } = analytics;
     const getCumulativeAt = (target: Date) => {
-      const key = format(startOfDay(target), 'yyyy-MM-dd');
-      const exact = analytics.dailyData.find(d => d.dateStr === key);
-      if (exact) return exact.cumulativeHours;
-      if (target < analytics.startDate) return 0;
-      if (target > analytics.endDate) return analytics.totalHours;
-      const fallback = [...analytics.dailyData].reverse().find(d => d.date <= target);
-      return fallback ? fallback.cumulativeHours : 0;
+      const day = dayOnOrBefore(dailyData, practiceDayKey(target, dayBoundary));
+      return day ? day.cumulativeHours : 0;
     };
 
     const computeAverageAt = (target: Date) => {
       const cum = getCumulativeAt(target);
-      const days = Math.max(1, differenceInDays(startOfDay(target), startOfDay(analytics.startDate)) + 1);
+      const days = Math.max(1, differenceInDays(keyToDate(practiceDayKey(target, dayBoundary)), analytics.startDate) + 1);
       return cum / days;
     };
 
-    const y1Date = new Date('2025-02-01T00:00:00');
-    const y2Date = new Date('2026-02-01T00:00:00');
+    const y1Date = practiceDayStart('2025-02-01', dayBoundary);
+    const y2Date = practiceDayStart('2026-02-01', dayBoundary);
 
     const synthetic = [
       {
@@ -69,9 +71,19 @@ export function TenKOverview({ analytics, mirrorTimeSeconds = 0 }: TenKOverviewP
     });
 
     return [...enriched, ...synthetic].sort((a, b) => a.hours - b.hours);
-  }, [analytics, milestones]);
+  }, [analytics, milestones, dayBoundary]);
 
-  if (!analytics) {
+  // Mirror time counts as practice today, so it moves every model's pace
+  const forecast = useMemo(() => {
+    if (!analytics) return null;
+    const mirrorTimeHours = mirrorTimeSeconds / 3600;
+    const dailyData = mirrorTimeHours > 0
+      ? [...analytics.dailyData.slice(0, -1), addHoursToDay(analytics.dailyData[analytics.dailyData.length - 1], mirrorTimeHours)]
+      : analytics.dailyData;
+    return buildForecast(dailyData, forecastModel);
+  }, [analytics, mirrorTimeSeconds, forecastModel]);
+
+  if (!analytics || !forecast) {
     return (
       <div className="flex items-center justify-center h-full">
         <p className="text-muted-foreground">No data available</p>
@@ -82,8 +94,6 @@ export function TenKOverview({ analytics, mirrorTimeSeconds = 0 }: TenKOverviewP
   // Add mirror time to total hours for display
   const mirrorTimeHours = mirrorTimeSeconds / 3600;
   const adjustedTotalHours = analytics.totalHours + mirrorTimeHours;
-  const averageBump = analytics.totalDays > 0 ? mirrorTimeHours / analytics.totalDays : 0;
-  const adjustedDailyAverage = analytics.currentAverage + averageBump;
 
   return (
     <div className="pb-8">
@@ -91,11 +101,12 @@ export function TenKOverview({ analytics, mirrorTimeSeconds = 0 }: TenKOverviewP
       <VerticalTimeline
         milestones={timelineMilestones}
         currentHours={adjustedTotalHours}
-        dailyAverage={adjustedDailyAverage}
+        forecast={forecast}
         startDate={analytics.startDate}
         onSaveDescription={async (_nodeId, milestoneId, description) => {
           await updateMilestoneDescription(milestoneId, description);
         }}
+        onDeleteMilestone={deleteMilestone}
       />
     </div>
   );
@@ -1,6 +1,20 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { keyToDate } from '@/lib/dayBoundary';
+import { DateRange } from '@/lib/practiceAnalytics';
+import { formatDateRange, RangePreset } from '@/lib/rangePresets';
+
 interface TimeRangeSelectorProps {
-  selectedRange: '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX';
+  selectedRange: '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX' | 'CUSTOM';
   onRangeChange: (range: '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX') => void;
+  // The custom range option is only offered when onCustomRangeChange is given
+  customRange?: DateRange | null;
+  onCustomRangeChange?: (range: DateRange) => void;
+  presets?: RangePreset[];
 }
 
 const ranges: Array<{ key: '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX'; label: string }> = [
@@ -13,22 +27,85 @@ const ranges: Array<{ key: '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX'; lab
   { key: 'ALL', label: 'All' },
 ];
 
-export function TimeRangeSelector({ selectedRange, onRangeChange }: TimeRangeSelectorProps) {
+export function TimeRangeSelector({ selectedRange, onRangeChange, customRange, onCustomRangeChange, presets = [] }: TimeRangeSelectorProps) {
+  const [open, setOpen] = useState(false);
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+
+  // Start editing from the range currently shown
+  useEffect(() => {
+    if (!open) return;
+    setStart(customRange ? format(customRange.start, 'yyyy-MM-dd') : '');
+    setEnd(customRange ? format(customRange.end, 'yyyy-MM-dd') : '');
+  }, [open, customRange]);
+
+  const isValid = start !== '' && end !== '' && start <= end;
+
+  const applyRange = (range: DateRange) => {
+    onCustomRangeChange?.(range);
+    setOpen(false);
+  };
+
+  const buttonClass = (isSelected: boolean) => `text-lg font-semibold transition-colors duration-200 ${
+    isSelected
+      ? 'text-foreground'
+      : 'text-muted-foreground hover:text-foreground/70'
+  }`;
+
   return (
     <div className="flex items-center justify-start gap-6">
       {ranges.map(({ key, label }) => (
         <button
           key={key}
           onClick={() => onRangeChange(key)}
-          className={`text-lg font-semibold transition-colors duration-200 ${
-            selectedRange === key
-              ? 'text-foreground'
-              : 'text-muted-foreground hover:text-foreground/70'
-          }`}
+          className={buttonClass(selectedRange === key)}
         >
           {label}
         </button>
       ))}
+      {onCustomRangeChange && (
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <button className={buttonClass(selectedRange === 'CUSTOM')}>Custom</button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 space-y-4" align="end">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-1">
+                <Label htmlFor="range-start" className="text-xs">From</Label>
+                <Input id="range-start" type="date" value={start} onChange={(event) => setStart(event.target.value)} />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="range-end" className="text-xs">To</Label>
+                <Input id="range-end" type="date" value={end} onChange={(event) => setEnd(event.target.value)} />
+              </div>
+            </div>
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={!isValid}
+              onClick={() => applyRange({ start: keyToDate(start), end: keyToDate(end) })}
+            >
+              Show range
+            </Button>
+
+            {presets.length > 0 && (
+              <div className="space-y-1 max-h-60 overflow-y-auto">
+                <p className="text-[10px] font-semibold uppercase tracking-widest text-muted-foreground">From milestones</p>
+                {presets.map(preset => (
+                  <button
+                    key={preset.key}
+                    onClick={() => applyRange(preset.range)}
+                    className="flex w-full flex-col items-start rounded-md px-2 py-1.5 text-left hover:bg-muted"
+                  >
+                    <span className="text-sm text-foreground">{preset.label}</span>
+                    <span className="text-[10px] text-muted-foreground">{formatDateRange(preset.range)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+      )}
     </div>
   );
 }
@@ -1,7 +1,8 @@
 import { useEffect, useState } from 'react';
-import { format, addDays, differenceInDays, differenceInMonths, differenceInYears } from 'date-fns';
+import { format, differenceInDays, differenceInMonths, differenceInYears } from 'date-fns';
 import { Switch } from '@/components/ui/switch';
-import { Pencil, Check, X } from 'lucide-react';
+import { Pencil, Check, X, Trash2 } from 'lucide-react';
+import { Forecast, FORECAST_MODELS, forecastMilestone, MilestoneForecast } from '@/lib/forecast';
 
 interface Milestone {
   id: number;
@@ -15,9 +16,10 @@ interface Milestone {
 interface VerticalTimelineProps {
   milestones: Milestone[];
   currentHours: number;
-  dailyAverage: number;
+  forecast: Forecast;
   startDate: Date;
   onSaveDescription?: (nodeId: string, milestoneId: number, description: string) => Promise<void> | void;
+  onDeleteMilestone?: (milestoneId: number) => Promise<void> | void;
 }
 
 const COLORS = {
@@ -29,7 +31,7 @@ const COLORS = {
   foreground: 'hsl(var(--foreground))',
 };
 
-export function VerticalTimeline({ milestones, currentHours, dailyAverage, startDate, onSaveDescription }: VerticalTimelineProps) {
+export function VerticalTimeline({ milestones, currentHours, forecast, startDate, onSaveDescription, onDeleteMilestone }: VerticalTimelineProps) {
   const [expandedNodeId, setExpandedNodeId] = useState<string | null>(null);
   const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
   const [draftText, setDraftText] = useState('');
@@ -54,19 +56,21 @@ export function VerticalTimeline({ milestones, currentHours, dailyAverage, start
   }, [showOther]);
   
   // Calculate future milestones
-  const hoursTo10k = Math.max(0, 10000 - currentHours);
-  const daysTo10k = dailyAverage > 0 ? Math.ceil(hoursTo10k / dailyAverage) : Infinity;
-  const date10k = dailyAverage > 0 ? addDays(today, daysTo10k) : null;
+  const forecast10k = forecastMilestone(currentHours, 10000, forecast, today);
+  const daysTo10k = forecast10k.days;
+  const date10k = forecast10k.date;
   
   const next1k = Math.ceil(currentHours / 1000) * 1000;
-  const hoursToNext1k = next1k - currentHours;
-  const daysToNext1k = dailyAverage > 0 ? Math.ceil(hoursToNext1k / dailyAverage) : Infinity;
-  const dateNext1k = dailyAverage > 0 ? addDays(today, daysToNext1k) : null;
+  const forecastNext1k = forecastMilestone(currentHours, next1k, forecast, today);
+  const daysToNext1k = forecastNext1k.days;
+  const dateNext1k = forecastNext1k.date;
   
   const next100 = Math.ceil(currentHours / 100) * 100;
-  const hoursToNext100 = next100 - currentHours;
-  const daysToNext100 = dailyAverage > 0 ? Math.ceil(hoursToNext100 / dailyAverage) : Infinity;
-  const dateNext100 = dailyAverage > 0 ? addDays(today, daysToNext100) : null;
+  const forecastNext100 = forecastMilestone(currentHours, next100, forecast, today);
+  const daysToNext100 = forecastNext100.days;
+  const dateNext100 = forecastNext100.date;
+
+  const modelLabel = FORECAST_MODELS.find(m => m.key === forecast.model)?.label ?? forecast.model;
 
   type TimelineNode = {
     id: string;
@@ -74,6 +78,7 @@ export function VerticalTimeline({ milestones, currentHours, dailyAverage, start
     hours: number;
     title: string;
     date: Date | null;
+    forecast?: MilestoneForecast;
     average: string | null;
     description?: string | null;
     isFuture: boolean;
@@ -97,6 +102,7 @@ export function VerticalTimeline({ milestones, currentHours, dailyAverage, start
       hours: 10000,
       title: formatHoursTitle(10000),
       date: date10k,
+      forecast: forecast10k,
       average: null,
       isFuture: true,
       is10k: true,
@@ -110,6 +116,7 @@ export function VerticalTimeline({ milestones, currentHours, dailyAverage, start
       hours: next1k,
       title: formatHoursTitle(next1k),
       date: dateNext1k,
+      forecast: forecastNext1k,
       average: null,
       isFuture: true,
       is1k: true,
@@ -123,6 +130,7 @@ export function VerticalTimeline({ milestones, currentHours, dailyAverage, start
       hours: next100,
       title: formatHoursTitle(next100),
       date: dateNext100,
+      forecast: forecastNext100,
       average: null,
       isFuture: true,
     });
@@ -300,6 +308,14 @@ export function VerticalTimeline({ milestones, currentHours, dailyAverage, start
     return format(date, 'MMM d, yyyy');
   };
 
+  // Optimistic to pessimistic date; the pessimistic end is open when that pace never gets there
+  const formatForecastRange = (nodeForecast: MilestoneForecast | undefined, pattern: string) => {
+    if (!nodeForecast || !nodeForecast.optimisticDate) return null;
+    if (nodeForecast.optimisticDays === nodeForecast.pessimisticDays) return null;
+    const from = format(nodeForecast.optimisticDate, pattern);
+    return nodeForecast.pessimisticDate ? `${from} – ${format(nodeForecast.pessimisticDate, pattern)}` : `after ${from}`;
+  };
+
   // Find where achieved nodes start and end (future nodes are first due to descending sort)
   const firstAchievedIndex = filteredNodes.findIndex(node => !node.isFuture);
   const hasAchievedNodes = firstAchievedIndex !== -1;
@@ -352,6 +368,9 @@ export function VerticalTimeline({ milestones, currentHours, dailyAverage, start
             {progressPercentage.toFixed(1)}%
           </span>
         </div>
+        <p className="mt-1 text-[10px] text-right uppercase tracking-wide" style={{ color: COLORS.muted }}>
+          Forecast: {modelLabel}
+        </p>
       </div>
 
       <div className="relative ml-[7px]">
@@ -489,6 +508,14 @@ export function VerticalTimeline({ milestones, currentHours, dailyAverage, start
                               >
                                 TOTAL {formatTotalTime(node.date)} • REMAINING {formatTimeRemaining(node.date)}
                               </p>
+                              {formatForecastRange(node.forecast, 'MMM yyyy') && (
+                                <p
+                                  className="text-[10px] mt-1 uppercase tracking-wide"
+                                  style={{ color: COLORS.muted }}
+                                >
+                                  {formatForecastRange(node.forecast, 'MMM yyyy')}
+                                </p>
+                              )}
                             </>
                           ) : (
                             <>
@@ -506,6 +533,14 @@ export function VerticalTimeline({ milestones, currentHours, dailyAverage, start
                                   {formatDate(node.date)}
                                 </p>
                               )}
+                              {formatForecastRange(node.forecast, node.is1k ? 'MMM yyyy' : 'MMM d') && (
+                                <p
+                                  className="text-[10px] uppercase tracking-wide"
+                                  style={{ color: COLORS.muted }}
+                                >
+                                  {formatForecastRange(node.forecast, node.is1k ? 'MMM yyyy' : 'MMM d')}
+                                </p>
+                              )}
                             </>
                           )
                         ) : (
@@ -579,17 +614,32 @@ export function VerticalTimeline({ milestones, currentHours, dailyAverage, start
                           )}
                         </div>
                         {node.milestoneId !== undefined && node.milestoneId >= 0 && (
-                          <button
-                            onClick={() => {
-                              setDraftText(node.description || '');
-                              setEditingNodeId(node.id);
-                            }}
-                            className="flex-shrink-0 hover:opacity-80"
-                            style={{ color: COLORS.muted }}
-                            aria-label="Edit notes"
-                          >
-                            <Pencil className="w-3 h-3" />
-                          </button>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            <button
+                              onClick={() => {
+                                setDraftText(node.description || '');
+                                setEditingNodeId(node.id);
+                              }}
+                              className="hover:opacity-80"
+                              style={{ color: COLORS.muted }}
+                              aria-label="Edit notes"
+                            >
+                              <Pencil className="w-3 h-3" />
+                            </button>
+                            {onDeleteMilestone && (
+                              <button
+                                onClick={async () => {
+                                  setExpandedNodeId(null);
+                                  await onDeleteMilestone(node.milestoneId!);
+                                }}
+                                className="hover:opacity-80"
+                                style={{ color: COLORS.muted }}
+                                aria-label="Delete milestone"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </button>
+                            )}
+                          </div>
                         )}
                       </div>
                     )}
@@ -0,0 +1,113 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AverageMetric, DailyData, formatHoursMinutes, getMetricValue } from '@/lib/practiceAnalytics';
+
+// Points drawn per line; longer horizons are sampled evenly
+const MAX_POINTS = 200;
+
+interface ScenarioChartProps {
+  history: DailyData[];
+  // Full simulated timelines (history included), one per scenario
+  series: { id: string; name: string; color: string; data: DailyData[] }[];
+  metric: AverageMetric;
+  // Days of history shown before today
+  historyDays: number;
+}
+
+export function ScenarioChart({ history, series, metric, historyDays }: ScenarioChartProps) {
+  const { chartData, todayTimestamp } = useMemo(() => {
+    const firstIndex = Math.max(0, history.length - historyDays);
+    const totalLength = Math.max(history.length, ...series.map(s => s.data.length));
+    const step = Math.max(1, Math.ceil((totalLength - firstIndex) / MAX_POINTS));
+
+    // Today is always kept so every scenario branches off the actual line at the same point
+    const indices: number[] = [];
+    for (let i = firstIndex; i < totalLength; i += step) indices.push(i);
+    if (history.length > 0 && !indices.includes(history.length - 1)) {
+      indices.push(history.length - 1);
+      indices.sort((a, b) => a - b);
+    }
+
+    const rows: Record<string, number | string>[] = [];
+    for (const i of indices) {
+      const source = history[i] ?? series[0]?.data[i];
+      if (!source) break;
+      const row: Record<string, number | string> = {
+        timestamp: source.date.getTime(),
+        displayDate: format(source.date, 'd MMM yyyy'),
+      };
+      if (i < history.length) row.actual = getMetricValue(history[i], metric);
+      for (const s of series) {
+        if (i >= history.length - 1 && s.data[i]) row[s.id] = getMetricValue(s.data[i], metric);
+      }
+      rows.push(row);
+    }
+    return {
+      chartData: rows,
+      todayTimestamp: history.length > 0 ? history[history.length - 1].date.getTime() : undefined,
+    };
+  }, [history, series, metric, historyDays]);
+
+  return (
+    <div className="h-64" data-swipe-ignore>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+          <XAxis
+            dataKey="timestamp"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(value: number) => format(new Date(value), 'MMM yy')}
+            tickLine={false}
+            axisLine={false}
+            tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+          />
+          <YAxis
+            width={48}
+            domain={['auto', 'auto']}
+            tickFormatter={(value: number) => formatHoursMinutes(value)}
+            tickLine={false}
+            axisLine={false}
+            tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(var(--background))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: 8,
+              fontSize: 12,
+            }}
+            labelFormatter={(value: number) => format(new Date(value), 'd MMM yyyy')}
+            formatter={(value: number, name: string) => [
+              formatHoursMinutes(value),
+              name === 'actual' ? 'Actual' : series.find(s => s.id === name)?.name ?? name,
+            ]}
+          />
+          {todayTimestamp !== undefined && (
+            <ReferenceLine x={todayTimestamp} stroke="hsl(var(--border))" strokeDasharray="3 3" />
+          )}
+          <Line
+            dataKey="actual"
+            stroke="hsl(var(--muted-foreground))"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+            connectNulls
+          />
+          {series.map(s => (
+            <Line
+              key={s.id}
+              dataKey={s.id}
+              stroke={s.color}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { WEEKDAY_LABELS } from '@/lib/practiceAnalytics';
+import { Scenario } from '@/lib/simulator';
+
+interface ScenarioEditorProps {
+  scenario: Scenario;
+  color: string;
+  onChange: (scenario: Scenario) => void;
+  // Omitted for the last remaining scenario
+  onRemove?: () => void;
+}
+
+export function ScenarioEditor({ scenario, color, onChange, onRemove }: ScenarioEditorProps) {
+  const setWeekdayHours = (weekday: number, value: string) => {
+    const hours = Number(value);
+    const weekdayHours = [...scenario.weekdayHours];
+    weekdayHours[weekday] = Number.isFinite(hours) && hours >= 0 ? hours : 0;
+    onChange({ ...scenario, weekdayHours });
+  };
+
+  const setBreak = (index: number, field: 'start' | 'end', value: string) => {
+    onChange({
+      ...scenario,
+      breaks: scenario.breaks.map((b, i) => (i === index ? { ...b, [field]: value } : b)),
+    });
+  };
+
+  const weeklyHours = scenario.weekdayHours.reduce((sum, h) => sum + h, 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-3">
+          <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+          <Input
+            value={scenario.name}
+            onChange={(event) => onChange({ ...scenario, name: event.target.value })}
+            className="h-8 text-sm font-medium"
+            aria-label="Scenario name"
+          />
+          {onRemove && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 flex-shrink-0 text-muted-foreground hover:text-destructive"
+              onClick={onRemove}
+              aria-label="Remove scenario"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">
+            Hours per day · {weeklyHours.toFixed(1)}h per week
+          </Label>
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAY_LABELS.map((label, weekday) => (
+              <div key={label} className="flex flex-col items-center gap-1">
+                <span className="text-[10px] text-muted-foreground">{label}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={24}
+                  step={0.25}
+                  value={scenario.weekdayHours[weekday]}
+                  onChange={(event) => setWeekdayHours(weekday, event.target.value)}
+                  className="h-8 px-1 text-center text-xs"
+                  aria-label={`${label} hours`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Breaks</Label>
+          {scenario.breaks.map((b, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={b.start}
+                onChange={(event) => setBreak(index, 'start', event.target.value)}
+                className="h-8 text-xs"
+                aria-label="Break start"
+              />
+              <span className="text-xs text-muted-foreground">–</span>
+              <Input
+                type="date"
+                value={b.end}
+                min={b.start}
+                onChange={(event) => setBreak(index, 'end', event.target.value)}
+                className="h-8 text-xs"
+                aria-label="Break end"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0 text-muted-foreground hover:text-foreground"
+                onClick={() => onChange({ ...scenario, breaks: scenario.breaks.filter((_, i) => i !== index) })}
+                aria-label="Remove break"
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground"
+            onClick={() => onChange({ ...scenario, breaks: [...scenario.breaks, { start: '', end: '' }] })}
+          >
+            <Plus className="w-3.5 h-3.5 mr-1" />
+            Add break
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ConsistencyStats } from '@/lib/practiceAnalytics';
+
+// Choices for the minimum practice time that keeps a streak going
+const MINIMUM_OPTIONS = [1, 5, 10, 15, 20, 30, 45, 60];
+
+// Months shown in the zero-day list
+const MONTHS_SHOWN = 12;
+
+interface ConsistencyPanelProps {
+  stats: ConsistencyStats;
+  onMinimumChange: (minutes: number) => void;
+}
+
+function formatRange(start: Date | null, end: Date | null): string {
+  if (!start || !end) return '—';
+  return `${format(start, 'd MMM yyyy')} – ${format(end, 'd MMM yyyy')}`;
+}
+
+export function ConsistencyPanel({ stats, onMinimumChange }: ConsistencyPanelProps) {
+  const recentMonths = stats.zeroDaysByMonth.slice(-MONTHS_SHOWN).reverse();
+  const maxDays = Math.max(1, ...recentMonths.map(m => m.days));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">Consistency</CardTitle>
+            <CardDescription>
+              Days with at least {stats.minimumMinutes} min of practice
+            </CardDescription>
+          </div>
+          <Select value={String(stats.minimumMinutes)} onValueChange={(value) => onMinimumChange(Number(value))}>
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MINIMUM_OPTIONS.map(minutes => (
+                <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="flex flex-col px-3 py-2 rounded-lg bg-muted">
+            <span className="text-[10px] text-muted-foreground">Current Streak</span>
+            <span className="text-sm font-semibold text-foreground">{stats.currentStreak}d</span>
+            <span className="text-[10px] text-muted-foreground truncate">
+              {stats.currentStreakStart ? `since ${format(stats.currentStreakStart, 'd MMM')}` : '—'}
+            </span>
+          </div>
+          <div className="flex flex-col px-3 py-2 rounded-lg bg-muted">
+            <span className="text-[10px] text-muted-foreground">Longest Streak</span>
+            <span className="text-sm font-semibold text-foreground">{stats.longestStreak}d</span>
+            <span className="text-[10px] text-muted-foreground truncate">
+              {formatRange(stats.longestStreakStart, stats.longestStreakEnd)}
+            </span>
+          </div>
+          <div className="flex flex-col px-3 py-2 rounded-lg bg-muted">
+            <span className="text-[10px] text-muted-foreground">Consistency</span>
+            <span className="text-sm font-semibold text-foreground">{Math.round(stats.consistencyScore)}%</span>
+            <span className="text-[10px] text-muted-foreground truncate">
+              {stats.qualifyingDaysInWindow} of last {stats.windowDays} days
+            </span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Days without practice</p>
+          <div className="space-y-1">
+            {recentMonths.map(month => (
+              <div key={month.month} className="flex items-center gap-3">
+                <span className="text-xs text-muted-foreground w-16 flex-shrink-0">
+                  {format(month.monthStart, 'MMM yyyy')}
+                </span>
+                <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-muted-foreground"
+                    style={{ width: `${(month.zeroDays / maxDays) * 100}%` }}
+                  />
+                </div>
+                <span className="text-xs text-foreground w-14 text-right flex-shrink-0">
+                  {month.zeroDays} / {month.days}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PracticeSessionRow, SOURCE_LABELS } from '@/hooks/usePracticeSessions';
+import { useSyncSources } from '@/hooks/useSyncSources';
+import { formatHoursMinutes } from '@/lib/practiceAnalytics';
+
+interface DaySessionsDialogProps {
+  // Day to show; null keeps the dialog closed
+  date: Date | null;
+  // Sessions starting on that day, in chronological order
+  sessions: PracticeSessionRow[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DaySessionsDialog({ date, sessions, onOpenChange }: DaySessionsDialogProps) {
+  const { sources } = useSyncSources();
+  const sourceNames = useMemo(() => new Map(sources.map(source => [source.id, source.name])), [sources]);
+  const totalHours = sessions.reduce((sum, s) => sum + s.duration_seconds / 3600, 0);
+
+  return (
+    <Dialog open={date !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{date ? format(date, 'EEEE, d MMM yyyy') : ''}</DialogTitle>
+          <DialogDescription>
+            {sessions.length === 0
+              ? 'No practice on this day'
+              : `${sessions.length} session${sessions.length !== 1 ? 's' : ''} · ${formatHoursMinutes(totalHours)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {sessions.length > 0 && (
+          <div className="space-y-1">
+            {sessions.map(session => {
+              const start = new Date(session.started_at);
+              const end = new Date(start.getTime() + session.duration_seconds * 1000);
+              return (
+                <div key={session.id} className="flex items-center justify-between px-3 py-2 rounded-lg bg-muted">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-sm font-mono text-foreground">
+                      {format(start, 'HH:mm')}–{format(end, 'HH:mm')}
+                    </span>
+                    <Badge variant="outline" className="text-[10px] font-medium text-muted-foreground truncate">
+                      {(session.sync_source_id != null && sourceNames.get(session.sync_source_id))
+                        || SOURCE_LABELS[session.source]
+                        || session.source}
+                    </Badge>
+                  </div>
+                  <span className="text-sm text-muted-foreground">
+                    {formatHoursMinutes(session.duration_seconds / 3600)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <Button variant="ghost" size="sm" className="justify-self-end text-muted-foreground" asChild>
+          <Link to="/sessions">Edit sessions</Link>
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
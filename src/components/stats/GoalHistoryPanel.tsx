@@ -0,0 +1,61 @@
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { GOAL_PERIOD_LABELS, GoalPeriod, goalHitRate, GoalPeriodResult } from '@/lib/goals';
+import { formatHoursMinutes } from '@/lib/practiceAnalytics';
+import { keyToDate, practiceDayKey } from '@/lib/dayBoundary';
+
+// Most recent periods drawn per row
+const PERIODS_SHOWN: Record<GoalPeriod, number> = { day: 30, week: 12, month: 12 };
+
+function periodLabel(result: GoalPeriodResult): string {
+  if (result.period === 'day') return format(result.start, 'EEE d MMM yyyy');
+  if (result.period === 'week') return `Week of ${format(result.start, 'd MMM yyyy')}`;
+  return format(result.start, 'MMMM yyyy');
+}
+
+interface GoalHistoryPanelProps {
+  results: Record<GoalPeriod, GoalPeriodResult[]>;
+}
+
+export function GoalHistoryPanel({ results }: GoalHistoryPanelProps) {
+  const [dayBoundary] = useDayBoundary();
+  const today = keyToDate(practiceDayKey(new Date(), dayBoundary));
+  const periods = (Object.keys(PERIODS_SHOWN) as GoalPeriod[]).filter(period => results[period].length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Goals</CardTitle>
+        <CardDescription>How often each target was reached since it was set</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {periods.map(period => {
+          const history = results[period];
+          const { hit, total, rate } = goalHitRate(history, today);
+          const recent = history.slice(-PERIODS_SHOWN[period]);
+          return (
+            <div key={period} className="space-y-2">
+              <div className="flex items-baseline justify-between gap-4">
+                <p className="text-xs font-medium text-muted-foreground">{GOAL_PERIOD_LABELS[period]}</p>
+                <p className="text-xs text-foreground">
+                  {Math.round(rate)}% <span className="text-muted-foreground">· {hit} of {total}</span>
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {recent.map(result => (
+                  <span
+                    key={result.start.getTime()}
+                    title={`${periodLabel(result)} · ${formatHoursMinutes(result.actualHours)} of ${formatHoursMinutes(result.targetHours)}`}
+                    className={cn('w-3 h-3 rounded-[3px]', result.reached ? 'bg-primary' : 'bg-muted')}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,320 @@
+import { useMemo, useState } from 'react';
+import { endOfMonth, format, startOfDay, startOfMonth, startOfYear, subDays, subMonths, subYears } from 'date-fns';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PracticeChart } from '@/components/PracticeChart';
+import { cn } from '@/lib/utils';
+import { PracticeSession } from '@/lib/csvParser';
+import { DayBoundary, keyToDate, practiceDayKey } from '@/lib/dayBoundary';
+import { DailyData, formatHoursMinutes, summarizePeriod, PeriodSummary, WEEKDAY_LABELS } from '@/lib/practiceAnalytics';
+
+interface Period {
+  start: Date;
+  end: Date;
+}
+
+const PRESETS: { key: string; label: string; periods: (today: Date) => [Period, Period] }[] = [
+  {
+    key: 'month',
+    label: 'This month vs last month',
+    periods: today => {
+      const lastMonth = subMonths(today, 1);
+      return [
+        { start: startOfMonth(today), end: today },
+        { start: startOfMonth(lastMonth), end: startOfDay(endOfMonth(lastMonth)) },
+      ];
+    },
+  },
+  {
+    key: 'lastMonth',
+    label: 'Last month vs the month before',
+    periods: today => {
+      const lastMonth = subMonths(today, 1);
+      const monthBefore = subMonths(today, 2);
+      return [
+        { start: startOfMonth(lastMonth), end: startOfDay(endOfMonth(lastMonth)) },
+        { start: startOfMonth(monthBefore), end: startOfDay(endOfMonth(monthBefore)) },
+      ];
+    },
+  },
+  {
+    key: 'year',
+    label: 'This year vs last year, to date',
+    periods: today => {
+      const lastYear = subYears(today, 1);
+      return [
+        { start: startOfYear(today), end: today },
+        { start: startOfYear(lastYear), end: lastYear },
+      ];
+    },
+  },
+  {
+    key: '30d',
+    label: 'Last 30 days vs the 30 before',
+    periods: today => [
+      { start: subDays(today, 29), end: today },
+      { start: subDays(today, 59), end: subDays(today, 30) },
+    ],
+  },
+];
+
+const CUSTOM_KEY = 'custom';
+
+const COLORS = {
+  current: 'hsl(var(--primary))',
+  previous: 'hsl(var(--muted-foreground))',
+};
+
+// Practice before this hour counts as "morning", as in the time distribution panel
+const MORNING_END_HOUR = 12;
+
+function share(hours: number, total: number): number {
+  return total > 0 ? (hours / total) * 100 : 0;
+}
+
+function formatPeriod(period: Period): string {
+  return `${format(period.start, 'd MMM yyyy')} – ${format(period.end, 'd MMM yyyy')}`;
+}
+
+function formatSigned(value: number, formatValue: (v: number) => string): string {
+  if (Math.abs(value) < 1e-9) return '±0';
+  return `${value > 0 ? '+' : '−'}${formatValue(Math.abs(value))}`;
+}
+
+interface PeriodComparisonPanelProps {
+  dailyData: DailyData[];
+  sessions: PracticeSession[];
+  minimumMinutes: number;
+  dayBoundary: DayBoundary;
+}
+
+export function PeriodComparisonPanel({ dailyData, sessions, minimumMinutes, dayBoundary }: PeriodComparisonPanelProps) {
+  const [presetKey, setPresetKey] = useState(PRESETS[0].key);
+  // Custom periods as yyyy-MM-dd input values: [first start, first end, second start, second end]
+  const [custom, setCustom] = useState<string[]>(['', '', '', '']);
+  const [hovered, setHovered] = useState<DailyData | null>(null);
+
+  const today = useMemo(() => keyToDate(practiceDayKey(new Date(), dayBoundary)), [dayBoundary]);
+
+  const periods = useMemo<[Period, Period] | null>(() => {
+    const preset = PRESETS.find(p => p.key === presetKey);
+    if (preset) return preset.periods(today);
+    if (custom.some(value => !value)) return null;
+    const [aStart, aEnd, bStart, bEnd] = custom.map(keyToDate);
+    if (aEnd < aStart || bEnd < bStart) return null;
+    return [{ start: aStart, end: aEnd }, { start: bStart, end: bEnd }];
+  }, [presetKey, custom, today]);
+
+  const summaries = useMemo<[PeriodSummary, PeriodSummary] | null>(() => {
+    if (!periods) return null;
+    const [a, b] = periods;
+    return [
+      summarizePeriod(dailyData, sessions, a.start, a.end, minimumMinutes, dayBoundary),
+      summarizePeriod(dailyData, sessions, b.start, b.end, minimumMinutes, dayBoundary),
+    ];
+  }, [periods, dailyData, sessions, minimumMinutes, dayBoundary]);
+
+  const handlePresetChange = (value: string) => {
+    // Custom starts from the periods that were shown so only the changed dates need editing
+    if (value === CUSTOM_KEY && periods) {
+      setCustom([periods[0].start, periods[0].end, periods[1].start, periods[1].end].map(d => format(d, 'yyyy-MM-dd')));
+    }
+    setPresetKey(value);
+    setHovered(null);
+  };
+
+  const renderComparison = ([a, b]: [PeriodSummary, PeriodSummary]) => {
+    const morningShare = (summary: PeriodSummary) => share(
+      summary.distribution.byHour.slice(0, MORNING_END_HOUR).reduce((sum, h) => sum + h, 0),
+      summary.distribution.totalHours
+    );
+    const peakHour = (summary: PeriodSummary) => {
+      if (summary.distribution.totalHours === 0) return '—';
+      const hour = summary.distribution.byHour.indexOf(Math.max(...summary.distribution.byHour));
+      return `${String(hour).padStart(2, '0')}:00`;
+    };
+
+    // Differences are coloured unless more isn't simply better
+    const rows: { label: string; a: string; b: string; difference: number | null; formatDifference?: (v: number) => string; neutral?: boolean }[] = [
+      {
+        label: 'Total',
+        a: formatHoursMinutes(a.totalHours),
+        b: formatHoursMinutes(b.totalHours),
+        difference: a.totalHours - b.totalHours,
+        formatDifference: formatHoursMinutes,
+      },
+      {
+        label: 'Active days',
+        a: `${a.activeDays} of ${a.days}`,
+        b: `${b.activeDays} of ${b.days}`,
+        difference: a.activeDays - b.activeDays,
+        formatDifference: v => `${v}d`,
+      },
+      {
+        label: 'Average per day',
+        a: formatHoursMinutes(a.averagePerDay),
+        b: formatHoursMinutes(b.averagePerDay),
+        difference: a.averagePerDay - b.averagePerDay,
+        formatDifference: formatHoursMinutes,
+      },
+      {
+        label: 'Longest streak',
+        a: `${a.longestStreak}d`,
+        b: `${b.longestStreak}d`,
+        difference: a.longestStreak - b.longestStreak,
+        formatDifference: v => `${v}d`,
+      },
+      {
+        label: 'Before noon',
+        a: `${Math.round(morningShare(a))}%`,
+        b: `${Math.round(morningShare(b))}%`,
+        difference: Math.round(morningShare(a)) - Math.round(morningShare(b)),
+        formatDifference: v => `${v} pt`,
+        neutral: true,
+      },
+      { label: 'Peak hour', a: peakHour(a), b: peakHour(b), difference: null },
+    ];
+
+    // Each weekday's share of its period's total, so periods of different volume compare
+    const weekdayData = WEEKDAY_LABELS.map((label, weekday) => ({
+      label,
+      current: share(a.distribution.byWeekday[weekday], a.distribution.totalHours),
+      previous: share(b.distribution.byWeekday[weekday], b.distribution.totalHours),
+    }));
+
+    const hoveredComparison = hovered ? b.timeline[hovered.dayNumber - 1] : undefined;
+
+    return (
+      <>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] text-muted-foreground">
+              <th className="text-left font-normal pb-2" />
+              <th className="text-right font-normal pb-2">{formatPeriod(a)}</th>
+              <th className="text-right font-normal pb-2">{formatPeriod(b)}</th>
+              <th className="text-right font-normal pb-2">Difference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label} className="border-t border-border">
+                <td className="py-2 text-xs text-muted-foreground">{row.label}</td>
+                <td className="py-2 text-right font-medium text-foreground">{row.a}</td>
+                <td className="py-2 text-right text-muted-foreground">{row.b}</td>
+                <td
+                  className={cn(
+                    'py-2 text-right text-xs',
+                    row.neutral || row.difference === null || row.difference === 0
+                      ? 'text-muted-foreground'
+                      : row.difference > 0 ? 'text-chart-positive' : 'text-chart-negative'
+                  )}
+                >
+                  {row.difference === null ? '' : formatSigned(row.difference, row.formatDifference)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {hovered
+              ? `Day ${hovered.dayNumber} · ${formatHoursMinutes(hovered.cumulativeAverage)}/day vs ${hoveredComparison ? `${formatHoursMinutes(hoveredComparison.cumulativeAverage)}/day` : '—'}`
+              : 'Average per day so far, by day of the period (dashed: second period)'}
+          </p>
+          <div data-swipe-ignore>
+            <PracticeChart
+              data={a.timeline}
+              comparisonData={b.timeline}
+              timeRange="1M"
+              metric="lifetime"
+              onHover={setHovered}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Share by weekday</p>
+          <div className="h-32" data-swipe-ignore>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={weekdayData} margin={{ top: 4, right: 0, bottom: 0, left: 0 }} barGap={1}>
+                <XAxis
+                  dataKey="label"
+                  tickLine={false}
+                  axisLine={false}
+                  tick={{ fontSize: 10, fill: COLORS.previous }}
+                />
+                <YAxis hide />
+                <Tooltip
+                  cursor={{ fill: 'hsl(var(--muted))' }}
+                  contentStyle={{
+                    background: 'hsl(var(--background))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: 8,
+                    fontSize: 12,
+                  }}
+                  formatter={(value: number, name: string) => [
+                    `${value.toFixed(1)}%`,
+                    name === 'current' ? formatPeriod(a) : formatPeriod(b),
+                  ]}
+                />
+                <Bar dataKey="current" fill={COLORS.current} radius={[2, 2, 0, 0]} />
+                <Bar dataKey="previous" fill={COLORS.previous} fillOpacity={0.5} radius={[2, 2, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Compare periods</CardTitle>
+        <CardDescription>Two periods side by side, e.g. for a monthly review</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Select value={presetKey} onValueChange={handlePresetChange}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PRESETS.map(preset => (
+              <SelectItem key={preset.key} value={preset.key}>{preset.label}</SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_KEY}>Custom periods</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {presetKey === CUSTOM_KEY && (
+          <div className="grid grid-cols-2 gap-4">
+            {['First period', 'Second period'].map((label, period) => (
+              <div key={label} className="grid gap-2">
+                <Label>{label}</Label>
+                {[0, 1].map(bound => (
+                  <Input
+                    key={bound}
+                    type="date"
+                    value={custom[period * 2 + bound]}
+                    onChange={(event) => setCustom(prev => prev.map((v, i) => (i === period * 2 + bound ? event.target.value : v)))}
+                    aria-label={`${label} ${bound === 0 ? 'start' : 'end'}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {summaries ? (
+          renderComparison(summaries)
+        ) : (
+          <p className="text-sm text-muted-foreground">Pick a start and end date for both periods</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
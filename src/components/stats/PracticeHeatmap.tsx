@@ -0,0 +1,189 @@
+import { useMemo, useState } from 'react';
+import { addDays, endOfYear, format, isAfter, startOfDay, startOfWeek, startOfYear } from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { DailyData, formatHoursMinutes } from '@/lib/practiceAnalytics';
+
+// Lower bounds in minutes of the coloured levels; anything above zero but below the
+// first bound gets the faintest colour
+const HEATMAP_BUCKET_PRESETS: Record<string, { label: string; bounds: [number, number, number] }> = {
+  short: { label: '5m · 15m · 30m', bounds: [5, 15, 30] },
+  default: { label: '30m · 1h · 2h', bounds: [30, 60, 120] },
+  long: { label: '1h · 2h · 4h', bounds: [60, 120, 240] },
+};
+
+const LEVEL_CLASSES = ['bg-muted', 'bg-primary/25', 'bg-primary/50', 'bg-primary/75', 'bg-primary'];
+
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+interface HeatmapCell {
+  date: Date;
+  dateStr: string;
+  hours: number | null; // null outside the tracked range
+}
+
+function levelFor(hours: number, bounds: [number, number, number]): number {
+  const minutes = hours * 60;
+  if (minutes <= 0) return 0;
+  if (minutes < bounds[0]) return 1;
+  if (minutes < bounds[1]) return 2;
+  if (minutes < bounds[2]) return 3;
+  return 4;
+}
+
+// Week columns (Monday first) covering the whole year; days outside it are null
+function buildWeeks(year: number, hoursByDate: Map<string, number>): (HeatmapCell | null)[][] {
+  const first = startOfYear(new Date(year, 0, 1));
+  const last = endOfYear(first);
+  const today = startOfDay(new Date());
+  const weeks: (HeatmapCell | null)[][] = [];
+
+  for (let weekStart = startOfWeek(first, { weekStartsOn: 1 }); weekStart <= last; weekStart = addDays(weekStart, 7)) {
+    const week: (HeatmapCell | null)[] = [];
+    for (let i = 0; i < 7; i++) {
+      const date = addDays(weekStart, i);
+      if (date < first || date > last || isAfter(date, today)) {
+        week.push(null);
+        continue;
+      }
+      const dateStr = format(date, 'yyyy-MM-dd');
+      week.push({ date, dateStr, hours: hoursByDate.get(dateStr) ?? null });
+    }
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+interface PracticeHeatmapProps {
+  dailyData: DailyData[];
+  bucketPreset: string;
+  onBucketPresetChange: (preset: string) => void;
+  onDayClick: (date: Date) => void;
+}
+
+export function PracticeHeatmap({ dailyData, bucketPreset, onBucketPresetChange, onDayClick }: PracticeHeatmapProps) {
+  const years = useMemo(() => {
+    if (dailyData.length === 0) return [new Date().getFullYear()];
+    const firstYear = dailyData[0].date.getFullYear();
+    const lastYear = dailyData[dailyData.length - 1].date.getFullYear();
+    return Array.from({ length: lastYear - firstYear + 1 }, (_, i) => firstYear + i);
+  }, [dailyData]);
+  const [year, setYear] = useState(() => years[years.length - 1]);
+
+  const hoursByDate = useMemo(() => new Map(dailyData.map(d => [d.dateStr, d.hoursPlayed])), [dailyData]);
+  const weeks = useMemo(() => buildWeeks(year, hoursByDate), [year, hoursByDate]);
+  const bounds = (HEATMAP_BUCKET_PRESETS[bucketPreset] ?? HEATMAP_BUCKET_PRESETS.default).bounds;
+
+  const yearTotal = useMemo(
+    () => dailyData.filter(d => d.date.getFullYear() === year).reduce((sum, d) => sum + d.hoursPlayed, 0),
+    [dailyData, year]
+  );
+
+  // Month label above the first week that starts in that month
+  const monthLabels = weeks.map((week, index) => {
+    const firstDay = week.find(cell => cell !== null);
+    if (!firstDay) return '';
+    const previous = index > 0 ? weeks[index - 1].find(cell => cell !== null) : null;
+    return !previous || previous.date.getMonth() !== firstDay.date.getMonth() ? format(firstDay.date, 'MMM') : '';
+  });
+
+  const yearIndex = years.indexOf(year);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">Heatmap</CardTitle>
+            <CardDescription>{formatHoursMinutes(yearTotal)} in {year}</CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setYear(years[yearIndex - 1])}
+              disabled={yearIndex <= 0}
+              aria-label="Previous year"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm font-medium text-foreground w-10 text-center">{year}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setYear(years[yearIndex + 1])}
+              disabled={yearIndex >= years.length - 1}
+              aria-label="Next year"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="overflow-x-auto pb-1" data-swipe-ignore>
+          <div className="inline-flex flex-col gap-1">
+            <div className="flex gap-[2px] pl-8">
+              {monthLabels.map((label, index) => (
+                <span key={index} className="w-2.5 text-[10px] leading-none text-muted-foreground overflow-visible whitespace-nowrap">
+                  {label}
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-[2px]">
+              <div className="flex flex-col gap-[2px] w-8 flex-shrink-0">
+                {WEEKDAY_LABELS.map((label, index) => (
+                  <span key={index} className="h-2.5 text-[10px] leading-[10px] text-muted-foreground">{label}</span>
+                ))}
+              </div>
+              {weeks.map((week, weekIndex) => (
+                <div key={weekIndex} className="flex flex-col gap-[2px]">
+                  {week.map((cell, dayIndex) =>
+                    cell === null ? (
+                      <span key={dayIndex} className="w-2.5 h-2.5" />
+                    ) : (
+                      <button
+                        key={dayIndex}
+                        onClick={() => onDayClick(cell.date)}
+                        title={`${format(cell.date, 'd MMM yyyy')} · ${cell.hours === null ? 'not tracked' : formatHoursMinutes(cell.hours)}`}
+                        className={cn(
+                          'w-2.5 h-2.5 rounded-[2px]',
+                          cell.hours === null ? 'bg-muted/40' : LEVEL_CLASSES[levelFor(cell.hours, bounds)]
+                        )}
+                      />
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
+            <span>Less</span>
+            {LEVEL_CLASSES.map(levelClass => (
+              <span key={levelClass} className={cn('w-2.5 h-2.5 rounded-[2px]', levelClass)} />
+            ))}
+            <span>More</span>
+          </div>
+          <Select value={bucketPreset} onValueChange={onBucketPresetChange}>
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(HEATMAP_BUCKET_PRESETS).map(([key, preset]) => (
+                <SelectItem key={key} value={key}>{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
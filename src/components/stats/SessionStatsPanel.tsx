@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { TimeRangeSelector } from '@/components/TimeRangeSelector';
+import { PracticeSession } from '@/lib/csvParser';
+import { DayBoundary } from '@/lib/dayBoundary';
+import { calculateSessionStats, formatHoursMinutes, SHORT_SESSION_MINUTES } from '@/lib/practiceAnalytics';
+
+type TimeRange = '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX';
+
+interface SessionStatsPanelProps {
+  sessions: PracticeSession[];
+  dayBoundary: DayBoundary;
+}
+
+export function SessionStatsPanel({ sessions, dayBoundary }: SessionStatsPanelProps) {
+  const [timeRange, setTimeRange] = useState<TimeRange>('1M');
+  const stats = useMemo(
+    () => calculateSessionStats(sessions, timeRange, new Date(), dayBoundary),
+    [sessions, timeRange, dayBoundary]
+  );
+
+  const tiles = [
+    { label: 'Sessions / Day', value: stats.sessionsPerDay.toFixed(1), detail: `${stats.sessionCount} in ${stats.days}d` },
+    { label: 'Median', value: formatHoursMinutes(stats.medianMinutes / 60), detail: `mean ${formatHoursMinutes(stats.meanMinutes / 60)}` },
+    { label: '90th Percentile', value: formatHoursMinutes(stats.p90Minutes / 60), detail: '9 in 10 are shorter' },
+    {
+      label: 'Longest',
+      value: stats.longestSession ? formatHoursMinutes(stats.longestSession.durationInHours) : '—',
+      detail: stats.longestSession ? format(stats.longestSession.startTime, 'd MMM yyyy') : '—',
+    },
+    {
+      label: `Under ${SHORT_SESSION_MINUTES} min`,
+      value: `${Math.round(stats.shortSessionShare)}%`,
+      detail: 'of practice time',
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Sessions</CardTitle>
+        <CardDescription>Whether practice happens in fragments or focused blocks</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto" data-swipe-ignore>
+          <TimeRangeSelector selectedRange={timeRange} onRangeChange={setTimeRange} />
+        </div>
+
+        {stats.sessionCount === 0 ? (
+          <p className="text-sm text-muted-foreground">No sessions in this range</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+              {tiles.map(tile => (
+                <div key={tile.label} className="flex flex-col px-3 py-2 rounded-lg bg-muted">
+                  <span className="text-[10px] text-muted-foreground">{tile.label}</span>
+                  <span className="text-sm font-semibold text-foreground">{tile.value}</span>
+                  <span className="text-[10px] text-muted-foreground truncate">{tile.detail}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">Session length</p>
+              <div className="h-32" data-swipe-ignore>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={stats.histogram} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+                    <XAxis
+                      dataKey="label"
+                      interval={0}
+                      tickLine={false}
+                      axisLine={false}
+                      tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                    />
+                    <YAxis hide />
+                    <Tooltip
+                      cursor={{ fill: 'hsl(var(--muted))' }}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--background))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: 8,
+                        fontSize: 12,
+                      }}
+                      formatter={(value: number, _name: string, item: { payload?: { hours: number } }) => [
+                        `${value} · ${formatHoursMinutes(item.payload?.hours ?? 0)}`,
+                        'Sessions',
+                      ]}
+                    />
+                    <Bar dataKey="count" fill="hsl(var(--primary))" radius={[2, 2, 0, 0]} isAnimationActive={false} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
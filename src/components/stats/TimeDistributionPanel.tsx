@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react';
+import { subDays } from 'date-fns';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { PracticeSession } from '@/lib/csvParser';
+import { DayBoundary } from '@/lib/dayBoundary';
+import { calculateTimeDistribution, formatHoursMinutes, WEEKDAY_LABELS } from '@/lib/practiceAnalytics';
+
+// Period lengths in days; null covers all sessions and can't be compared
+const PERIODS: { key: string; label: string; days: number | null }[] = [
+  { key: '30d', label: 'Last 30 days', days: 30 },
+  { key: '90d', label: 'Last 90 days', days: 90 },
+  { key: '1y', label: 'Last year', days: 365 },
+  { key: 'all', label: 'All time', days: null },
+];
+
+const COLORS = {
+  current: 'hsl(var(--primary))',
+  previous: 'hsl(var(--muted-foreground))',
+};
+
+// Practice before this hour counts as "morning" in the summary
+const MORNING_END_HOUR = 12;
+
+function share(hours: number, total: number): number {
+  return total > 0 ? (hours / total) * 100 : 0;
+}
+
+interface TimeDistributionPanelProps {
+  sessions: PracticeSession[];
+  dayBoundary: DayBoundary;
+}
+
+export function TimeDistributionPanel({ sessions, dayBoundary }: TimeDistributionPanelProps) {
+  const [periodKey, setPeriodKey] = useState('90d');
+  const [compare, setCompare] = useState(false);
+  const period = PERIODS.find(p => p.key === periodKey) ?? PERIODS[0];
+  const canCompare = period.days !== null;
+  const isComparing = compare && canCompare;
+
+  const { current, previous } = useMemo(() => {
+    if (period.days === null) {
+      return { current: calculateTimeDistribution(sessions, null, null, dayBoundary), previous: null };
+    }
+    const now = new Date();
+    const start = subDays(now, period.days);
+    return {
+      current: calculateTimeDistribution(sessions, start, now, dayBoundary),
+      previous: calculateTimeDistribution(sessions, subDays(start, period.days), start, dayBoundary),
+    };
+  }, [sessions, period.days, dayBoundary]);
+
+  // Bars show each bucket's share of the period's total so periods of different volume compare
+  const hourData = current.byHour.map((hours, hour) => ({
+    label: String(hour).padStart(2, '0'),
+    current: share(hours, current.totalHours),
+    previous: previous ? share(previous.byHour[hour], previous.totalHours) : 0,
+  }));
+  const weekdayData = current.byWeekday.map((hours, weekday) => ({
+    label: WEEKDAY_LABELS[weekday],
+    current: share(hours, current.totalHours),
+    previous: previous ? share(previous.byWeekday[weekday], previous.totalHours) : 0,
+  }));
+
+  const morningShare = (distribution: { byHour: number[]; totalHours: number }) =>
+    share(distribution.byHour.slice(0, MORNING_END_HOUR).reduce((sum, h) => sum + h, 0), distribution.totalHours);
+
+  const maxCell = Math.max(0, ...current.grid.flat());
+
+  const renderBars = (data: typeof hourData, interval: number) => (
+    <div className="h-32" data-swipe-ignore>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 4, right: 0, bottom: 0, left: 0 }} barGap={1}>
+          <XAxis
+            dataKey="label"
+            interval={interval}
+            tickLine={false}
+            axisLine={false}
+            tick={{ fontSize: 10, fill: COLORS.previous }}
+          />
+          <YAxis hide />
+          <Tooltip
+            cursor={{ fill: 'hsl(var(--muted))' }}
+            contentStyle={{
+              backgroundColor: 'hsl(var(--background))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: 8,
+              fontSize: 12,
+            }}
+            formatter={(value: number, name: string) => [
+              `${value.toFixed(1)}%`,
+              name === 'current' ? 'This period' : 'Previous period',
+            ]}
+          />
+          <Bar dataKey="current" fill={COLORS.current} radius={[2, 2, 0, 0]} isAnimationActive={false} />
+          {isComparing && (
+            <Bar dataKey="previous" fill={COLORS.previous} radius={[2, 2, 0, 0]} isAnimationActive={false} />
+          )}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">Time of Day</CardTitle>
+            <CardDescription>
+              {formatHoursMinutes(current.totalHours)} · {Math.round(morningShare(current))}% before noon
+              {isComparing && previous ? ` (was ${Math.round(morningShare(previous))}%)` : ''}
+            </CardDescription>
+          </div>
+          <Select value={periodKey} onValueChange={setPeriodKey}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map(p => (
+                <SelectItem key={p.key} value={p.key}>{p.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto pb-1" data-swipe-ignore>
+          <div className="inline-flex flex-col gap-[2px] min-w-full">
+            {current.grid.map((row, weekday) => (
+              <div key={weekday} className="flex items-center gap-[2px]">
+                <span className="w-8 flex-shrink-0 text-[10px] text-muted-foreground">{WEEKDAY_LABELS[weekday]}</span>
+                {row.map((hours, hour) => (
+                  <div
+                    key={hour}
+                    className="w-3.5 h-3.5 flex-shrink-0 flex items-center justify-center"
+                    title={`${WEEKDAY_LABELS[weekday]} ${String(hour).padStart(2, '0')}:00 · ${formatHoursMinutes(hours)}`}
+                  >
+                    {hours > 0 && (
+                      <span
+                        className="rounded-full bg-primary"
+                        style={{
+                          width: `${Math.max(20, Math.sqrt(hours / maxCell) * 100)}%`,
+                          height: `${Math.max(20, Math.sqrt(hours / maxCell) * 100)}%`,
+                        }}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+            <div className="flex gap-[2px]">
+              <span className="w-8 flex-shrink-0" />
+              {Array.from({ length: 24 }, (_, hour) => (
+                <span key={hour} className="w-3.5 flex-shrink-0 text-[10px] text-muted-foreground">
+                  {hour % 6 === 0 ? hour : ''}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="distribution-compare"
+            checked={isComparing}
+            onCheckedChange={setCompare}
+            disabled={!canCompare}
+          />
+          <Label htmlFor="distribution-compare" className="text-xs text-muted-foreground">
+            {canCompare ? `Compare with the previous ${period.days} days` : 'Compare with the previous period'}
+          </Label>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Share by hour</p>
+          {renderBars(hourData, 5)}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Share by weekday</p>
+          {renderBars(weekdayData, 0)}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
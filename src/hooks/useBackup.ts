@@ -0,0 +1,249 @@
+import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { notifySessionsChanged } from '@/hooks/usePracticeSessions';
+import { MILESTONES_REFRESH_EVENT } from '@/hooks/useMilestones';
+import { REPERTOIRE_REFRESH_EVENT } from '@/hooks/useRepertoire';
+import {
+  BackupArchive,
+  BackupTable,
+  BACKUP_TABLES,
+  MilestoneBackupRow,
+  RepertoireBackupRow,
+  RestoreMode,
+  SessionBackupRow,
+  buildArchive,
+  downloadFile,
+  planMerge,
+  tableToCSV,
+} from '@/lib/backup';
+
+const INSERT_BATCH_SIZE = 500;
+
+// Sessions name their sync source by calendar id, the only part that means anything in another account
+const TABLE_COLUMNS: Record<BackupTable, string> = {
+  practice_sessions: '*, sync_sources(calendar_id)',
+  milestones: '*',
+  repertoire_items: '*',
+};
+
+// Fetch every row of a table (paginated to avoid the 1000 row limit)
+async function fetchTable(table: BackupTable): Promise<Record<string, unknown>[]> {
+  const allData: Record<string, unknown>[] = [];
+  let from = 0;
+  const pageSize = 1000;
+  let data;
+
+  do {
+    const { data: pageData, error } = await supabase
+      .from(table)
+      .select(TABLE_COLUMNS[table])
+      .is('deleted_at', null)
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+    data = pageData;
+    if (data && data.length > 0) {
+      allData.push(...data);
+    }
+    from += pageSize;
+  } while (data && data.length === pageSize);
+
+  if (table !== 'practice_sessions') return allData;
+  return allData.map(({ sync_sources, ...row }) => ({
+    ...row,
+    sync_calendar_id: (sync_sources as { calendar_id: string } | null)?.calendar_id ?? null,
+  }));
+}
+
+// This account's sync source per calendar id, for linking restored sessions to it
+async function fetchSyncSourceIds(): Promise<Map<string, number>> {
+  const { data, error } = await supabase.from('sync_sources').select('id, calendar_id');
+  if (error) throw error;
+  return new Map((data || []).map(source => [source.calendar_id, source.id]));
+}
+
+// Archive rows as table inserts. created_at and source have a database default: a null in
+// the archive is left out so the default applies instead of failing NOT NULL
+const sessionInsert = (syncSourceIds: Map<string, number>) => (row: SessionBackupRow): TablesInsert<'practice_sessions'> => ({
+  started_at: row.started_at,
+  duration_seconds: row.duration_seconds,
+  source: row.source ?? undefined,
+  created_at: row.created_at ?? undefined,
+  calendar_event_id: row.calendar_event_id,
+  // Without a source for that calendar the session stays unlinked; sync dedupes it by start time
+  sync_source_id: row.sync_calendar_id ? syncSourceIds.get(row.sync_calendar_id) ?? null : null,
+});
+
+const milestoneInsert = (row: MilestoneBackupRow): TablesInsert<'milestones'> => ({
+  hours: row.hours,
+  achieved_at: row.achieved_at,
+  average_at_milestone: row.average_at_milestone,
+  description: row.description,
+  milestone_type: row.milestone_type,
+  created_at: row.created_at ?? undefined,
+});
+
+const repertoireInsert = (row: RepertoireBackupRow): TablesInsert<'repertoire_items'> => ({
+  type: row.type,
+  title: row.title,
+  composer: row.composer,
+  status: row.status,
+  sort_order: row.sort_order,
+  started_at: row.started_at,
+  divider_label: row.divider_label,
+  created_at: row.created_at ?? undefined,
+});
+
+async function insertInBatches<T>(rows: T[], insert: (batch: T[]) => PromiseLike<{ error: unknown }>) {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw error;
+  }
+}
+
+async function fetchArchive(): Promise<BackupArchive> {
+  const [practice_sessions, milestones, repertoire_items] = await Promise.all(BACKUP_TABLES.map(fetchTable));
+  return buildArchive({ practice_sessions, milestones, repertoire_items });
+}
+
+const timestamp = () => format(new Date(), 'yyyy-MM-dd-HHmm');
+
+export interface RestoreResult {
+  sessions: number;
+  milestones: number;
+  repertoire: number;
+}
+
+export function useBackup() {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { toast } = useToast();
+
+  const exportArchive = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const archive = await fetchArchive();
+      downloadFile(`musical-metrics-backup-${timestamp()}.json`, JSON.stringify(archive, null, 2), 'application/json');
+    } catch (error) {
+      console.error('[Backup] Error exporting archive:', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [toast]);
+
+  const exportTableCSV = useCallback(async (table: BackupTable) => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchTable(table);
+      downloadFile(`${table}-${timestamp()}.csv`, tableToCSV(table, rows), 'text/csv');
+    } catch (error) {
+      console.error(`[Backup] Error exporting ${table}:`, error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [toast]);
+
+  // Restore an archive that already passed validateArchive
+  const restore = useCallback(async (archive: BackupArchive, mode: RestoreMode): Promise<RestoreResult | null> => {
+    setIsRestoring(true);
+    try {
+      let result: RestoreResult;
+
+      if (mode === 'replace') {
+        // Keep a copy of the current data in case the archive was the wrong one
+        const current = await fetchArchive();
+        downloadFile(`musical-metrics-before-restore-${timestamp()}.json`, JSON.stringify(current, null, 2), 'application/json');
+
+        // One transaction: the current rows move to the trash only if every archived row is written
+        const syncSourceIds = await fetchSyncSourceIds();
+        const { error } = await supabase.rpc('replace_practice_data', {
+          p_practice_sessions: archive.tables.practice_sessions.map(sessionInsert(syncSourceIds)),
+          p_milestones: archive.tables.milestones.map(milestoneInsert),
+          p_repertoire_items: archive.tables.repertoire_items.map(repertoireInsert),
+        });
+        if (error) throw error;
+
+        result = {
+          sessions: archive.tables.practice_sessions.length,
+          milestones: archive.tables.milestones.length,
+          repertoire: archive.tables.repertoire_items.length,
+        };
+      } else {
+        const [sessions, repertoire, syncSourceIds] = await Promise.all([
+          fetchTable('practice_sessions'),
+          fetchTable('repertoire_items'),
+          fetchSyncSourceIds(),
+        ]);
+        const plan = planMerge(archive, {
+          sessionStarts: sessions.map(s => s.started_at as string),
+          repertoire: repertoire as unknown as { type: string; title: string; divider_label: string | null; sort_order: number }[],
+        });
+
+        await insertInBatches(plan.sessions.map(sessionInsert(syncSourceIds)), batch =>
+          supabase.from('practice_sessions').insert(batch)
+        );
+        if (plan.milestones.length > 0) {
+          const { error } = await supabase
+            .from('milestones')
+            .upsert(
+              // A trashed milestone with the same hours is brought back by the merge
+              plan.milestones.map(row => ({ ...milestoneInsert(row), deleted_at: null })),
+              { onConflict: 'user_id,hours' }
+            );
+          if (error) throw error;
+        }
+        await insertInBatches(plan.repertoire.map(repertoireInsert), batch =>
+          supabase.from('repertoire_items').insert(batch)
+        );
+
+        result = {
+          sessions: plan.sessions.length,
+          milestones: plan.milestones.length,
+          repertoire: plan.repertoire.length,
+        };
+      }
+
+      toast({
+        title: 'Restore complete',
+        description: `${result.sessions} sessions, ${result.milestones} milestones and ${result.repertoire} repertoire items ${mode === 'replace' ? 'restored' : 'merged'}`,
+      });
+      return result;
+    } catch (error) {
+      console.error('[Backup] Error restoring archive:', error);
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      // Partial restores still changed data, so always refresh the views
+      notifySessionsChanged();
+      window.dispatchEvent(new CustomEvent(MILESTONES_REFRESH_EVENT));
+      window.dispatchEvent(new CustomEvent(REPERTOIRE_REFRESH_EVENT));
+      setIsRestoring(false);
+    }
+  }, [toast]);
+
+  return {
+    isExporting,
+    isRestoring,
+    exportArchive,
+    exportTableCSV,
+    restore,
+  };
+}
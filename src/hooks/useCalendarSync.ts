@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { notifySyncRunsChanged } from '@/hooks/useSyncRuns';
 
 interface SyncState {
   status: 'idle' | 'syncing' | 'success' | 'error';
@@ -8,11 +9,24 @@ interface SyncState {
   syncedCount: number;
 }
 
+interface SourceResult {
+  sourceId: number;
+  name: string;
+  synced: number;
+  updated: number;
+  removed: number;
+  message: string;
+  error?: string;
+}
+
 interface SyncResult {
   synced: number;
+  updated: number;
+  removed: number;
   latestTimestamp: string | null;
   message: string;
   error?: string;
+  sources?: SourceResult[];
 }
 
 export function useCalendarSync() {
@@ -41,7 +55,12 @@ export function useCalendarSync() {
       if (data?.error) throw new Error(data.error);
 
       const syncedCount = data?.synced || 0;
-      
+      const updatedCount = data?.updated || 0;
+      const removedCount = data?.removed || 0;
+      const hasChanges = syncedCount + updatedCount + removedCount > 0;
+      // Some calendars can fail while others sync; the message names them
+      const failedSources = (data?.sources || []).filter(source => source.error);
+
       setSyncState({
         status: 'success',
         message: data?.message || `Synced ${syncedCount} events`,
@@ -49,15 +68,29 @@ export function useCalendarSync() {
       });
 
       if (showToast) {
-        toast({
-          title: syncedCount > 0 ? 'Calendar synced!' : 'Already up to date',
-          description: syncedCount > 0 
-            ? `Added ${syncedCount} new practice sessions`
-            : 'No new events found',
-        });
+        if (failedSources.length > 0) {
+          toast({
+            title: 'Some calendars failed to sync',
+            description: failedSources.map(source => `${source.name}: ${source.error}`).join('\n'),
+            variant: 'destructive',
+          });
+        } else {
+          const changes = [
+            syncedCount > 0 && `added ${syncedCount}`,
+            updatedCount > 0 && `updated ${updatedCount}`,
+            removedCount > 0 && `removed ${removedCount}`,
+          ].filter(Boolean).join(', ');
+          toast({
+            title: hasChanges ? 'Calendar synced!' : 'Already up to date',
+            description: hasChanges
+              ? `Practice sessions ${changes}`
+              : 'No calendar changes found',
+          });
+        }
       }
 
-      return syncedCount > 0;
+      // Edited and deleted events change the totals too
+      return hasChanges;
     } catch (error) {
       console.error('[useCalendarSync] Sync error:', error);
       
@@ -78,6 +111,9 @@ export function useCalendarSync() {
       }
 
       return false;
+    } finally {
+      // Each attempt, failed or not, adds rows to the sync history
+      notifySyncRunsChanged();
     }
   }, [toast]);
 
@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { PREFERENCE_KEYS, usePreference } from '@/hooks/usePreference';
+import { DayBoundary, DEFAULT_DAY_BOUNDARY, isValidTimeZone } from '@/lib/dayBoundary';
+
+/**
+ * The day-start hour, home time zone and split setting used to bucket practice into days
+ */
+export function useDayBoundary(): [DayBoundary, (value: DayBoundary) => void] {
+  const [stored, setStored] = usePreference<Partial<DayBoundary>>(PREFERENCE_KEYS.dayBoundary, DEFAULT_DAY_BOUNDARY);
+
+  // Fill in fields missing from older values and drop zones this browser doesn't know
+  const dayBoundary = useMemo<DayBoundary>(() => ({
+    timeZone: stored.timeZone && isValidTimeZone(stored.timeZone) ? stored.timeZone : DEFAULT_DAY_BOUNDARY.timeZone,
+    dayStartHour: Number.isInteger(stored.dayStartHour) && stored.dayStartHour >= 0 && stored.dayStartHour < 24
+      ? stored.dayStartHour
+      : DEFAULT_DAY_BOUNDARY.dayStartHour,
+    splitSessions: stored.splitSessions ?? DEFAULT_DAY_BOUNDARY.splitSessions,
+  }), [stored]);
+
+  return [dayBoundary, setStored];
+}
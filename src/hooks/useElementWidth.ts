@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Rendered width of an element in pixels, kept up to date as it resizes (0 until the
+ * returned ref is attached)
+ */
+export function useElementWidth<T extends HTMLElement>(): [(element: T | null) => void, number] {
+  const [width, setWidth] = useState(0);
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  const ref = useCallback((element: T | null) => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    if (!element) return;
+
+    setWidth(Math.round(element.getBoundingClientRect().width));
+    if (typeof ResizeObserver === 'undefined') return;
+    observerRef.current = new ResizeObserver(([entry]) => setWidth(Math.round(entry.contentRect.width)));
+    observerRef.current.observe(element);
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  return [ref, width];
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { GoalPeriod, PracticeGoal } from '@/lib/goals';
+import { keyToDate, practiceDayKey } from '@/lib/dayBoundary';
+
+// Dispatched after goals are saved so every mounted useGoals reloads
+export const GOALS_REFRESH_EVENT = 'goals:refresh';
+
+export interface GoalChange {
+  period: GoalPeriod;
+  weekday: number | null;
+  // null removes the goal
+  minutes: number | null;
+}
+
+export function useGoals() {
+  const [goals, setGoals] = useState<PracticeGoal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const { toast } = useToast();
+  const [dayBoundary] = useDayBoundary();
+
+  const fetchGoals = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('practice_goals')
+        .select('id, period, weekday, target_minutes, starts_on, ends_on')
+        .order('starts_on', { ascending: true });
+      if (error) throw error;
+
+      // Type assertion since DB returns text, but we know the constraint
+      setGoals((data || []).map(goal => ({ ...goal, period: goal.period as GoalPeriod })));
+    } catch (error) {
+      console.error('[Goals] Error fetching:', error);
+      toast({
+        title: 'Error loading goals',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  useEffect(() => {
+    const handler = () => fetchGoals();
+    window.addEventListener(GOALS_REFRESH_EVENT, handler);
+    return () => window.removeEventListener(GOALS_REFRESH_EVENT, handler);
+  }, [fetchGoals]);
+
+  // A changed goal ends yesterday and its replacement starts today (practice days), so past
+  // periods keep their target. Goals created today are edited in place
+  const saveGoals = useCallback(async (changes: GoalChange[]): Promise<boolean> => {
+    setIsUpdating(true);
+    const today = practiceDayKey(new Date(), dayBoundary);
+    const yesterday = format(subDays(keyToDate(today), 1), 'yyyy-MM-dd');
+    try {
+      for (const change of changes) {
+        const active = goals.find(g =>
+          g.period === change.period && g.weekday === change.weekday && g.ends_on === null
+        );
+        if ((active?.target_minutes ?? null) === change.minutes) continue;
+
+        if (active && active.starts_on >= today) {
+          const { error } = change.minutes === null
+            ? await supabase.from('practice_goals').delete().eq('id', active.id)
+            : await supabase.from('practice_goals').update({ target_minutes: change.minutes }).eq('id', active.id);
+          if (error) throw error;
+          continue;
+        }
+
+        if (active) {
+          const { error } = await supabase.from('practice_goals').update({ ends_on: yesterday }).eq('id', active.id);
+          if (error) throw error;
+        }
+        if (change.minutes !== null) {
+          const { error } = await supabase.from('practice_goals').insert({
+            period: change.period,
+            weekday: change.weekday,
+            target_minutes: change.minutes,
+            starts_on: today,
+          });
+          if (error) throw error;
+        }
+      }
+
+      window.dispatchEvent(new CustomEvent(GOALS_REFRESH_EVENT));
+      toast({
+        title: 'Goals saved',
+        duration: 2000,
+      });
+      return true;
+    } catch (error) {
+      console.error('[Goals] Error saving:', error);
+      toast({
+        title: 'Error saving goals',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      // Part of the changes may have been written
+      await fetchGoals();
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [goals, dayBoundary, fetchGoals, toast]);
+
+  return { goals, isLoading, isUpdating, refetch: fetchGoals, saveGoals };
+}
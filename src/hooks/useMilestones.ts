@@ -1,14 +1,18 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { softDeleteRows } from '@/hooks/useTrash';
+import { useUndoDelete } from '@/hooks/useUndoDelete';
+import { REPERTOIRE_REFRESH_EVENT } from '@/hooks/useRepertoire';
 
-const REPERTOIRE_DIVIDER_REFRESH_EVENT = 'repertoire:refresh';
+export const MILESTONES_REFRESH_EVENT = 'milestones:refresh';
 
 async function createRepertoireDividersForMilestones(hoursList: number[]) {
   if (hoursList.length === 0) return;
 
   try {
     const labels = hoursList.map(h => `${h}h`);
+    // Trashed dividers count as existing so a deleted divider is not recreated
     const { data: existing, error: existingError } = await supabase
       .from('repertoire_items')
       .select('divider_label')
@@ -48,7 +52,7 @@ async function createRepertoireDividersForMilestones(hoursList: number[]) {
       nextSortOrder += 1;
     }
 
-    window.dispatchEvent(new CustomEvent(REPERTOIRE_DIVIDER_REFRESH_EVENT));
+    window.dispatchEvent(new CustomEvent(REPERTOIRE_REFRESH_EVENT));
   } catch (error) {
     console.error('[Milestones] Error syncing repertoire dividers:', error);
   }
@@ -75,12 +79,14 @@ export function useMilestones() {
   const [milestones, setMilestones] = useState<Milestone[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
+  const showUndo = useUndoDelete();
 
   const fetchMilestones = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('milestones')
         .select('*')
+        .is('deleted_at', null)
         .order('hours', { ascending: false });
 
       if (error) throw error;
@@ -110,7 +116,8 @@ export function useMilestones() {
     if (totalHours < 100) return;
 
     try {
-      // Get all existing milestone hours
+      // Get all existing milestone hours, including trashed ones: hours is unique and
+      // a milestone the user deleted should not come back on the next check
       const { data: existingMilestones, error: fetchError } = await supabase
         .from('milestones')
         .select('hours');
@@ -178,6 +185,12 @@ export function useMilestones() {
     fetchMilestones();
   }, [fetchMilestones]);
 
+  useEffect(() => {
+    const handler = () => fetchMilestones();
+    window.addEventListener(MILESTONES_REFRESH_EVENT, handler);
+    return () => window.removeEventListener(MILESTONES_REFRESH_EVENT, handler);
+  }, [fetchMilestones]);
+
   const updateMilestoneDescription = useCallback(async (milestoneId: number, description: string) => {
     try {
       const { error } = await supabase
@@ -230,5 +243,22 @@ export function useMilestones() {
     }
   }, [fetchMilestones, toast]);
 
-  return { milestones, isLoading, refetch: fetchMilestones, checkAndCreateMilestones, updateMilestoneDescription, createMilestone };
+  // Moves the milestone to the trash; undo restores it via MILESTONES_REFRESH_EVENT
+  const deleteMilestone = useCallback(async (milestoneId: number) => {
+    try {
+      const milestone = milestones.find(m => m.id === milestoneId);
+      await softDeleteRows('milestones', [milestoneId]);
+      setMilestones(prev => prev.filter(m => m.id !== milestoneId));
+      showUndo('milestones', [milestoneId], milestone ? `${milestone.hours}h milestone deleted` : 'Milestone deleted');
+    } catch (error) {
+      console.error('[Milestones] Error deleting milestone:', error);
+      toast({
+        title: 'Error deleting milestone',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  }, [milestones, toast, showUndo]);
+
+  return { milestones, isLoading, refetch: fetchMilestones, checkAndCreateMilestones, updateMilestoneDescription, createMilestone, deleteMilestone };
 }
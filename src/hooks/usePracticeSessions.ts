@@ -0,0 +1,295 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { softDeleteRows } from '@/hooks/useTrash';
+import { useUndoDelete } from '@/hooks/useUndoDelete';
+import { computeDailyAnalytics } from '@/lib/analyticsWorker';
+import { DayTotal } from '@/lib/dailyStore';
+import { DayBoundary, practiceDayKey } from '@/lib/dayBoundary';
+import { AnalyticsResult } from '@/lib/practiceAnalytics';
+
+// Dispatched after any session write so mounted analytics views can refetch
+export const SESSIONS_REFRESH_EVENT = 'sessions:refresh';
+
+export interface PracticeSessionRow {
+  id: number;
+  started_at: string;
+  duration_seconds: number;
+  source: string;
+  // Calendar the session was synced from (google_calendar sessions only)
+  sync_source_id: number | null;
+  created_at: string;
+}
+
+// The columns the intraday analytics need
+export type SessionRow = Pick<PracticeSessionRow, 'id' | 'started_at' | 'duration_seconds'>;
+
+export interface SessionInput {
+  startedAt: string; // ISO timestamp
+  durationSeconds: number;
+}
+
+export const MANUAL_SESSION_SOURCE = 'manual';
+
+export const SOURCE_LABELS: Record<string, string> = {
+  google_calendar: 'Calendar',
+  csv_import: 'CSV',
+  in_app_timer: 'Timer',
+  manual: 'Manual',
+};
+
+export function notifySessionsChanged() {
+  window.dispatchEvent(new CustomEvent(SESSIONS_REFRESH_EVENT));
+}
+
+/**
+ * Live sessions that started in [from, to), with only the columns the analytics need
+ */
+export async function fetchSessionRowsBetween(from: Date, to: Date): Promise<SessionRow[]> {
+  const { data, error } = await supabase
+    .from('practice_sessions')
+    .select('id, started_at, duration_seconds')
+    .is('deleted_at', null)
+    .gte('started_at', from.toISOString())
+    .lt('started_at', to.toISOString())
+    .order('started_at', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+function dayBoundaryArgs(dayBoundary: DayBoundary) {
+  return {
+    time_zone: dayBoundary.timeZone,
+    day_start_hour: dayBoundary.dayStartHour,
+    split_sessions: dayBoundary.splitSessions,
+  };
+}
+
+// Per-day totals from the server-side aggregates (paginated to avoid the 1000 row limit)
+async function fetchDailyTotals(dayBoundary: DayBoundary): Promise<DayTotal[]> {
+  const totals: DayTotal[] = [];
+  const pageSize = 1000;
+  let from = 0;
+  let page: { day: string; seconds: number }[] | null;
+
+  do {
+    const { data, error } = await supabase
+      .rpc('practice_daily_totals', dayBoundaryArgs(dayBoundary))
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+    page = data;
+    for (const row of page ?? []) {
+      totals.push({ dayKey: row.day, hours: row.seconds / 3600 });
+    }
+    from += pageSize;
+  } while (page && page.length === pageSize);
+
+  return totals;
+}
+
+// Analytics from the last load, reused while the summary shows nothing changed
+let lastLoad: { key: string; analytics: AnalyticsResult | null } | null = null;
+
+/**
+ * Daily analytics built from the server-side daily totals rather than every session.
+ * The totals are only downloaded again when the practice summary changed since the last load
+ */
+export async function loadDailyAnalytics(dayBoundary: DayBoundary): Promise<AnalyticsResult | null> {
+  const { data, error } = await supabase.rpc('practice_summary', dayBoundaryArgs(dayBoundary));
+  if (error) throw error;
+
+  const summary = data?.[0];
+  if (!summary || summary.session_count === 0) {
+    lastLoad = null;
+    return null;
+  }
+
+  // The timeline also has to be extended when a new practice day starts
+  const key = JSON.stringify([dayBoundary, summary, practiceDayKey(new Date(), dayBoundary)]);
+  if (lastLoad?.key === key) return lastLoad.analytics;
+
+  const analytics = await computeDailyAnalytics(await fetchDailyTotals(dayBoundary), dayBoundary);
+  lastLoad = { key, analytics };
+  return analytics;
+}
+
+/**
+ * loadDailyAnalytics for a page, loaded again whenever sessions change
+ */
+export function useDailyAnalytics(dayBoundary: DayBoundary) {
+  const [analytics, setAnalytics] = useState<AnalyticsResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setAnalytics(await loadDailyAnalytics(dayBoundary));
+    } catch (error) {
+      console.error('[Sessions] Error loading daily totals:', error);
+      toast({
+        title: 'Error loading data',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dayBoundary, toast]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  useEffect(() => {
+    const handler = () => fetchAnalytics();
+    window.addEventListener(SESSIONS_REFRESH_EVENT, handler);
+    return () => window.removeEventListener(SESSIONS_REFRESH_EVENT, handler);
+  }, [fetchAnalytics]);
+
+  return { analytics, isLoading };
+}
+
+export function usePracticeSessions() {
+  const [sessions, setSessions] = useState<PracticeSessionRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const { toast } = useToast();
+  const showUndo = useUndoDelete();
+
+  // Fetch all sessions (paginated to avoid the 1000 row limit)
+  const fetchSessions = useCallback(async () => {
+    try {
+      const allData: PracticeSessionRow[] = [];
+      let from = 0;
+      const pageSize = 1000;
+      let data;
+
+      do {
+        const { data: pageData, error } = await supabase
+          .from('practice_sessions')
+          .select('*')
+          .is('deleted_at', null)
+          .order('started_at', { ascending: true })
+          .range(from, from + pageSize - 1);
+
+        if (error) throw error;
+        data = pageData;
+        if (data && data.length > 0) {
+          allData.push(...data);
+        }
+        from += pageSize;
+      } while (data && data.length === pageSize);
+
+      setSessions(allData);
+    } catch (error) {
+      console.error('[Sessions] Error fetching:', error);
+      toast({
+        title: 'Error loading sessions',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  const addSession = useCallback(async (input: SessionInput) => {
+    setIsUpdating(true);
+    try {
+      const { data, error } = await supabase
+        .from('practice_sessions')
+        .insert({
+          started_at: input.startedAt,
+          duration_seconds: input.durationSeconds,
+          source: MANUAL_SESSION_SOURCE,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setSessions(prev => [...prev, data].sort(
+        (a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime()
+      ));
+      notifySessionsChanged();
+    } catch (error) {
+      console.error('[Sessions] Error adding session:', error);
+      toast({
+        title: 'Error adding session',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      throw error;
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [toast]);
+
+  const updateSession = useCallback(async (id: number, input: SessionInput) => {
+    setIsUpdating(true);
+    try {
+      const { error } = await supabase
+        .from('practice_sessions')
+        .update({
+          started_at: input.startedAt,
+          duration_seconds: input.durationSeconds,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setSessions(prev => prev
+        .map(s => s.id === id ? { ...s, started_at: input.startedAt, duration_seconds: input.durationSeconds } : s)
+        .sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime())
+      );
+      notifySessionsChanged();
+    } catch (error) {
+      console.error('[Sessions] Error updating session:', error);
+      toast({
+        title: 'Error updating session',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      throw error;
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [toast]);
+
+  // Moves the session to the trash; the toast offers an undo
+  const deleteSession = useCallback(async (id: number) => {
+    setIsUpdating(true);
+    try {
+      await softDeleteRows('practice_sessions', [id]);
+
+      setSessions(prev => prev.filter(s => s.id !== id));
+      notifySessionsChanged();
+      showUndo('practice_sessions', [id], 'Session deleted', fetchSessions);
+    } catch (error) {
+      console.error('[Sessions] Error deleting session:', error);
+      toast({
+        title: 'Error deleting session',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [toast, showUndo, fetchSessions]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  return {
+    sessions,
+    isLoading,
+    isUpdating,
+    addSession,
+    updateSession,
+    deleteSession,
+    refetch: fetchSessions,
+  };
+}
@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export const IN_APP_TIMER_SOURCE = 'in_app_timer';
+
+const STORAGE_KEY = 'practiceTimer:session';
+
+// Shorter recordings are treated as accidental taps and not saved
+const MIN_SESSION_SECONDS = 60;
+
+interface StoredTimerSession {
+  startedAt: string; // ISO timestamp of the first start
+  accumulatedSeconds: number; // Time played before the current run segment
+  resumedAt: string | null; // ISO timestamp of the current run segment, null while paused
+}
+
+export type TimerStatus = 'idle' | 'running' | 'paused';
+
+export interface StopResult {
+  saved: boolean;
+  durationSeconds: number;
+  reason?: 'too_short' | 'duplicate' | 'error';
+}
+
+function readStoredSession(): StoredTimerSession | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as StoredTimerSession;
+    if (!parsed.startedAt || typeof parsed.accumulatedSeconds !== 'number') return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredSession(session: StoredTimerSession | null) {
+  if (session) {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+function computeElapsedSeconds(session: StoredTimerSession | null, now = Date.now()): number {
+  if (!session) return 0;
+  const running = session.resumedAt
+    ? Math.max(0, (now - new Date(session.resumedAt).getTime()) / 1000)
+    : 0;
+  return Math.floor(session.accumulatedSeconds + running);
+}
+
+/**
+ * Records a practice session in the browser and writes it to practice_sessions on stop.
+ * The running session is kept in localStorage so it survives a page reload.
+ */
+export function usePracticeTimer() {
+  const [session, setSession] = useState<StoredTimerSession | null>(() => readStoredSession());
+  const [elapsedSeconds, setElapsedSeconds] = useState(() => computeElapsedSeconds(readStoredSession()));
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const status: TimerStatus = !session ? 'idle' : session.resumedAt ? 'running' : 'paused';
+
+  const updateSession = useCallback((next: StoredTimerSession | null) => {
+    writeStoredSession(next);
+    setSession(next);
+    setElapsedSeconds(computeElapsedSeconds(next));
+  }, []);
+
+  // Tick once per second while running
+  useEffect(() => {
+    if (!session?.resumedAt) return;
+
+    const interval = setInterval(() => {
+      setElapsedSeconds(computeElapsedSeconds(session));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [session]);
+
+  const start = useCallback(() => {
+    const now = new Date().toISOString();
+    updateSession({ startedAt: now, accumulatedSeconds: 0, resumedAt: now });
+  }, [updateSession]);
+
+  const pause = useCallback(() => {
+    if (!session?.resumedAt) return;
+    updateSession({
+      ...session,
+      accumulatedSeconds: computeElapsedSeconds(session),
+      resumedAt: null,
+    });
+  }, [session, updateSession]);
+
+  const resume = useCallback(() => {
+    if (!session || session.resumedAt) return;
+    updateSession({ ...session, resumedAt: new Date().toISOString() });
+  }, [session, updateSession]);
+
+  const discard = useCallback(() => {
+    updateSession(null);
+  }, [updateSession]);
+
+  // Stop the timer and insert the recorded session
+  const stop = useCallback(async (): Promise<StopResult> => {
+    if (!session) return { saved: false, durationSeconds: 0 };
+
+    const durationSeconds = computeElapsedSeconds(session);
+    const startedAt = session.startedAt;
+
+    if (durationSeconds < MIN_SESSION_SECONDS) {
+      updateSession(null);
+      return { saved: false, durationSeconds, reason: 'too_short' };
+    }
+
+    setIsSaving(true);
+    try {
+      // Skip the insert if the calendar already imported a session covering this block
+      const endedAt = new Date().toISOString();
+      const windowStart = new Date(new Date(startedAt).getTime() - 24 * 3600 * 1000).toISOString();
+      const { data: nearby, error: nearbyError } = await supabase
+        .from('practice_sessions')
+        .select('started_at, duration_seconds')
+        .is('deleted_at', null)
+        .gte('started_at', windowStart)
+        .lte('started_at', endedAt);
+
+      if (nearbyError) throw nearbyError;
+
+      const startMs = new Date(startedAt).getTime();
+      const endMs = new Date(endedAt).getTime();
+      const hasOverlap = (nearby || []).some(s => {
+        const sStart = new Date(s.started_at).getTime();
+        const sEnd = sStart + s.duration_seconds * 1000;
+        return sStart < endMs && sEnd > startMs;
+      });
+
+      if (hasOverlap) {
+        updateSession(null);
+        return { saved: false, durationSeconds, reason: 'duplicate' };
+      }
+
+      const { error } = await supabase
+        .from('practice_sessions')
+        .insert({
+          started_at: startedAt,
+          duration_seconds: durationSeconds,
+          source: IN_APP_TIMER_SOURCE,
+        });
+
+      if (error) throw error;
+
+      updateSession(null);
+      return { saved: true, durationSeconds };
+    } catch (error) {
+      console.error('[PracticeTimer] Error saving session:', error);
+      toast({
+        title: 'Error saving session',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      // Keep the session (paused) so it can be retried
+      updateSession({ ...session, accumulatedSeconds: durationSeconds, resumedAt: null });
+      return { saved: false, durationSeconds, reason: 'error' };
+    } finally {
+      setIsSaving(false);
+    }
+  }, [session, updateSession, toast]);
+
+  return {
+    status,
+    isActive: status !== 'idle',
+    isRunning: status === 'running',
+    isPaused: status === 'paused',
+    isSaving,
+    elapsedSeconds,
+    startedAt: session ? new Date(session.startedAt) : null,
+    start,
+    pause,
+    resume,
+    stop,
+    discard,
+  };
+}
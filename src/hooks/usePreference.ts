@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+
+// Dispatched when a preference changes so other mounted components pick it up
+const PREFERENCE_CHANGE_EVENT = 'preferences:change';
+
+function readPreference<T>(key: string, defaultValue: T): T {
+  if (typeof window === 'undefined') return defaultValue;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? defaultValue : (JSON.parse(raw) as T);
+  } catch {
+    return defaultValue;
+  }
+}
+
+/**
+ * A per-browser setting kept in localStorage, shared by every component using the same key
+ */
+export function usePreference<T>(key: string, defaultValue: T): [T, (value: T) => void] {
+  const [value, setValue] = useState<T>(() => readPreference(key, defaultValue));
+
+  useEffect(() => {
+    const handler = (event: Event) => {
+      if ((event as CustomEvent<string>).detail === key) {
+        setValue(readPreference(key, defaultValue));
+      }
+    };
+    window.addEventListener(PREFERENCE_CHANGE_EVENT, handler);
+    return () => window.removeEventListener(PREFERENCE_CHANGE_EVENT, handler);
+  }, [key, defaultValue]);
+
+  const updateValue = useCallback((next: T) => {
+    window.localStorage.setItem(key, JSON.stringify(next));
+    setValue(next);
+    window.dispatchEvent(new CustomEvent(PREFERENCE_CHANGE_EVENT, { detail: key }));
+  }, [key]);
+
+  return [value, updateValue];
+}
+
+// localStorage keys of the app's preferences
+export const PREFERENCE_KEYS = {
+  streakMinimumMinutes: 'stats:streakMinimumMinutes',
+  heatmapBuckets: 'stats:heatmapBuckets',
+  forecastModel: 'timeline:forecastModel',
+  simulatorScenarios: 'simulator:scenarios',
+  dayBoundary: 'analytics:dayBoundary',
+} as const;
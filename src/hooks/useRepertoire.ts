@@ -1,6 +1,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { softDeleteRows } from '@/hooks/useTrash';
+import { useUndoDelete } from '@/hooks/useUndoDelete';
+
+export const REPERTOIRE_REFRESH_EVENT = 'repertoire:refresh';
 
 export interface RepertoireItem {
   id: number;
@@ -17,12 +21,14 @@ export function useRepertoire() {
   const [isLoading, setIsLoading] = useState(true);
   const [isUpdating, setIsUpdating] = useState(false);
   const { toast } = useToast();
+  const showUndo = useUndoDelete();
 
   const fetchItems = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('repertoire_items')
         .select('*')
+        .is('deleted_at', null)
         .order('sort_order', { ascending: false });
       if (error) throw error;
       
@@ -104,16 +110,18 @@ export function useRepertoire() {
     }
   }, [toast]);
 
+  // Moves the item to the trash; undo restores it via REPERTOIRE_REFRESH_EVENT
   const deleteItem = useCallback(async (id: number) => {
     try {
-      const { error } = await supabase
-        .from('repertoire_items')
-        .delete()
-        .eq('id', id);
+      const item = items.find(i => i.id === id);
+      await softDeleteRows('repertoire_items', [id]);
 
-      if (error) throw error;
-      
       setItems(prev => prev.filter(item => item.id !== id));
+      showUndo(
+        'repertoire_items',
+        [id],
+        item?.type === 'divider' ? 'Divider deleted' : `"${item?.title ?? 'Item'}" deleted`
+      );
     } catch (error) {
       console.error('[Repertoire] Error deleting item:', error);
       toast({
@@ -121,7 +129,7 @@ export function useRepertoire() {
         variant: 'destructive',
       });
     }
-  }, [toast]);
+  }, [items, toast, showUndo]);
 
   const addItem = useCallback(async (
     type: 'piece' | 'divider',
@@ -243,8 +251,8 @@ export function useRepertoire() {
 
   useEffect(() => {
     const handler = () => fetchItems();
-    window.addEventListener('repertoire:refresh', handler);
-    return () => window.removeEventListener('repertoire:refresh', handler);
+    window.addEventListener(REPERTOIRE_REFRESH_EVENT, handler);
+    return () => window.removeEventListener(REPERTOIRE_REFRESH_EVENT, handler);
   }, [fetchItems]);
 
   return {
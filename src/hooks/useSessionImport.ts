@@ -0,0 +1,176 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { notifySessionsChanged } from '@/hooks/usePracticeSessions';
+import { parseImportFile, ImporterId, ImportRowError, ImportSettings } from '@/lib/importers';
+import { planImport, ImportPlan } from '@/lib/sessionImport';
+
+export const CSV_IMPORT_SOURCE = 'csv_import';
+
+const INSERT_BATCH_SIZE = 100;
+
+async function fetchExistingSessions() {
+  const allData: { started_at: string; duration_seconds: number }[] = [];
+  let from = 0;
+  const pageSize = 1000;
+  let data;
+
+  do {
+    const { data: pageData, error } = await supabase
+      .from('practice_sessions')
+      .select('started_at, duration_seconds')
+      .is('deleted_at', null)
+      .order('started_at', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+    data = pageData;
+    if (data && data.length > 0) {
+      allData.push(...data);
+    }
+    from += pageSize;
+  } while (data && data.length === pageSize);
+
+  return allData;
+}
+
+export interface DetectedFormat {
+  formatId: ImporterId | null;
+  kind: 'csv' | 'json';
+  headers: string[];
+  settings: ImportSettings | null;
+}
+
+export function useSessionImport() {
+  const [content, setContent] = useState<string | null>(null);
+  const [detected, setDetected] = useState<DetectedFormat | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [parseErrors, setParseErrors] = useState<ImportRowError[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  const { toast } = useToast();
+  const [dayBoundary] = useDayBoundary();
+
+  // Parse the file and compare it with stored sessions without writing anything (dry run).
+  // Without an override the format is auto-detected from the headers.
+  const analyze = useCallback(async (
+    fileContent: string,
+    override?: { formatId: ImporterId; settings: ImportSettings }
+  ) => {
+    setIsAnalyzing(true);
+    setContent(fileContent);
+    setPlan(null);
+    setParseErrors([]);
+    try {
+      const result = parseImportFile(fileContent, override, dayBoundary.timeZone);
+      setDetected({
+        formatId: result.formatId,
+        kind: result.kind,
+        headers: result.headers,
+        settings: result.settings,
+      });
+      setParseErrors(result.errors);
+
+      // Detection failed - wait for a manual column mapping
+      if (!result.settings) return;
+
+      if (result.sessions.length === 0) {
+        throw new Error('No valid practice sessions found in the file');
+      }
+
+      const existing = await fetchExistingSessions();
+      setPlan(planImport(result.sessions, existing));
+    } catch (error) {
+      console.error('[Import] Error analyzing file:', error);
+      toast({
+        title: 'Error parsing file',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  }, [toast, dayBoundary.timeZone]);
+
+  // Re-run the dry run with a hand-picked format or column mapping
+  const applySettings = useCallback(async (formatId: ImporterId, settings: ImportSettings) => {
+    if (!content) return;
+    await analyze(content, { formatId, settings });
+  }, [analyze, content]);
+
+  // Write the planned rows in batches
+  const commit = useCallback(async (includeOverlaps = false): Promise<number> => {
+    if (!plan) return 0;
+
+    const rows = plan.rows
+      .filter(r => r.status === 'new' || (includeOverlaps && r.status === 'overlap'))
+      .map(r => ({
+        started_at: r.startedAt.toISOString(),
+        duration_seconds: r.durationSeconds,
+        source: CSV_IMPORT_SOURCE,
+      }));
+
+    if (rows.length === 0) return 0;
+
+    setIsImporting(true);
+    setImportedCount(0);
+    let inserted = 0;
+    try {
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+        const { error } = await supabase
+          .from('practice_sessions')
+          .insert(batch);
+
+        if (error) throw error;
+
+        inserted += batch.length;
+        setImportedCount(inserted);
+      }
+
+      toast({
+        title: 'Import complete',
+        description: `Added ${inserted} practice session${inserted !== 1 ? 's' : ''}`,
+      });
+      setPlan(null);
+      setParseErrors([]);
+      setContent(null);
+      setDetected(null);
+      return inserted;
+    } catch (error) {
+      console.error('[Import] Error inserting sessions:', error);
+      toast({
+        title: 'Import failed',
+        description: `${inserted} of ${rows.length} sessions were written. ${error instanceof Error ? error.message : ''}`.trim(),
+        variant: 'destructive',
+      });
+      return inserted;
+    } finally {
+      if (inserted > 0) notifySessionsChanged();
+      setIsImporting(false);
+    }
+  }, [plan, toast]);
+
+  const reset = useCallback(() => {
+    setContent(null);
+    setDetected(null);
+    setPlan(null);
+    setParseErrors([]);
+    setImportedCount(0);
+  }, []);
+
+  return {
+    detected,
+    plan,
+    parseErrors,
+    isAnalyzing,
+    isImporting,
+    importedCount,
+    analyze,
+    applySettings,
+    commit,
+    reset,
+  };
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+// Dispatched by useCalendarSync after every sync attempt
+export const SYNC_RUNS_REFRESH_EVENT = 'sync-runs:refresh';
+
+export type SkipReason = 'all_day' | 'title' | 'too_short' | 'duplicate' | 'timer_overlap';
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  all_day: 'all-day',
+  title: 'title filter',
+  too_short: 'too short',
+  duplicate: 'already stored',
+  timer_overlap: 'overlaps timer session',
+};
+
+export interface SyncRun {
+  id: number;
+  sync_source_id: number | null;
+  source_name: string;
+  started_at: string;
+  finished_at: string | null;
+  status: 'running' | 'success' | 'error';
+  full_sync: boolean;
+  events_fetched: number;
+  inserted: number;
+  updated: number;
+  removed: number;
+  skipped: number;
+  skip_reasons: Partial<Record<SkipReason, number>>;
+  error: string | null;
+}
+
+export function notifySyncRunsChanged() {
+  window.dispatchEvent(new CustomEvent(SYNC_RUNS_REFRESH_EVENT));
+}
+
+export function useSyncRuns(limit = 50) {
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sync_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+
+      // Type assertion since DB returns text/jsonb, but we know the constraints
+      setRuns((data || []).map(run => ({
+        ...run,
+        status: run.status as SyncRun['status'],
+        skip_reasons: (run.skip_reasons ?? {}) as SyncRun['skip_reasons'],
+      })));
+    } catch (error) {
+      console.error('[SyncRuns] Error fetching:', error);
+      toast({
+        title: 'Error loading sync history',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [limit, toast]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  useEffect(() => {
+    const handler = () => fetchRuns();
+    window.addEventListener(SYNC_RUNS_REFRESH_EVENT, handler);
+    return () => window.removeEventListener(SYNC_RUNS_REFRESH_EVENT, handler);
+  }, [fetchRuns]);
+
+  return { runs, isLoading, refetch: fetchRuns };
+}
@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export type SyncFilterMode = 'keyword' | 'regex';
+
+export interface SyncSource {
+  id: number;
+  name: string;
+  calendar_id: string;
+  title_filter: string | null;
+  filter_mode: SyncFilterMode;
+  min_duration_minutes: number;
+  enabled: boolean;
+  // Generated by the database; see verificationMarker
+  verification_code: string;
+}
+
+export type SyncSourceInput = Omit<SyncSource, 'id' | 'verification_code'>;
+
+// Text the calendar's description has to contain before sync-calendar imports from it,
+// proving the user can edit that calendar (mirrored in the edge function)
+export function verificationMarker(code: string): string {
+  return `musical-metrics-verify:${code}`;
+}
+
+// Changing any of these invalidates the stored sync token: the next sync re-reads the
+// whole calendar and trashes sessions whose events no longer pass the filters
+const RESYNC_FIELDS: (keyof SyncSourceInput)[] = ['calendar_id', 'title_filter', 'filter_mode', 'min_duration_minutes'];
+
+// Mirrors the edge function: an invalid pattern would make every sync of that source fail
+export function validateTitleFilter(filter: string | null, mode: SyncFilterMode): string | null {
+  if (!filter || mode !== 'regex') return null;
+  try {
+    new RegExp(filter, 'i');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+export function useSyncSources() {
+  const [sources, setSources] = useState<SyncSource[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSources = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sync_sources')
+        .select('id, name, calendar_id, title_filter, filter_mode, min_duration_minutes, enabled, verification_code')
+        .order('id', { ascending: true });
+      if (error) throw error;
+
+      setSources((data || []).map(source => ({
+        ...source,
+        filter_mode: source.filter_mode === 'regex' ? 'regex' : 'keyword',
+      })));
+    } catch (error) {
+      console.error('[SyncSources] Error fetching:', error);
+      toast({
+        title: 'Error loading calendars',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSources();
+  }, [fetchSources]);
+
+  const addSource = useCallback(async (input: SyncSourceInput): Promise<boolean> => {
+    setIsUpdating(true);
+    try {
+      const { error } = await supabase.from('sync_sources').insert(input);
+      if (error) throw error;
+      await fetchSources();
+      toast({
+        title: 'Calendar added',
+        duration: 2000,
+      });
+      return true;
+    } catch (error) {
+      console.error('[SyncSources] Error adding:', error);
+      toast({
+        title: 'Error adding calendar',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [fetchSources, toast]);
+
+  const updateSource = useCallback(async (id: number, changes: Partial<SyncSourceInput>): Promise<boolean> => {
+    setIsUpdating(true);
+    try {
+      const current = sources.find(source => source.id === id);
+      const needsResync = RESYNC_FIELDS.some(field => field in changes && changes[field] !== current?.[field]);
+      const { error } = await supabase
+        .from('sync_sources')
+        .update(needsResync ? { ...changes, sync_token: null } : changes)
+        .eq('id', id);
+      if (error) throw error;
+
+      // Optimistic update
+      setSources(prev => prev.map(source => (source.id === id ? { ...source, ...changes } : source)));
+      return true;
+    } catch (error) {
+      console.error('[SyncSources] Error updating:', error);
+      toast({
+        title: 'Error saving calendar',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [sources, toast]);
+
+  // Sessions imported from the source are kept; their sync_source_id becomes NULL
+  const deleteSource = useCallback(async (id: number) => {
+    setIsUpdating(true);
+    try {
+      const { error } = await supabase.from('sync_sources').delete().eq('id', id);
+      if (error) throw error;
+      setSources(prev => prev.filter(source => source.id !== id));
+    } catch (error) {
+      console.error('[SyncSources] Error deleting:', error);
+      toast({
+        title: 'Error removing calendar',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [toast]);
+
+  return { sources, isLoading, isUpdating, refetch: fetchSources, addSource, updateSource, deleteSource };
+}
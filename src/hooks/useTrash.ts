@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { notifySessionsChanged } from '@/hooks/usePracticeSessions';
+import { MILESTONES_REFRESH_EVENT } from '@/hooks/useMilestones';
+import { REPERTOIRE_REFRESH_EVENT } from '@/hooks/useRepertoire';
+
+export type TrashTable = 'practice_sessions' | 'repertoire_items' | 'milestones';
+
+// Tell mounted views that rows of a table appeared or disappeared
+export function notifyTableChanged(table: TrashTable) {
+  if (table === 'practice_sessions') {
+    notifySessionsChanged();
+  } else if (table === 'milestones') {
+    window.dispatchEvent(new CustomEvent(MILESTONES_REFRESH_EVENT));
+  } else {
+    window.dispatchEvent(new CustomEvent(REPERTOIRE_REFRESH_EVENT));
+  }
+}
+
+// Ids per request; long id lists would overflow the query string
+const ID_BATCH_SIZE = 200;
+
+async function setDeletedAt(table: TrashTable, ids: number[], deletedAt: string | null) {
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const { error } = await supabase
+      .from(table)
+      .update({ deleted_at: deletedAt })
+      .in('id', ids.slice(i, i + ID_BATCH_SIZE));
+    if (error) throw error;
+  }
+}
+
+// Move rows to the trash. Callers update their own state and show the undo toast.
+export async function softDeleteRows(table: TrashTable, ids: number[]) {
+  await setDeletedAt(table, ids, new Date().toISOString());
+}
+
+export async function restoreRows(table: TrashTable, ids: number[]) {
+  await setDeletedAt(table, ids, null);
+  notifyTableChanged(table);
+}
+
+async function fetchTrashed(table: TrashTable) {
+  const allData: Record<string, unknown>[] = [];
+  let from = 0;
+  const pageSize = 1000;
+  let data;
+
+  do {
+    const { data: pageData, error } = await supabase
+      .from(table)
+      .select('*')
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+    data = pageData;
+    if (data && data.length > 0) {
+      allData.push(...data);
+    }
+    from += pageSize;
+  } while (data && data.length === pageSize);
+
+  return allData;
+}
+
+export function useTrash() {
+  const [rows, setRows] = useState<Record<TrashTable, Record<string, unknown>[]>>({
+    practice_sessions: [],
+    repertoire_items: [],
+    milestones: [],
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const { toast } = useToast();
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const [practice_sessions, repertoire_items, milestones] = await Promise.all([
+        fetchTrashed('practice_sessions'),
+        fetchTrashed('repertoire_items'),
+        fetchTrashed('milestones'),
+      ]);
+      setRows({ practice_sessions, repertoire_items, milestones });
+    } catch (error) {
+      console.error('[Trash] Error fetching:', error);
+      toast({
+        title: 'Error loading trash',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  const removeFromState = (table: TrashTable, ids: number[]) => {
+    const idSet = new Set(ids);
+    setRows(prev => ({ ...prev, [table]: prev[table].filter(r => !idSet.has(r.id as number)) }));
+  };
+
+  const restore = useCallback(async (table: TrashTable, ids: number[]) => {
+    setIsUpdating(true);
+    try {
+      await restoreRows(table, ids);
+      removeFromState(table, ids);
+    } catch (error) {
+      console.error('[Trash] Error restoring:', error);
+      toast({
+        title: 'Error restoring',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [toast]);
+
+  // Permanently delete rows that are already in the trash
+  const purge = useCallback(async (table: TrashTable, ids: number[]) => {
+    setIsUpdating(true);
+    try {
+      for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+        const { error } = await supabase
+          .from(table)
+          .delete()
+          .in('id', ids.slice(i, i + ID_BATCH_SIZE))
+          .not('deleted_at', 'is', null);
+        if (error) throw error;
+      }
+      removeFromState(table, ids);
+    } catch (error) {
+      console.error('[Trash] Error purging:', error);
+      toast({
+        title: 'Error deleting permanently',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [toast]);
+
+  const emptyTrash = useCallback(async () => {
+    setIsUpdating(true);
+    try {
+      for (const table of ['practice_sessions', 'repertoire_items', 'milestones'] as TrashTable[]) {
+        const { error } = await supabase
+          .from(table)
+          .delete()
+          .not('deleted_at', 'is', null);
+        if (error) throw error;
+      }
+      setRows({ practice_sessions: [], repertoire_items: [], milestones: [] });
+      toast({
+        title: 'Trash emptied',
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error('[Trash] Error emptying trash:', error);
+      toast({
+        title: 'Error emptying trash',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      fetchTrash();
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [toast, fetchTrash]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  return {
+    rows,
+    isLoading,
+    isUpdating,
+    restore,
+    purge,
+    emptyTrash,
+    refetch: fetchTrash,
+  };
+}
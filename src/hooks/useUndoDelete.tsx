@@ -0,0 +1,42 @@
+import { useCallback } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { restoreRows, TrashTable } from '@/hooks/useTrash';
+
+const UNDO_TOAST_DURATION = 6000;
+
+/**
+ * Returns a function that shows the "Moved to trash" toast with an Undo button
+ * for rows that were just soft-deleted.
+ */
+export function useUndoDelete() {
+  const { toast } = useToast();
+
+  return useCallback((table: TrashTable, ids: number[], title: string, onRestored?: () => void) => {
+    toast({
+      title,
+      description: 'Moved to trash',
+      duration: UNDO_TOAST_DURATION,
+      action: (
+        <ToastAction
+          altText="Undo delete"
+          onClick={async () => {
+            try {
+              await restoreRows(table, ids);
+              onRestored?.();
+            } catch (error) {
+              console.error('[Trash] Error undoing delete:', error);
+              toast({
+                title: 'Could not undo',
+                description: error instanceof Error ? error.message : 'Unknown error',
+                variant: 'destructive',
+              });
+            }
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  }, [toast]);
+}
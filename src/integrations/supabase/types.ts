@@ -19,52 +19,138 @@ export type Database = {
           achieved_at: string | null
           average_at_milestone: number | null
           created_at: string
+          deleted_at: string | null
           description: string | null
           hours: number
           id: number
           milestone_type: string
+          user_id: string | null
         }
         Insert: {
           achieved_at?: string | null
           average_at_milestone?: number | null
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           hours: number
           id?: number
           milestone_type?: string
+          user_id?: string | null
         }
         Update: {
           achieved_at?: string | null
           average_at_milestone?: number | null
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           hours?: number
           id?: number
           milestone_type?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      practice_goals: {
+        Row: {
+          created_at: string
+          ends_on: string | null
+          id: number
+          period: string
+          starts_on: string
+          target_minutes: number
+          user_id: string
+          weekday: number | null
+        }
+        Insert: {
+          created_at?: string
+          ends_on?: string | null
+          id?: number
+          period: string
+          starts_on?: string
+          target_minutes: number
+          user_id?: string
+          weekday?: number | null
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string | null
+          id?: number
+          period?: string
+          starts_on?: string
+          target_minutes?: number
+          user_id?: string
+          weekday?: number | null
         }
         Relationships: []
       }
       practice_sessions: {
         Row: {
+          calendar_event_id: string | null
           created_at: string
+          deleted_at: string | null
           duration_seconds: number
           id: number
           source: string
           started_at: string
+          sync_source_id: number | null
+          user_id: string | null
         }
         Insert: {
+          calendar_event_id?: string | null
           created_at?: string
+          deleted_at?: string | null
           duration_seconds: number
           id?: number
           source?: string
           started_at: string
+          sync_source_id?: number | null
+          user_id?: string | null
         }
         Update: {
+          calendar_event_id?: string | null
           created_at?: string
+          deleted_at?: string | null
           duration_seconds?: number
           id?: number
           source?: string
           started_at?: string
+          sync_source_id?: number | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "practice_sessions_sync_source_id_fkey"
+            columns: ["sync_source_id"]
+            isOneToOne: false
+            referencedRelation: "sync_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      practice_time_buckets: {
+        Row: {
+          bucket_start: string
+          played_seconds: number
+          session_count: number
+          started_seconds: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bucket_start: string
+          played_seconds?: number
+          session_count?: number
+          started_seconds?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bucket_start?: string
+          played_seconds?: number
+          session_count?: number
+          started_seconds?: number
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -72,6 +158,7 @@ export type Database = {
         Row: {
           composer: string | null
           created_at: string
+          deleted_at: string | null
           divider_label: string | null
           id: number
           sort_order: number
@@ -79,10 +166,12 @@ export type Database = {
           status: string | null
           title: string
           type: string
+          user_id: string | null
         }
         Insert: {
           composer?: string | null
           created_at?: string
+          deleted_at?: string | null
           divider_label?: string | null
           id?: number
           sort_order: number
@@ -90,10 +179,12 @@ export type Database = {
           status?: string | null
           title: string
           type?: string
+          user_id?: string | null
         }
         Update: {
           composer?: string | null
           created_at?: string
+          deleted_at?: string | null
           divider_label?: string | null
           id?: number
           sort_order?: number
@@ -101,6 +192,111 @@ export type Database = {
           status?: string | null
           title?: string
           type?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      sync_runs: {
+        Row: {
+          error: string | null
+          events_fetched: number
+          finished_at: string | null
+          full_sync: boolean
+          id: number
+          inserted: number
+          removed: number
+          skip_reasons: Json
+          skipped: number
+          source_name: string
+          started_at: string
+          status: string
+          sync_source_id: number | null
+          updated: number
+          user_id: string
+        }
+        Insert: {
+          error?: string | null
+          events_fetched?: number
+          finished_at?: string | null
+          full_sync?: boolean
+          id?: number
+          inserted?: number
+          removed?: number
+          skip_reasons?: Json
+          skipped?: number
+          source_name: string
+          started_at?: string
+          status?: string
+          sync_source_id?: number | null
+          updated?: number
+          user_id?: string
+        }
+        Update: {
+          error?: string | null
+          events_fetched?: number
+          finished_at?: string | null
+          full_sync?: boolean
+          id?: number
+          inserted?: number
+          removed?: number
+          skip_reasons?: Json
+          skipped?: number
+          source_name?: string
+          started_at?: string
+          status?: string
+          sync_source_id?: number | null
+          updated?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sync_runs_sync_source_id_fkey"
+            columns: ["sync_source_id"]
+            isOneToOne: false
+            referencedRelation: "sync_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sync_sources: {
+        Row: {
+          calendar_id: string
+          created_at: string
+          enabled: boolean
+          filter_mode: string
+          id: number
+          min_duration_minutes: number
+          name: string
+          sync_token: string | null
+          title_filter: string | null
+          user_id: string
+          verification_code: string
+        }
+        Insert: {
+          calendar_id: string
+          created_at?: string
+          enabled?: boolean
+          filter_mode?: string
+          id?: number
+          min_duration_minutes?: number
+          name: string
+          sync_token?: string | null
+          title_filter?: string | null
+          user_id?: string
+          verification_code?: string
+        }
+        Update: {
+          calendar_id?: string
+          created_at?: string
+          enabled?: boolean
+          filter_mode?: string
+          id?: number
+          min_duration_minutes?: number
+          name?: string
+          sync_token?: string | null
+          title_filter?: string | null
+          user_id?: string
+          verification_code?: string
         }
         Relationships: []
       }
@@ -109,7 +305,62 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_practice_time: {
+        Args: {
+          p_direction: number
+          p_duration_seconds: number
+          p_started_at: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      claim_unowned_rows: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      practice_daily_totals: {
+        Args: {
+          day_start_hour?: number
+          split_sessions?: boolean
+          time_zone: string
+        }
+        Returns: {
+          day: string
+          seconds: number
+          session_count: number
+        }[]
+      }
+      practice_day: {
+        Args: { day_start_hour: number; moment: string; time_zone: string }
+        Returns: string
+      }
+      practice_summary: {
+        Args: {
+          day_start_hour?: number
+          split_sessions?: boolean
+          time_zone: string
+        }
+        Returns: {
+          active_days: number
+          changed_at: string
+          first_day: string
+          last_day: string
+          session_count: number
+          total_seconds: number
+        }[]
+      }
+      quarter_hour: {
+        Args: { moment: string }
+        Returns: string
+      }
+      replace_practice_data: {
+        Args: {
+          p_milestones: Json
+          p_practice_sessions: Json
+          p_repertoire_items: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
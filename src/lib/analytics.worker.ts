@@ -0,0 +1,21 @@
+import { createDailyStore, syncDailyStore } from './dailyStore';
+import type { AnalyticsWorkerRequest, AnalyticsWorkerResponse } from './analyticsWorker';
+
+// Kept between requests so each sync only rebuilds the days after the first changed total
+let store = createDailyStore();
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<AnalyticsWorkerRequest>) => {
+  const { id, totals, dayBoundary } = event.data;
+  let response: AnalyticsWorkerResponse;
+  try {
+    const keepDays = syncDailyStore(store, totals, dayBoundary);
+    response = { id, keepDays, tail: store.dailyData.slice(keepDays) };
+  } catch (error) {
+    // Start over on the next request rather than build on a half-updated store
+    store = createDailyStore();
+    response = { id, error: error instanceof Error ? error.message : 'Analytics failed' };
+  }
+  ctx.postMessage(response);
+};
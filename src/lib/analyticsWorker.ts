@@ -0,0 +1,87 @@
+import { createDailyStore, DayTotal, storeAnalytics, syncDailyStore } from './dailyStore';
+import { DayBoundary, DEFAULT_DAY_BOUNDARY } from './dayBoundary';
+import { AnalyticsResult, DailyData } from './practiceAnalytics';
+
+export interface AnalyticsWorkerRequest {
+  id: number;
+  totals: DayTotal[];
+  dayBoundary: DayBoundary;
+}
+
+/**
+ * Only the days the sync rebuilt cross the thread boundary: the timeline keeps its first
+ * keepDays entries and continues with tail
+ */
+export interface AnalyticsWorkerResponse {
+  id: number;
+  keepDays?: number;
+  tail?: DailyData[];
+  // Set instead of keepDays and tail when the update failed
+  error?: string;
+}
+
+// One worker for the whole app, so its store survives remounts of the views using it
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (analytics: AnalyticsResult | null) => void; reject: (error: Error) => void }>();
+
+// Where workers aren't available (e.g. tests) the same store runs on the main thread
+const mainThreadStore = createDailyStore();
+
+// Copy of the worker store's timeline, patched with the tail of every response
+let mirroredDays: DailyData[] = [];
+
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('./analytics.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AnalyticsWorkerResponse>) => {
+      const { id, keepDays, tail, error } = event.data;
+      // Failed syncs reset the worker store, so the next response starts from an empty timeline
+      mirroredDays = error ? [] : mirroredDays.slice(0, keepDays).concat(tail);
+      const request = pending.get(id);
+      if (!request) return;
+      pending.delete(id);
+      if (error) {
+        request.reject(new Error(error));
+      } else {
+        request.resolve(storeAnalytics({ dailyData: mirroredDays }));
+      }
+    };
+    worker.onerror = (event) => {
+      console.error('[analyticsWorker] Worker failed:', event.message);
+      for (const request of pending.values()) {
+        request.reject(new Error(event.message || 'Analytics worker failed'));
+      }
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+      mirroredDays = [];
+    };
+  }
+  return worker;
+}
+
+/**
+ * Daily analytics for the complete list of daily totals, computed off the main thread.
+ * Consecutive calls update the previous timeline incrementally, so a few changed days don't
+ * rebuild the whole history. Resolves to null when there is no practice
+ */
+export function computeDailyAnalytics(
+  totals: DayTotal[],
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): Promise<AnalyticsResult | null> {
+  const analyticsWorker = getWorker();
+
+  if (!analyticsWorker) {
+    syncDailyStore(mainThreadStore, totals, dayBoundary);
+    return Promise.resolve(storeAnalytics(mainThreadStore));
+  }
+
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    const request: AnalyticsWorkerRequest = { id, totals, dayBoundary };
+    analyticsWorker.postMessage(request);
+  });
+}
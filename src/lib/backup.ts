@@ -0,0 +1,205 @@
+import { APP_VERSION } from './version';
+
+// Bump when the archive layout changes; restore refuses archives from newer versions
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export const BACKUP_TABLES = ['practice_sessions', 'milestones', 'repertoire_items'] as const;
+
+export type BackupTable = typeof BACKUP_TABLES[number];
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface SessionBackupRow {
+  started_at: string;
+  duration_seconds: number;
+  source: string;
+  created_at?: string;
+  // Google Calendar event of a synced session (v2)
+  calendar_event_id: string | null;
+  // Calendar of the sync source the session came from, in place of the source's id (v2)
+  sync_calendar_id: string | null;
+}
+
+export interface MilestoneBackupRow {
+  hours: number;
+  achieved_at: string | null;
+  average_at_milestone: number | null;
+  description: string | null;
+  milestone_type: string;
+  created_at?: string;
+}
+
+export interface RepertoireBackupRow {
+  type: string;
+  title: string;
+  composer: string | null;
+  status: string | null;
+  sort_order: number;
+  started_at: string | null;
+  divider_label: string | null;
+  created_at?: string;
+}
+
+export interface BackupArchive {
+  format: 'musical-metrics-backup';
+  schemaVersion: number;
+  appVersion: string;
+  exportedAt: string;
+  tables: {
+    practice_sessions: SessionBackupRow[];
+    milestones: MilestoneBackupRow[];
+    repertoire_items: RepertoireBackupRow[];
+  };
+}
+
+// Columns written per table, in CSV column order. Database ids are not exported:
+// rows get fresh ids on restore. A session's sync source is exported as its calendar id
+// (sync_calendar_id) and matched to the restoring account's source for that calendar.
+// Rows in the trash (deleted_at set) are left out of backups.
+export const BACKUP_COLUMNS: Record<BackupTable, string[]> = {
+  practice_sessions: ['started_at', 'duration_seconds', 'source', 'created_at', 'calendar_event_id', 'sync_calendar_id'],
+  milestones: ['hours', 'achieved_at', 'average_at_milestone', 'description', 'milestone_type', 'created_at'],
+  repertoire_items: ['type', 'title', 'composer', 'status', 'sort_order', 'started_at', 'divider_label', 'created_at'],
+};
+
+const pick = <T>(row: Record<string, unknown>, columns: string[]) =>
+  Object.fromEntries(columns.map(c => [c, row[c] ?? null])) as T;
+
+export function buildArchive(tables: Record<BackupTable, Record<string, unknown>[]>): BackupArchive {
+  return {
+    format: 'musical-metrics-backup',
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    appVersion: APP_VERSION,
+    exportedAt: new Date().toISOString(),
+    tables: {
+      practice_sessions: tables.practice_sessions.map(r => pick<SessionBackupRow>(r, BACKUP_COLUMNS.practice_sessions)),
+      milestones: tables.milestones.map(r => pick<MilestoneBackupRow>(r, BACKUP_COLUMNS.milestones)),
+      repertoire_items: tables.repertoire_items.map(r => pick<RepertoireBackupRow>(r, BACKUP_COLUMNS.repertoire_items)),
+    },
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function checkRows(table: BackupTable, rows: unknown, required: Record<string, 'string' | 'number'>) {
+  if (!Array.isArray(rows)) {
+    throw new Error(`Backup is missing the ${table} table`);
+  }
+  rows.forEach((row, i) => {
+    if (!isObject(row)) {
+      throw new Error(`${table} row ${i + 1} is not an object`);
+    }
+    for (const [column, type] of Object.entries(required)) {
+      if (typeof row[column] !== type) {
+        throw new Error(`${table} row ${i + 1}: "${column}" must be a ${type}`);
+      }
+    }
+  });
+}
+
+/**
+ * Validate parsed JSON as a backup archive. Throws with a readable message when it is not one.
+ */
+export function validateArchive(data: unknown): BackupArchive {
+  if (!isObject(data) || data.format !== 'musical-metrics-backup') {
+    throw new Error('This file is not a Musical Metrics backup');
+  }
+  if (typeof data.schemaVersion !== 'number') {
+    throw new Error('Backup has no schema version');
+  }
+  if (data.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`Backup schema v${data.schemaVersion} is newer than this app supports (v${BACKUP_SCHEMA_VERSION})`);
+  }
+  if (!isObject(data.tables)) {
+    throw new Error('Backup has no tables');
+  }
+
+  const tables = data.tables;
+  checkRows('practice_sessions', tables.practice_sessions, { started_at: 'string', duration_seconds: 'number' });
+  checkRows('milestones', tables.milestones, { hours: 'number', milestone_type: 'string' });
+  checkRows('repertoire_items', tables.repertoire_items, { type: 'string', title: 'string', sort_order: 'number' });
+
+  return upgradeArchive(data as unknown as BackupArchive);
+}
+
+// Bring an older archive to the current layout, one version at a time
+function upgradeArchive(archive: BackupArchive): BackupArchive {
+  let upgraded = archive;
+
+  // v1 predates calendar event links
+  if (upgraded.schemaVersion < 2) {
+    upgraded = {
+      ...upgraded,
+      schemaVersion: 2,
+      tables: {
+        ...upgraded.tables,
+        practice_sessions: upgraded.tables.practice_sessions.map(row => ({
+          ...row,
+          calendar_event_id: null,
+          sync_calendar_id: null,
+        })),
+      },
+    };
+  }
+
+  return upgraded;
+}
+
+/**
+ * Rows to insert when merging an archive into existing data.
+ *
+ * - sessions: skipped when a session with the same start already exists
+ * - milestones: upserted on hours (unique per user), so milestone_type and notes are taken from the archive
+ * - repertoire: items already present are kept; new ones are appended below the current
+ *   list in their archived sort_order
+ */
+export function planMerge(
+  archive: BackupArchive,
+  existing: {
+    sessionStarts: string[];
+    repertoire: { type: string; title: string; divider_label: string | null; sort_order: number }[];
+  }
+) {
+  const starts = new Set(existing.sessionStarts.map(s => new Date(s).getTime()));
+  const sessions = archive.tables.practice_sessions.filter(s => !starts.has(new Date(s.started_at).getTime()));
+
+  const repertoireKey = (item: { type: string; title: string; divider_label: string | null }) =>
+    item.type === 'divider' ? `divider:${item.divider_label ?? ''}` : `piece:${item.title.trim().toLowerCase()}`;
+  const existingKeys = new Set(existing.repertoire.map(repertoireKey));
+  const maxSortOrder = existing.repertoire.reduce((max, item) => Math.max(max, item.sort_order), 0);
+
+  const repertoire = [...archive.tables.repertoire_items]
+    .filter(item => !existingKeys.has(repertoireKey(item)))
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((item, index) => ({ ...item, sort_order: maxSortOrder + index + 1 }));
+
+  return { sessions, milestones: archive.tables.milestones, repertoire };
+}
+
+const escapeCSV = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export function tableToCSV(table: BackupTable, rows: Record<string, unknown>[]): string {
+  const columns = BACKUP_COLUMNS[table];
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(c => escapeCSV(row[c])).join(','));
+  }
+  return lines.join('\n');
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
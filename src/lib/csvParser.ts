@@ -22,57 +22,40 @@ const monthMap: Record<string, number> = {
   'dec': 11, 'dez': 11, 'dezember': 11,
 };
 
+export interface GermanDateParts {
+  year: number;
+  month: number; // 1-based
+  day: number;
+  time: string; // "HH:MM" or "HH:MM:SS"
+}
+
 /**
- * Parse date format: "D. MMM YYYY at HH:MM:SS"
+ * Split date format "D. MMM YYYY at HH:MM:SS" into its wall-clock parts
  * Example: "1. Feb 2024 at 18:00:00"
  */
-export function parseGermanDate(dateStr: string): Date | null {
-  try {
-    if (!dateStr || typeof dateStr !== 'string') {
-      return null;
-    }
+export function splitGermanDate(dateStr: string): GermanDateParts | null {
+  if (!dateStr || typeof dateStr !== 'string') {
+    return null;
+  }
 
-    const normalized = dateStr.trim().toLowerCase();
-    
-    // Try regex pattern: "D. Month YYYY at HH:MM:SS"
-    const pattern = /^(\d{1,2})\.\s*(\w+)\s+(\d{4})\s+at\s+(\d{1,2}):(\d{2}):(\d{2})$/i;
-    const match = normalized.match(pattern);
-    
-    if (match) {
-      const day = parseInt(match[1], 10);
-      const monthStr = match[2].toLowerCase();
-      const year = parseInt(match[3], 10);
-      const hour = parseInt(match[4], 10);
-      const minute = parseInt(match[5], 10);
-      const second = parseInt(match[6], 10);
-      
-      const month = monthMap[monthStr];
-      
-      if (month === undefined) {
-        console.warn(`Unknown month: ${monthStr}`);
-        return null;
-      }
-      
-      const date = new Date(year, month, day, hour, minute, second);
-      
-      if (isNaN(date.getTime())) {
-        return null;
-      }
-      
-      return date;
-    }
-    
-    // Fallback: try native Date parsing
-    const fallbackDate = new Date(dateStr);
-    if (!isNaN(fallbackDate.getTime())) {
-      return fallbackDate;
-    }
-    
+  const pattern = /^(\d{1,2})\.\s*([a-zäöü]+)\.?\s+(\d{4})(?:\s+at)?\s+(\d{1,2}:\d{2}(?::\d{2})?)$/;
+  const match = dateStr.trim().toLowerCase().match(pattern);
+  if (!match) {
     return null;
-  } catch (error) {
-    console.warn('Date parsing error:', error);
+  }
+
+  const month = monthMap[match[2]];
+  if (month === undefined) {
+    console.warn(`Unknown month: ${match[2]}`);
     return null;
   }
+
+  return {
+    year: parseInt(match[3], 10),
+    month: month + 1,
+    day: parseInt(match[1], 10),
+    time: match[4],
+  };
 }
 
 /**
@@ -91,14 +74,12 @@ export function parseEuropeanDecimal(value: string): number {
 /**
  * Detect the separator used in a CSV header line
  */
-function detectSeparator(headerLine: string): string {
+export function detectSeparator(headerLine: string): string {
   // Count occurrences of potential separators
   const semicolonCount = (headerLine.match(/;/g) || []).length;
   const commaCount = (headerLine.match(/,/g) || []).length;
   const tabCount = (headerLine.match(/\t/g) || []).length;
   
-  console.log(`[CSV Parser] Separator detection - semicolons: ${semicolonCount}, commas: ${commaCount}, tabs: ${tabCount}`);
-  
   // Use the most common separator (headers typically don't have decimal numbers)
   if (semicolonCount >= commaCount && semicolonCount >= tabCount && semicolonCount > 0) {
     return ';';
@@ -109,110 +90,10 @@ function detectSeparator(headerLine: string): string {
   return ',';
 }
 
-/**
- * Parse CSV content into PracticeSession array
- */
-export function parseCSV(content: string): PracticeSession[] {
-  // Handle both \r\n and \n line endings
-  const lines = content.split(/\r?\n/).filter(line => line.trim());
-  
-  console.log(`[CSV Parser] Found ${lines.length} lines`);
-  
-  if (lines.length < 2) {
-    throw new Error('CSV file must have headers and at least one data row');
-  }
-  
-  // Detect separator from header line (headers don't have decimal numbers)
-  const separator = detectSeparator(lines[0]);
-  console.log(`[CSV Parser] Using separator: "${separator === '\t' ? 'TAB' : separator}"`);
-  
-  // Parse headers (first line)
-  const headers = parseCSVLine(lines[0], separator);
-  console.log('[CSV Parser] Headers:', headers);
-  
-  // Find column indices (case-insensitive, partial match)
-  const startTimeIdx = headers.findIndex(h => 
-    h.toLowerCase().includes('start') && h.toLowerCase().includes('time')
-  );
-  const endTimeIdx = headers.findIndex(h => 
-    h.toLowerCase().includes('end') && h.toLowerCase().includes('time')
-  );
-  const durationHoursIdx = headers.findIndex(h => 
-    h.toLowerCase().includes('duration') && h.toLowerCase().includes('hours')
-  );
-  const taskNameIdx = headers.findIndex(h => 
-    h.toLowerCase().includes('task') && h.toLowerCase().includes('name')
-  );
-  const durationIdx = headers.findIndex(h => 
-    h.toLowerCase() === 'duration'
-  );
-  
-  console.log('[CSV Parser] Column indices:', { startTimeIdx, endTimeIdx, durationHoursIdx, taskNameIdx });
-  
-  if (startTimeIdx === -1) {
-    throw new Error(`Could not find "Start time" column. Found headers: ${headers.join(', ')}`);
-  }
-  
-  if (durationHoursIdx === -1) {
-    throw new Error(`Could not find "Duration in hours" column. Found headers: ${headers.join(', ')}`);
-  }
-  
-  const sessions: PracticeSession[] = [];
-  const errors: string[] = [];
-  
-  // Parse data rows using the SAME separator
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i], separator);
-    
-    // Log first few rows for debugging
-    if (i <= 3) {
-      console.log(`[CSV Parser] Row ${i + 1} values (${values.length} columns):`, values.slice(0, 6));
-    }
-    
-    if (values.length < Math.max(startTimeIdx, durationHoursIdx) + 1) {
-      errors.push(`Row ${i + 1}: Got ${values.length} columns, need at least ${Math.max(startTimeIdx, durationHoursIdx) + 1}`);
-      continue;
-    }
-    
-    const startTimeStr = values[startTimeIdx];
-    const startTime = parseGermanDate(startTimeStr);
-    
-    if (!startTime) {
-      errors.push(`Row ${i + 1}: Could not parse date "${startTimeStr}"`);
-      continue;
-    }
-    
-    const durationStr = values[durationHoursIdx];
-    const durationInHours = parseEuropeanDecimal(durationStr);
-    
-    if (isNaN(durationInHours)) {
-      errors.push(`Row ${i + 1}: Could not parse duration "${durationStr}"`);
-      continue;
-    }
-    
-    sessions.push({
-      taskName: taskNameIdx !== -1 ? values[taskNameIdx] || '' : '',
-      startTime,
-      endTime: endTimeIdx !== -1 ? (parseGermanDate(values[endTimeIdx]) || startTime) : startTime,
-      duration: durationIdx !== -1 ? values[durationIdx] || '' : '',
-      durationInHours,
-    });
-  }
-  
-  console.log(`[CSV Parser] Parsed ${sessions.length} sessions, ${errors.length} errors`);
-  if (errors.length > 0 && errors.length <= 5) {
-    console.warn('[CSV Parser] Errors:', errors);
-  } else if (errors.length > 5) {
-    console.warn(`[CSV Parser] First 5 errors:`, errors.slice(0, 5));
-  }
-  
-  return sessions;
-}
-
 /**
  * Parse a single CSV line with a specific separator
  */
-function parseCSVLine(line: string, separator: string): string[] {
+export function parseCSVLine(line: string, separator: string): string[] {
   const result: string[] = [];
   let current = '';
   let inQuotes = false;
@@ -0,0 +1,119 @@
+import { DayBoundary, keyToDate, nextDayKey, practiceDayKey } from './dayBoundary';
+import { AnalyticsResult, appendDays, DailyData } from './practiceAnalytics';
+
+// Hours practised on one practice day, as the practice_daily_totals RPC reports them
+export interface DayTotal {
+  dayKey: string;
+  hours: number;
+}
+
+/**
+ * Daily timeline kept up to date as the daily totals change. Hours are indexed by practice
+ * day, so a sync only rebuilds the timeline from the first day whose total changed instead
+ * of from the start of the history
+ */
+export interface DailyStore {
+  // Practice day key -> hours, only days with practice
+  dayHours: Map<string, number>;
+  dailyData: DailyData[];
+  // Position of each practice day in dailyData
+  dayIndex: Map<string, number>;
+}
+
+export function createDailyStore(): DailyStore {
+  return {
+    dayHours: new Map(),
+    dailyData: [],
+    dayIndex: new Map(),
+  };
+}
+
+/**
+ * Bring the store in line with the complete list of daily totals. Returns the number of
+ * days at the start of the timeline that were kept as they were; every day after them was
+ * rebuilt (none when this equals the timeline's length)
+ */
+export function syncDailyStore(
+  store: DailyStore,
+  totals: DayTotal[],
+  dayBoundary: DayBoundary,
+  now: Date = new Date()
+): number {
+  const touched = new Set<string>();
+  const seen = new Set<string>();
+
+  for (const { dayKey, hours } of totals) {
+    seen.add(dayKey);
+    if (store.dayHours.get(dayKey) === hours) continue;
+    store.dayHours.set(dayKey, hours);
+    touched.add(dayKey);
+  }
+  for (const dayKey of [...store.dayHours.keys()]) {
+    if (seen.has(dayKey)) continue;
+    store.dayHours.delete(dayKey);
+    touched.add(dayKey);
+  }
+
+  if (store.dayHours.size === 0) {
+    store.dailyData = [];
+    store.dayIndex.clear();
+    return 0;
+  }
+
+  let firstKey: string | undefined;
+  let lastKey: string | undefined;
+  for (const dayKey of store.dayHours.keys()) {
+    if (!firstKey || dayKey < firstKey) firstKey = dayKey;
+    if (!lastKey || dayKey > lastKey) lastKey = dayKey;
+  }
+  // Always extend to today (or beyond if future sessions exist)
+  const todayKey = practiceDayKey(now, dayBoundary);
+  const endKey = lastKey > todayKey ? lastKey : todayKey;
+
+  // Keep every day before the first one that changed; a new first day shifts all day numbers
+  const current = store.dailyData;
+  let keepDays = 0;
+  if (current.length > 0 && current[0].dateStr === firstKey) {
+    keepDays = current.length;
+    for (const dayKey of touched) {
+      keepDays = Math.min(keepDays, store.dayIndex.get(dayKey) ?? keepDays);
+    }
+    if (current[current.length - 1].dateStr > endKey) {
+      keepDays = Math.min(keepDays, store.dayIndex.get(endKey) + 1);
+    }
+  }
+
+  const days: { date: Date; hoursPlayed: number }[] = [];
+  let dayKey = keepDays > 0 ? nextDayKey(current[keepDays - 1].dateStr) : firstKey;
+  for (; dayKey <= endKey; dayKey = nextDayKey(dayKey)) {
+    days.push({ date: keyToDate(dayKey), hoursPlayed: store.dayHours.get(dayKey) || 0 });
+  }
+
+  for (const stale of current.slice(keepDays)) {
+    store.dayIndex.delete(stale.dateStr);
+  }
+  store.dailyData = appendDays(current.slice(0, keepDays), days);
+  for (let i = keepDays; i < store.dailyData.length; i++) {
+    store.dayIndex.set(store.dailyData[i].dateStr, i);
+  }
+
+  return keepDays;
+}
+
+/**
+ * The store's timeline in the shape calculateAnalytics returns, or null without practice
+ */
+export function storeAnalytics(store: Pick<DailyStore, 'dailyData'>): AnalyticsResult | null {
+  const { dailyData } = store;
+  if (dailyData.length === 0) return null;
+
+  const totalHours = dailyData[dailyData.length - 1].cumulativeHours;
+  return {
+    dailyData,
+    totalHours,
+    totalDays: dailyData.length,
+    currentAverage: totalHours / dailyData.length,
+    startDate: dailyData[0].date,
+    endDate: dailyData[dailyData.length - 1].date,
+  };
+}
@@ -0,0 +1,183 @@
+import { addDays, format } from 'date-fns';
+
+// Which calendar day a moment of practice belongs to
+export interface DayBoundary {
+  // IANA zone, e.g. "Europe/Amsterdam"; days are counted in this zone wherever the browser is
+  timeZone: string;
+  // Hour (0–23) at which a practice day starts; 4 credits practice until 04:00 to the day before
+  dayStartHour: number;
+  // Split sessions that cross the boundary between both days instead of crediting the start day
+  splitSessions: boolean;
+}
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export const DEFAULT_DAY_BOUNDARY: DayBoundary = {
+  timeZone: browserTimeZone(),
+  dayStartHour: 0,
+  splitSessions: false,
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(instant: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Minutes the zone is ahead of UTC at the given moment
+function zoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const p = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * yyyy-MM-dd of the practice day a moment belongs to: its date in the home zone, or the day
+ * before when the wall clock there is still before dayStartHour. SQL practice_day() mirrors this
+ */
+export function practiceDayKey(instant: Date, boundary: DayBoundary = DEFAULT_DAY_BOUNDARY): string {
+  const p = zonedParts(instant, boundary.timeZone);
+  const date = new Date(Date.UTC(p.year, p.month - 1, p.hour < boundary.dayStartHour ? p.day - 1 : p.day));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Local-midnight Date for a yyyy-MM-dd key, the form DailyData.date uses
+ */
+export function keyToDate(dayKey: string): Date {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function nextDayKey(dayKey: string): string {
+  return format(addDays(keyToDate(dayKey), 1), 'yyyy-MM-dd');
+}
+
+/**
+ * First moment the wall clock in the given zone shows a time (month 1–12) or later: the
+ * earlier one when a DST change repeats it, the moment of the change when it skips it
+ */
+export function zonedDateTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  // Near a DST change the zone has two offsets; each gives a candidate moment
+  const guess = wallClock - zoneOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  const offsets = new Set([guess - 3 * 3600000, guess, guess + 3 * 3600000].map(t => zoneOffsetMinutes(new Date(t), timeZone)));
+  const candidates = [...offsets].map(offset => wallClock - offset * 60000).sort((a, b) => a - b);
+  const wallClockAt = (t: number) => t + zoneOffsetMinutes(new Date(t), timeZone) * 60000;
+  const index = candidates.findIndex(t => wallClockAt(t) >= wallClock);
+  if (index === -1) return new Date(guess);
+  if (index === 0 || wallClockAt(candidates[index]) === wallClock) return new Date(candidates[index]);
+
+  // The time was skipped: the change lies between the two candidates, find it to the second
+  let low = candidates[index - 1];
+  let high = candidates[index];
+  while (high - low > 1000) {
+    const mid = low + Math.floor((high - low) / 2000) * 1000;
+    if (wallClockAt(mid) >= wallClock) high = mid;
+    else low = mid;
+  }
+  return new Date(high);
+}
+
+/**
+ * Moment the given practice day starts (dayStartHour in the home zone)
+ */
+export function practiceDayStart(dayKey: string, boundary: DayBoundary = DEFAULT_DAY_BOUNDARY): Date {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return zonedDateTime(year, month, day, boundary.dayStartHour, 0, 0, boundary.timeZone);
+}
+
+/**
+ * Hours of [start, end) per practice day, cut at each day start
+ */
+export function splitByPracticeDay(
+  start: Date,
+  end: Date,
+  boundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): { dayKey: string; hours: number }[] {
+  const result: { dayKey: string; hours: number }[] = [];
+  let cursor = start;
+  let dayKey = practiceDayKey(start, boundary);
+  while (cursor < end) {
+    const nextKey = nextDayKey(dayKey);
+    const nextStart = practiceDayStart(nextKey, boundary);
+    const segmentEnd = nextStart < end ? nextStart : end;
+    result.push({ dayKey, hours: (segmentEnd.getTime() - cursor.getTime()) / 3600000 });
+    cursor = segmentEnd;
+    dayKey = nextKey;
+  }
+  return result;
+}
+
+/**
+ * Whether a session counts towards the given practice day: any overlap when sessions are
+ * split, otherwise only the day it started on
+ */
+export function isOnPracticeDay(
+  start: Date,
+  end: Date,
+  dayKey: string,
+  boundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): boolean {
+  if (!boundary.splitSessions) return practiceDayKey(start, boundary) === dayKey;
+  return start < practiceDayStart(nextDayKey(dayKey), boundary) && end > practiceDayStart(dayKey, boundary);
+}
+
+/**
+ * HH:mm of a moment in the home zone
+ */
+export function formatZonedTime(instant: Date, boundary: DayBoundary = DEFAULT_DAY_BOUNDARY): string {
+  const p = zonedParts(instant, boundary.timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+export function zonedHour(instant: Date, boundary: DayBoundary = DEFAULT_DAY_BOUNDARY): number {
+  return zonedParts(instant, boundary.timeZone).hour;
+}
+
+/**
+ * Start of the home-zone hour a moment falls in (zones with a half-hour offset don't start
+ * their hours on the UTC hour)
+ */
+export function zonedHourStart(instant: Date, boundary: DayBoundary = DEFAULT_DAY_BOUNDARY): Date {
+  const p = zonedParts(instant, boundary.timeZone);
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return new Date(wholeSeconds - (p.minute * 60 + p.second) * 1000);
+}
@@ -0,0 +1,183 @@
+import { addDays, startOfDay } from 'date-fns';
+import { DailyData } from './practiceAnalytics';
+
+// How future practice is projected for milestone dates
+export type ForecastModel = 'lifetime' | 'rolling' | 'trend';
+
+// Days of history the recent-pace model uses (matches DailyData.rolling90)
+const RECENT_WINDOW_DAYS = 90;
+// Days of history the trend model is fitted on
+const TREND_WINDOW_DAYS = 365;
+
+export const FORECAST_MODELS: Array<{ key: ForecastModel; label: string; description: string }> = [
+  {
+    key: 'lifetime',
+    label: 'Lifetime average',
+    description: 'Keeps practising at the all-time daily average',
+  },
+  {
+    key: 'rolling',
+    label: 'Recent pace',
+    description: `Keeps the pace of the last ${RECENT_WINDOW_DAYS} days`,
+  },
+  {
+    key: 'trend',
+    label: 'Trend and weekdays',
+    description: 'Continues the trend of the last year, with your usual weekday pattern',
+  },
+];
+
+export const DEFAULT_FORECAST_MODEL: ForecastModel = 'lifetime';
+
+// The band covers how much the average of a BLOCK_DAYS block varies: ±1.28 sd, about 80%
+const BLOCK_DAYS = 14;
+const BAND_Z = 1.28;
+// A fitted trend is followed for this long; after that the pace stays flat
+const TREND_HORIZON_DAYS = 365;
+// Dates further out than this are reported as unreachable
+const MAX_FORECAST_DAYS = 365 * 100;
+
+export interface Forecast {
+  model: ForecastModel;
+  // Expected hours per day from tomorrow on, before the weekday factor
+  baseRate: number;
+  // Change of baseRate per day (trend model only)
+  trendPerDay: number;
+  // Multiplier per weekday, 0 = Monday
+  weekdayFactors: number[];
+  // Hours per day added to (optimistic) or taken from (pessimistic) the expected pace
+  spread: number;
+}
+
+export interface MilestoneForecast {
+  // Days from today; Infinity when the milestone is never reached at that pace
+  days: number;
+  optimisticDays: number;
+  pessimisticDays: number;
+  date: Date | null;
+  optimisticDate: Date | null;
+  pessimisticDate: Date | null;
+}
+
+const FLAT_WEEK = [1, 1, 1, 1, 1, 1, 1];
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// Standard deviation of the averages of consecutive blocks, counted back from the latest day
+function blockSpread(values: number[]): number {
+  const blocks: number[] = [];
+  for (let end = values.length; end - BLOCK_DAYS >= 0; end -= BLOCK_DAYS) {
+    blocks.push(mean(values.slice(end - BLOCK_DAYS, end)));
+  }
+  if (blocks.length < 2) return 0;
+  const blockMean = mean(blocks);
+  const variance = blocks.reduce((sum, b) => sum + (b - blockMean) ** 2, 0) / (blocks.length - 1);
+  return BAND_Z * Math.sqrt(variance);
+}
+
+/**
+ * Fit the chosen model on the zero-filled daily timeline
+ */
+export function buildForecast(dailyData: DailyData[], model: ForecastModel): Forecast {
+  const flat = { model, trendPerDay: 0, weekdayFactors: FLAT_WEEK };
+  if (dailyData.length === 0) {
+    return { ...flat, baseRate: 0, spread: 0 };
+  }
+  const last = dailyData[dailyData.length - 1];
+  const hours = dailyData.map(d => d.hoursPlayed);
+
+  if (model === 'lifetime') {
+    return { ...flat, baseRate: last.cumulativeAverage, spread: blockSpread(hours) };
+  }
+
+  if (model === 'rolling') {
+    return { ...flat, baseRate: last.rolling90, spread: blockSpread(hours.slice(-RECENT_WINDOW_DAYS)) };
+  }
+
+  // Least-squares line through the last year of daily hours
+  const history = dailyData.slice(-TREND_WINDOW_DAYS);
+  const n = history.length;
+  const xMean = (n - 1) / 2;
+  const yMean = mean(history.map(d => d.hoursPlayed));
+  let covariance = 0;
+  let xVariance = 0;
+  history.forEach((d, x) => {
+    covariance += (x - xMean) * (d.hoursPlayed - yMean);
+    xVariance += (x - xMean) ** 2;
+  });
+  const slope = xVariance > 0 ? covariance / xVariance : 0;
+  const fitted = (x: number) => yMean + slope * (x - xMean);
+
+  // Weekday pattern relative to the window's mean
+  const weekdayTotals = new Array<number>(7).fill(0);
+  const weekdayCounts = new Array<number>(7).fill(0);
+  for (const d of history) {
+    const weekday = (d.date.getDay() + 6) % 7;
+    weekdayTotals[weekday] += d.hoursPlayed;
+    weekdayCounts[weekday] += 1;
+  }
+  const weekdayFactors = yMean > 0
+    ? weekdayTotals.map((total, i) => (weekdayCounts[i] > 0 ? total / weekdayCounts[i] / yMean : 1))
+    : FLAT_WEEK;
+
+  return {
+    model,
+    baseRate: fitted(n - 1),
+    trendPerDay: slope,
+    weekdayFactors,
+    spread: blockSpread(history.map((d, x) => d.hoursPlayed - fitted(x))),
+  };
+}
+
+function rateOn(forecast: Forecast, dayOffset: number, date: Date, band: -1 | 0 | 1): number {
+  const base = forecast.baseRate + forecast.trendPerDay * Math.min(dayOffset, TREND_HORIZON_DAYS);
+  const weekday = (date.getDay() + 6) % 7;
+  return Math.max(0, (base + band * forecast.spread) * forecast.weekdayFactors[weekday]);
+}
+
+function daysToReach(remaining: number, forecast: Forecast, band: -1 | 0 | 1, today: Date): number {
+  if (remaining <= 0) return 0;
+
+  let total = 0;
+  for (let day = 1; day <= TREND_HORIZON_DAYS; day++) {
+    total += rateOn(forecast, day, addDays(today, day), band);
+    if (total >= remaining) return day;
+  }
+
+  // Past the horizon the pace repeats every week
+  let weekly = 0;
+  for (let day = 1; day <= 7; day++) {
+    weekly += rateOn(forecast, TREND_HORIZON_DAYS + day, addDays(today, TREND_HORIZON_DAYS + day), band);
+  }
+  if (weekly <= 0) return Infinity;
+  const days = TREND_HORIZON_DAYS + Math.ceil((remaining - total) / (weekly / 7));
+  return days > MAX_FORECAST_DAYS ? Infinity : days;
+}
+
+/**
+ * Expected, optimistic and pessimistic dates for reaching targetHours
+ */
+export function forecastMilestone(
+  currentHours: number,
+  targetHours: number,
+  forecast: Forecast,
+  today: Date = new Date()
+): MilestoneForecast {
+  const start = startOfDay(today);
+  const remaining = targetHours - currentHours;
+  const days = daysToReach(remaining, forecast, 0, start);
+  const optimisticDays = daysToReach(remaining, forecast, 1, start);
+  const pessimisticDays = daysToReach(remaining, forecast, -1, start);
+  const toDate = (d: number) => (d === Infinity ? null : addDays(today, d));
+
+  return {
+    days,
+    optimisticDays,
+    pessimisticDays,
+    date: toDate(days),
+    optimisticDate: toDate(optimisticDays),
+    pessimisticDate: toDate(pessimisticDays),
+  };
+}
@@ -0,0 +1,104 @@
+import {
+  addDays,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isAfter,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { DailyData } from './practiceAnalytics';
+
+export type GoalPeriod = 'day' | 'week' | 'month';
+
+export interface PracticeGoal {
+  id: number;
+  period: GoalPeriod;
+  // Daily goals only: 0 = Monday; null applies to days without their own goal
+  weekday: number | null;
+  target_minutes: number;
+  starts_on: string;
+  ends_on: string | null;
+}
+
+export const GOAL_PERIOD_LABELS: Record<GoalPeriod, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+export interface GoalPeriodResult {
+  period: GoalPeriod;
+  start: Date;
+  end: Date;
+  targetHours: number;
+  actualHours: number;
+  reached: boolean;
+}
+
+function isActiveOn(goal: PracticeGoal, dateStr: string): boolean {
+  return goal.starts_on <= dateStr && (goal.ends_on === null || goal.ends_on >= dateStr);
+}
+
+/**
+ * Target in minutes that applied on the given date, or null when there was none.
+ * A weekday's own daily goal takes precedence over the every-day goal
+ */
+export function goalMinutesOn(goals: PracticeGoal[], period: GoalPeriod, date: Date): number | null {
+  const dateStr = format(date, 'yyyy-MM-dd');
+  const active = goals.filter(g => g.period === period && isActiveOn(g, dateStr));
+  if (period === 'day') {
+    const weekday = (date.getDay() + 6) % 7;
+    const own = active.find(g => g.weekday === weekday);
+    if (own) return own.target_minutes;
+    return active.find(g => g.weekday === null)?.target_minutes ?? null;
+  }
+  return active[0]?.target_minutes ?? null;
+}
+
+function periodBounds(period: GoalPeriod, date: Date): { start: Date; end: Date } {
+  if (period === 'week') {
+    return { start: startOfWeek(date, { weekStartsOn: 1 }), end: startOfDay(endOfWeek(date, { weekStartsOn: 1 })) };
+  }
+  if (period === 'month') {
+    return { start: startOfMonth(date), end: startOfDay(endOfMonth(date)) };
+  }
+  return { start: startOfDay(date), end: startOfDay(date) };
+}
+
+/**
+ * Every period with a target, oldest first. The target of a week or month is the one
+ * active on its last day (today for the current period); the current period is included
+ */
+export function goalResults(goals: PracticeGoal[], dailyData: DailyData[], period: GoalPeriod): GoalPeriodResult[] {
+  if (dailyData.length === 0) return [];
+  const hoursByDate = new Map(dailyData.map(d => [d.dateStr, d.hoursPlayed]));
+  const today = dailyData[dailyData.length - 1].date;
+  const results: GoalPeriodResult[] = [];
+
+  let { start, end } = periodBounds(period, dailyData[0].date);
+  while (!isAfter(start, today)) {
+    const targetDay = isAfter(end, today) ? today : end;
+    const targetMinutes = goalMinutesOn(goals, period, targetDay);
+    if (targetMinutes !== null) {
+      let actualHours = 0;
+      for (let day = start; !isAfter(day, end); day = addDays(day, 1)) {
+        actualHours += hoursByDate.get(format(day, 'yyyy-MM-dd')) ?? 0;
+      }
+      const targetHours = targetMinutes / 60;
+      results.push({ period, start, end, targetHours, actualHours, reached: actualHours >= targetHours - 1e-9 });
+    }
+    ({ start, end } = periodBounds(period, addDays(end, 1)));
+  }
+  return results;
+}
+
+/**
+ * Share of finished periods that reached their target. The current period only counts once reached
+ */
+export function goalHitRate(results: GoalPeriodResult[], today: Date = new Date()): { hit: number; total: number; rate: number } {
+  const counted = results.filter(r => r.reached || isAfter(startOfDay(today), r.end));
+  const hit = counted.filter(r => r.reached).length;
+  return { hit, total: counted.length, rate: counted.length > 0 ? (hit / counted.length) * 100 : 0 };
+}
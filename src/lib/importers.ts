@@ -0,0 +1,423 @@
+import {
+  PracticeSession,
+  splitGermanDate,
+  parseEuropeanDecimal,
+  detectSeparator,
+  parseCSVLine,
+} from './csvParser';
+import { DEFAULT_DAY_BOUNDARY, zonedDateTime } from './dayBoundary';
+
+export type ImporterId = 'atracker' | 'toggl' | 'clockify' | 'generic-iso' | 'json';
+
+// How date cells are written
+// - atracker: "1. Feb 2024 at 18:00:00"
+// - iso: "2024-02-01T18:00:00+01:00" (one column with date and time, or a date-only value)
+// - ymd / dmy / mdy: "2024-02-01", "01.02.2024", "02/01/2024" with an optional separate time column
+export type DateFormat = 'atracker' | 'iso' | 'ymd' | 'dmy' | 'mdy';
+
+// Decimal separator used in numeric duration cells
+export type DecimalConvention = 'comma' | 'dot';
+
+// Unit of the duration column; 'hms' is "H:MM:SS"
+export type DurationUnit = 'hours' | 'minutes' | 'seconds' | 'hms';
+
+export interface ColumnMapping {
+  start: string;
+  startTime?: string; // Separate time-of-day column (Toggl, Clockify)
+  end?: string;
+  endTime?: string;
+  duration?: string; // Falls back to end - start when missing
+  task?: string;
+}
+
+export interface ImportSettings {
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  decimal: DecimalConvention;
+  durationUnit: DurationUnit;
+}
+
+export interface ImporterFormat {
+  id: ImporterId;
+  label: string;
+  kind: 'csv' | 'json';
+  defaults: Omit<ImportSettings, 'mapping'>;
+  // Returns the column mapping (and any setting it implies) if the headers match this format
+  detect: (headers: string[]) => Partial<ImportSettings> & { mapping: ColumnMapping } | null;
+}
+
+export interface ImportRowError {
+  row: number; // 1-based line number in the file (header is row 1)
+  message: string;
+}
+
+export interface ImportParseResult {
+  sessions: PracticeSession[];
+  errors: ImportRowError[];
+  formatId: ImporterId | null;
+  kind: 'csv' | 'json';
+  headers: string[];
+  settings: ImportSettings | null;
+}
+
+const findHeader = (headers: string[], predicate: (h: string) => boolean): string | undefined =>
+  headers.find(h => predicate(h.trim().toLowerCase()));
+
+const exactHeader = (headers: string[], ...names: string[]) =>
+  findHeader(headers, h => names.includes(h));
+
+const durationUnitFromHeader = (header: string): DurationUnit | undefined => {
+  const h = header.toLowerCase();
+  if (h.includes('second') || h.endsWith('_s')) return 'seconds';
+  if (h.includes('minute') || h.endsWith('_min')) return 'minutes';
+  if (h.includes('hour') || h.endsWith('_h')) return 'hours';
+  return undefined;
+};
+
+const detectIsoColumns = (headers: string[]) => {
+  const start = exactHeader(headers, 'start', 'started_at', 'start_time', 'starttime', 'start time', 'begin');
+  if (!start) return null;
+  const end = exactHeader(headers, 'end', 'ended_at', 'end_time', 'endtime', 'end time', 'stop');
+  const duration = findHeader(headers, h => h.startsWith('duration'));
+  if (!end && !duration) return null;
+  const task = exactHeader(headers, 'task', 'title', 'description', 'name', 'summary');
+  const mapping = { start, end, duration, task };
+  const durationUnit = duration ? durationUnitFromHeader(duration) : undefined;
+  // Without a unit in the header the format's default unit applies
+  return durationUnit ? { mapping, durationUnit } : { mapping };
+};
+
+/**
+ * Registry of supported import formats, in detection order
+ */
+export const IMPORTERS: ImporterFormat[] = [
+  {
+    id: 'clockify',
+    label: 'Clockify CSV',
+    kind: 'csv',
+    defaults: { dateFormat: 'mdy', decimal: 'dot', durationUnit: 'hours' },
+    detect: (headers) => {
+      const start = exactHeader(headers, 'start date');
+      const startTime = exactHeader(headers, 'start time');
+      const decimalDuration = exactHeader(headers, 'duration (decimal)');
+      const hmsDuration = exactHeader(headers, 'duration (h)');
+      if (!start || !startTime || (!decimalDuration && !hmsDuration)) return null;
+      return {
+        mapping: {
+          start,
+          startTime,
+          end: exactHeader(headers, 'end date'),
+          endTime: exactHeader(headers, 'end time'),
+          duration: decimalDuration ?? hmsDuration,
+          task: exactHeader(headers, 'description', 'task'),
+        },
+        durationUnit: decimalDuration ? 'hours' : 'hms',
+      };
+    },
+  },
+  {
+    id: 'toggl',
+    label: 'Toggl CSV',
+    kind: 'csv',
+    defaults: { dateFormat: 'ymd', decimal: 'dot', durationUnit: 'hms' },
+    detect: (headers) => {
+      const start = exactHeader(headers, 'start date');
+      const startTime = exactHeader(headers, 'start time');
+      const duration = exactHeader(headers, 'duration');
+      if (!start || !startTime || !duration) return null;
+      return {
+        mapping: {
+          start,
+          startTime,
+          end: exactHeader(headers, 'end date'),
+          endTime: exactHeader(headers, 'end time'),
+          duration,
+          task: exactHeader(headers, 'description', 'task'),
+        },
+      };
+    },
+  },
+  {
+    id: 'atracker',
+    label: 'ATracker CSV',
+    kind: 'csv',
+    defaults: { dateFormat: 'atracker', decimal: 'comma', durationUnit: 'hours' },
+    detect: (headers) => {
+      const start = findHeader(headers, h => h.includes('start') && h.includes('time'));
+      const duration = findHeader(headers, h => h.includes('duration') && h.includes('hours'));
+      if (!start || !duration) return null;
+      return {
+        mapping: {
+          start,
+          end: findHeader(headers, h => h.includes('end') && h.includes('time')),
+          duration,
+          task: findHeader(headers, h => h.includes('task') && h.includes('name')),
+        },
+      };
+    },
+  },
+  {
+    id: 'generic-iso',
+    label: 'ISO-8601 CSV',
+    kind: 'csv',
+    defaults: { dateFormat: 'iso', decimal: 'dot', durationUnit: 'minutes' },
+    detect: detectIsoColumns,
+  },
+  {
+    id: 'json',
+    label: 'JSON array',
+    kind: 'json',
+    defaults: { dateFormat: 'iso', decimal: 'dot', durationUnit: 'seconds' },
+    detect: detectIsoColumns,
+  },
+];
+
+export function getImporter(id: ImporterId): ImporterFormat {
+  const importer = IMPORTERS.find(i => i.id === id);
+  if (!importer) throw new Error(`Unknown import format: ${id}`);
+  return importer;
+}
+
+// ISO date with an optional time but no offset, e.g. "2024-02-01" or "2024-02-01T18:00:00"
+const ISO_WALL_CLOCK = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2})?)(?:\.\d+)?)?$/;
+
+/**
+ * Parse a date cell (plus optional time cell) according to the date format. Values that
+ * carry no offset are read as wall-clock time in the home time zone
+ */
+export function parseDateTime(
+  dateStr: string,
+  timeStr: string | undefined,
+  dateFormat: DateFormat,
+  timeZone: string = DEFAULT_DAY_BOUNDARY.timeZone
+): Date | null {
+  if (!dateStr || !dateStr.trim()) return null;
+  const value = dateStr.trim();
+
+  let year: number;
+  let month: number;
+  let day: number;
+  let time = timeStr?.trim() ?? '';
+
+  if (dateFormat === 'atracker') {
+    const parts = splitGermanDate(value);
+    if (!parts) return null;
+    ({ year, month, day, time } = parts);
+  } else if (dateFormat === 'iso') {
+    const iso = value.match(ISO_WALL_CLOCK);
+    if (!iso) {
+      const date = new Date(time ? `${value}T${time}` : value);
+      return isNaN(date.getTime()) ? null : date;
+    }
+    [year, month, day] = iso.slice(1, 4).map(Number);
+    if (iso[4]) time = iso[4];
+  } else {
+    const parts = value.split(/[-./]/).map(p => parseInt(p, 10));
+    if (parts.length !== 3 || parts.some(isNaN)) return null;
+
+    if (dateFormat === 'ymd') {
+      [year, month, day] = parts;
+    } else if (dateFormat === 'dmy') {
+      [day, month, year] = parts;
+    } else {
+      [month, day, year] = parts;
+    }
+    if (year < 100) year += 2000;
+  }
+
+  let hours = 0;
+  let minutes = 0;
+  let seconds = 0;
+  if (time) {
+    const match = time.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i);
+    if (!match) return null;
+    hours = parseInt(match[1], 10);
+    minutes = parseInt(match[2], 10);
+    seconds = match[3] ? parseInt(match[3], 10) : 0;
+    const meridiem = match[4]?.toLowerCase().replace(/\./g, '');
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+  }
+
+  // Reject days the month doesn't have instead of rolling over into the next one
+  if (month < 1 || month > 12 || day < 1 || new Date(Date.UTC(year, month - 1, day)).getUTCMonth() !== month - 1) {
+    return null;
+  }
+  const date = zonedDateTime(year, month, day, hours, minutes, seconds, timeZone);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a duration cell into hours
+ */
+export function parseDurationHours(value: string, unit: DurationUnit, decimal: DecimalConvention): number {
+  if (!value || !value.trim()) return NaN;
+  const trimmed = value.trim();
+
+  if (unit === 'hms' || trimmed.includes(':')) {
+    const parts = trimmed.split(':').map(p => parseInt(p, 10));
+    if (parts.some(isNaN) || parts.length < 2 || parts.length > 3) return NaN;
+    const [h, m, s = 0] = parts;
+    return h + m / 60 + s / 3600;
+  }
+
+  const numeric = decimal === 'comma'
+    ? parseEuropeanDecimal(trimmed.replace(/\./g, ''))
+    : parseFloat(trimmed.replace(/,/g, ''));
+
+  if (unit === 'minutes') return numeric / 60;
+  if (unit === 'seconds') return numeric / 3600;
+  return numeric;
+}
+
+/**
+ * Turn tabular records into sessions using the given settings
+ */
+export function parseRecords(
+  headers: string[],
+  records: string[][],
+  settings: ImportSettings,
+  firstRowNumber: number,
+  timeZone: string = DEFAULT_DAY_BOUNDARY.timeZone
+): Pick<ImportParseResult, 'sessions' | 'errors'> {
+  const { mapping } = settings;
+  const index = (header?: string) => (header ? headers.indexOf(header) : -1);
+  const startIdx = index(mapping.start);
+  const startTimeIdx = index(mapping.startTime);
+  const endIdx = index(mapping.end);
+  const endTimeIdx = index(mapping.endTime);
+  const durationIdx = index(mapping.duration);
+  const taskIdx = index(mapping.task);
+
+  if (startIdx === -1) {
+    throw new Error(`Could not find the start column "${mapping.start}". Found headers: ${headers.join(', ')}`);
+  }
+  if (durationIdx === -1 && endIdx === -1) {
+    throw new Error('Map either a duration column or an end column');
+  }
+
+  const sessions: PracticeSession[] = [];
+  const errors: ImportRowError[] = [];
+
+  records.forEach((values, i) => {
+    const row = firstRowNumber + i;
+    const startTime = parseDateTime(values[startIdx], startTimeIdx !== -1 ? values[startTimeIdx] : undefined, settings.dateFormat, timeZone);
+    if (!startTime) {
+      errors.push({ row, message: `Could not parse date "${[values[startIdx], startTimeIdx !== -1 ? values[startTimeIdx] : ''].join(' ').trim()}"` });
+      return;
+    }
+
+    const endTime = endIdx !== -1
+      ? parseDateTime(values[endIdx], endTimeIdx !== -1 ? values[endTimeIdx] : undefined, settings.dateFormat, timeZone)
+      : null;
+
+    let durationInHours: number;
+    if (durationIdx !== -1) {
+      durationInHours = parseDurationHours(values[durationIdx], settings.durationUnit, settings.decimal);
+      if (isNaN(durationInHours)) {
+        errors.push({ row, message: `Could not parse duration "${values[durationIdx] ?? ''}"` });
+        return;
+      }
+    } else {
+      if (!endTime) {
+        errors.push({ row, message: `Could not parse end date "${values[endIdx] ?? ''}"` });
+        return;
+      }
+      durationInHours = (endTime.getTime() - startTime.getTime()) / 3600000;
+    }
+
+    sessions.push({
+      taskName: taskIdx !== -1 ? values[taskIdx] || '' : '',
+      startTime,
+      endTime: endTime ?? new Date(startTime.getTime() + durationInHours * 3600000),
+      duration: durationIdx !== -1 ? values[durationIdx] || '' : '',
+      durationInHours,
+    });
+  });
+
+  return { sessions, errors };
+}
+
+/**
+ * Split file content into headers and string records
+ */
+export function readTable(content: string): { kind: 'csv' | 'json'; headers: string[]; records: string[][]; firstRowNumber: number } {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error('File looks like JSON but could not be parsed');
+    }
+    // Accept a bare array or an object wrapping one (e.g. { "sessions": [...] })
+    const items = Array.isArray(parsed)
+      ? parsed
+      : Object.values(parsed as Record<string, unknown>).find(Array.isArray);
+    if (!Array.isArray(items)) {
+      throw new Error('JSON import must be an array of session objects');
+    }
+    const objects = items.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+    const headers = Array.from(new Set(objects.flatMap(item => Object.keys(item))));
+    const records = objects.map(item => headers.map(h => (item[h] === null || item[h] === undefined ? '' : String(item[h]))));
+    return { kind: 'json', headers, records, firstRowNumber: 1 };
+  }
+
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) {
+    throw new Error('CSV file must have headers and at least one data row');
+  }
+  const separator = detectSeparator(lines[0]);
+  const headers = parseCSVLine(lines[0], separator);
+  const records = lines.slice(1).map(line => parseCSVLine(line, separator));
+  return { kind: 'csv', headers, records, firstRowNumber: 2 };
+}
+
+/**
+ * Detect the first importer whose columns match the headers
+ */
+export function detectImporter(kind: 'csv' | 'json', headers: string[]): { importer: ImporterFormat; settings: ImportSettings } | null {
+  for (const importer of IMPORTERS) {
+    if (importer.kind !== kind) continue;
+    const detected = importer.detect(headers);
+    if (detected) {
+      return {
+        importer,
+        settings: { ...importer.defaults, ...detected },
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse an import file, auto-detecting the format unless settings are given. Dates
+ * without an offset are read in timeZone (the home zone)
+ */
+export function parseImportFile(
+  content: string,
+  override?: { formatId: ImporterId; settings: ImportSettings },
+  timeZone: string = DEFAULT_DAY_BOUNDARY.timeZone
+): ImportParseResult {
+  const { kind, headers, records, firstRowNumber } = readTable(content);
+
+  const resolved = override
+    ? { importer: getImporter(override.formatId), settings: override.settings }
+    : detectImporter(kind, headers);
+
+  if (!resolved) {
+    // Detection failed: the caller has to provide a mapping by hand
+    return { formatId: null, kind, headers, settings: null, sessions: [], errors: [] };
+  }
+
+  const { sessions, errors } = parseRecords(headers, records, resolved.settings, firstRowNumber, timeZone);
+  return {
+    formatId: resolved.importer.id,
+    kind,
+    headers,
+    settings: resolved.settings,
+    sessions,
+    errors,
+  };
+}
@@ -1,5 +1,6 @@
-import { startOfDay, differenceInDays, addDays, format, subDays, subMonths, subYears, addHours, startOfHour, isToday, isSameDay } from 'date-fns';
+import { differenceInDays, addDays, format, subDays, subMonths, subYears, addHours } from 'date-fns';
 import { PracticeSession } from './csvParser';
+import { DayBoundary, DEFAULT_DAY_BOUNDARY, isOnPracticeDay, keyToDate, nextDayKey, practiceDayKey, practiceDayStart, splitByPracticeDay, formatZonedTime, zonedHour, zonedHourStart } from './dayBoundary';
 
 export interface DailyData {
   date: Date;
@@ -8,8 +9,31 @@ export interface DailyData {
   cumulativeHours: number;
   cumulativeAverage: number;
   dayNumber: number;
+  // Average hours per day over the trailing 7/30/90 days (fewer while the history is shorter)
+  rolling7: number;
+  rolling30: number;
+  rolling90: number;
+  // Exponentially weighted daily average, see EWMA_SPAN_DAYS
+  ewma: number;
 }
 
+// Which average the charts and headline show
+export type AverageMetric = 'lifetime' | 'rolling7' | 'rolling30' | 'rolling90' | 'ewma';
+
+export const AVERAGE_METRICS: Array<{ key: AverageMetric; label: string; title: string }> = [
+  { key: 'lifetime', label: 'All', title: 'Daily Average' },
+  { key: 'rolling7', label: '7d', title: '7-Day Average' },
+  { key: 'rolling30', label: '30d', title: '30-Day Average' },
+  { key: 'rolling90', label: '90d', title: '90-Day Average' },
+  { key: 'ewma', label: 'EWMA', title: 'Weighted Average' },
+];
+
+// Span of the exponentially weighted average; a day's weight halves roughly every 10 days
+export const EWMA_SPAN_DAYS = 30;
+const EWMA_ALPHA = 2 / (EWMA_SPAN_DAYS + 1);
+
+const ROLLING_WINDOWS = { rolling7: 7, rolling30: 30, rolling90: 90 } as const;
+
 // Intraday data point for 1D view
 export interface IntradayData {
   time: Date;
@@ -30,66 +54,170 @@ export interface AnalyticsResult {
   endDate: Date;
 }
 
+/**
+ * Convert practice_sessions rows into the PracticeSession shape used by calculateAnalytics
+ */
+export function toPracticeSessions(rows: { started_at: string; duration_seconds: number }[]): PracticeSession[] {
+  return rows.map(row => ({
+    taskName: 'Practice',
+    startTime: new Date(row.started_at),
+    endTime: new Date(new Date(row.started_at).getTime() + row.duration_seconds * 1000),
+    duration: '',
+    durationInHours: row.duration_seconds / 3600,
+  }));
+}
+
+/**
+ * Practice days a session counts towards, with the hours credited to each
+ */
+export function sessionDayParts(
+  session: Pick<PracticeSession, 'startTime' | 'endTime' | 'durationInHours'>,
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): { dayKey: string; hours: number }[] {
+  return dayBoundary.splitSessions
+    ? splitByPracticeDay(session.startTime, session.endTime, dayBoundary)
+    : [{ dayKey: practiceDayKey(session.startTime, dayBoundary), hours: session.durationInHours }];
+}
+
 /**
  * Process practice sessions into daily analytics data
  */
-export function calculateAnalytics(sessions: PracticeSession[]): AnalyticsResult {
+export function calculateAnalytics(
+  sessions: PracticeSession[],
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): AnalyticsResult {
   if (sessions.length === 0) {
     throw new Error('No valid practice sessions found');
   }
 
-  // Step A: Aggregate hours by date
+  // Step A: Aggregate hours by practice day
   const dailyHours = new Map<string, number>();
   
   for (const session of sessions) {
-    const dateKey = format(startOfDay(session.startTime), 'yyyy-MM-dd');
-    const current = dailyHours.get(dateKey) || 0;
-    dailyHours.set(dateKey, current + session.durationInHours);
+    for (const { dayKey, hours } of sessionDayParts(session, dayBoundary)) {
+      dailyHours.set(dayKey, (dailyHours.get(dayKey) || 0) + hours);
+    }
   }
   
   // Find date range - extend to today if needed
   const dates = Array.from(dailyHours.keys()).sort();
-  const startDate = startOfDay(new Date(dates[0]));
-  const lastSessionDate = startOfDay(new Date(dates[dates.length - 1]));
-  const today = startOfDay(new Date());
+  const startDate = keyToDate(dates[0]);
+  const lastSessionDate = keyToDate(dates[dates.length - 1]);
+  const today = keyToDate(practiceDayKey(new Date(), dayBoundary));
   // Always extend to today (or beyond if future sessions exist)
   const endDate = lastSessionDate > today ? lastSessionDate : today;
   
   // Step B & C: Create continuous timeline with zero-filling
   const totalDays = differenceInDays(endDate, startDate) + 1;
-  const dailyData: DailyData[] = [];
+  const dailyData = appendDays([], Array.from({ length: totalDays }, (_, i) => {
+    const date = addDays(startDate, i);
+    return { date, hoursPlayed: dailyHours.get(format(date, 'yyyy-MM-dd')) || 0 };
+  }));
   
-  let cumulativeHours = 0;
+  const totalHours = dailyData[dailyData.length - 1].cumulativeHours;
+  const currentAverage = totalHours / totalDays;
   
-  for (let i = 0; i < totalDays; i++) {
-    const currentDate = addDays(startDate, i);
-    const dateKey = format(currentDate, 'yyyy-MM-dd');
-    const hoursPlayed = dailyHours.get(dateKey) || 0;
-    
+  return {
+    dailyData,
+    totalHours,
+    totalDays,
+    currentAverage,
+    startDate,
+    endDate,
+  };
+}
+
+/**
+ * Continue a daily timeline with the given consecutive days, carrying the cumulative
+ * totals and every average forward. Returns a new array; dailyData is left untouched
+ */
+export function appendDays(dailyData: DailyData[], days: { date: Date; hoursPlayed: number }[]): DailyData[] {
+  const result = [...dailyData];
+  const last = result[result.length - 1];
+  let cumulativeHours = last ? last.cumulativeHours : 0;
+  let ewma = last ? last.ewma : 0;
+
+  for (const { date, hoursPlayed } of days) {
+    const i = result.length;
     cumulativeHours += hoursPlayed;
     const dayNumber = i + 1;
     const cumulativeAverage = cumulativeHours / dayNumber;
-    
-    dailyData.push({
-      date: currentDate,
-      dateStr: dateKey,
+    // Seeded with the first day so early values aren't pulled towards zero
+    ewma = i === 0 ? hoursPlayed : ewma + EWMA_ALPHA * (hoursPlayed - ewma);
+
+    // Trailing window sums come from the cumulative totals of earlier days
+    const rollingAverage = (windowDays: number) => {
+      const windowLength = Math.min(windowDays, dayNumber);
+      const hoursBefore = dayNumber > windowDays ? result[i - windowDays].cumulativeHours : 0;
+      return (cumulativeHours - hoursBefore) / windowLength;
+    };
+
+    result.push({
+      date,
+      dateStr: format(date, 'yyyy-MM-dd'),
       hoursPlayed,
       cumulativeHours,
       cumulativeAverage,
       dayNumber,
+      rolling7: rollingAverage(ROLLING_WINDOWS.rolling7),
+      rolling30: rollingAverage(ROLLING_WINDOWS.rolling30),
+      rolling90: rollingAverage(ROLLING_WINDOWS.rolling90),
+      ewma,
     });
   }
-  
-  const totalHours = cumulativeHours;
-  const currentAverage = totalHours / totalDays;
-  
+
+  return result;
+}
+
+/**
+ * Last day on or before the given practice day key, found by binary search
+ * (dailyData is sorted by day)
+ */
+export function dayOnOrBefore(dailyData: DailyData[], dayKey: string): DailyData | undefined {
+  let low = 0;
+  let high = dailyData.length - 1;
+  let found: DailyData | undefined;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (dailyData[mid].dateStr <= dayKey) {
+      found = dailyData[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Value of the chosen average on a given day
+ */
+export function getMetricValue(data: DailyData, metric: AverageMetric): number {
+  return metric === 'lifetime' ? data.cumulativeAverage : data[metric];
+}
+
+/**
+ * How much one extra hour played on this day raises the chosen average
+ */
+export function getMetricSensitivity(data: DailyData, metric: AverageMetric): number {
+  if (metric === 'lifetime') return 1 / data.dayNumber;
+  if (metric === 'ewma') return data.dayNumber === 1 ? 1 : EWMA_ALPHA;
+  return 1 / Math.min(ROLLING_WINDOWS[metric], data.dayNumber);
+}
+
+/**
+ * Add extra hours (e.g. a running timer) to the given day and every average derived from it
+ */
+export function addHoursToDay(data: DailyData, hours: number): DailyData {
   return {
-    dailyData,
-    totalHours,
-    totalDays,
-    currentAverage,
-    startDate,
-    endDate,
+    ...data,
+    hoursPlayed: data.hoursPlayed + hours,
+    cumulativeHours: data.cumulativeHours + hours,
+    cumulativeAverage: data.cumulativeAverage + hours * getMetricSensitivity(data, 'lifetime'),
+    rolling7: data.rolling7 + hours * getMetricSensitivity(data, 'rolling7'),
+    rolling30: data.rolling30 + hours * getMetricSensitivity(data, 'rolling30'),
+    rolling90: data.rolling90 + hours * getMetricSensitivity(data, 'rolling90'),
+    ewma: data.ewma + hours * getMetricSensitivity(data, 'ewma'),
   };
 }
 
@@ -103,7 +231,8 @@ const VISUAL_START_DATE = new Date('2024-03-01');
 export function filterDataByRange(
   data: DailyData[],
   range: '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX',
-  endDate: Date
+  endDate: Date,
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY
 ): DailyData[] {
   if (data.length === 0) {
     return data;
@@ -111,8 +240,8 @@ export function filterDataByRange(
   
   // 1D is handled separately - return today's data point for baseline
   if (range === '1D') {
-    const today = startOfDay(new Date());
-    return data.filter(d => isSameDay(d.date, today));
+    const todayKey = practiceDayKey(new Date(), dayBoundary);
+    return data.filter(d => d.dateStr === todayKey);
   }
   
   let startDate: Date;
@@ -148,47 +277,456 @@ export function filterDataByRange(
   return data.filter(d => d.date >= effectiveStartDate && d.date <= endDate);
 }
 
+// First and last practice day of a custom range, inclusive (local midnight, like DailyData.date)
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Days of a custom range, the counterpart of filterDataByRange for picked dates
+ */
+export function filterDataByDates(data: DailyData[], range: DateRange): DailyData[] {
+  const startKey = format(range.start, 'yyyy-MM-dd');
+  const endKey = format(range.end, 'yyyy-MM-dd');
+  return data.filter(d => d.dateStr >= startKey && d.dateStr <= endKey);
+}
+
+// Chart points per rendered pixel width; closer points can't be told apart on screen
+const PIXELS_PER_POINT = 2;
+const MIN_CHART_POINTS = 60;
+// Used before a chart has been measured
+const DEFAULT_CHART_POINTS = 100;
+
+/**
+ * How many points a chart of the given width (in pixels) should draw
+ */
+export function chartPointBudget(width: number): number {
+  if (width <= 0) return DEFAULT_CHART_POINTS;
+  return Math.max(MIN_CHART_POINTS, Math.round(width / PIXELS_PER_POINT));
+}
+
+/**
+ * Positions of the points Largest-Triangle-Three-Buckets keeps out of a series: the first and
+ * last point, and from each bucket in between the point that forms the largest triangle with
+ * the previously kept point and the next bucket's average
+ */
+function lttbIndices(x: number[], y: number[], targetPoints: number): number[] {
+  if (x.length <= targetPoints || targetPoints < 3) {
+    return x.map((_, i) => i);
+  }
+
+  const bucketSize = (x.length - 2) / (targetPoints - 2);
+  const result = [0];
+  let previous = 0;
+
+  for (let bucket = 0; bucket < targetPoints - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+
+    // Average of the next bucket; for the last bucket that is the last point
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, x.length);
+    let averageX = 0;
+    let averageY = 0;
+    for (let i = end; i < nextEnd; i++) {
+      averageX += x[i];
+      averageY += y[i];
+    }
+    averageX /= nextEnd - end;
+    averageY /= nextEnd - end;
+
+    let chosen = start;
+    let largestArea = -1;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (x[previous] - averageX) * (y[i] - y[previous]) - (x[previous] - x[i]) * (averageY - y[previous])
+      );
+      if (area > largestArea) {
+        largestArea = area;
+        chosen = i;
+      }
+    }
+
+    result.push(chosen);
+    previous = chosen;
+  }
+
+  result.push(x.length - 1);
+  return result;
+}
+
 /**
- * Downsample data for smoother visualization on longer timeframes
+ * Downsample data for charting with Largest-Triangle-Three-Buckets, so short spikes and dips
+ * in the chosen average survive. A secondary series drawn on the same points (null where it
+ * has no value) is downsampled on its own with half of the budget, and the days either series
+ * keeps are drawn, so its peaks survive too
  */
-export function downsampleData(data: DailyData[], targetPoints: number = 100): DailyData[] {
-  if (data.length <= targetPoints) {
+export function downsampleData<T extends DailyData>(
+  data: T[],
+  targetPoints: number = DEFAULT_CHART_POINTS,
+  metric: AverageMetric = 'lifetime',
+  secondary?: (point: T) => number | null
+): T[] {
+  if (data.length <= targetPoints || targetPoints < 3) {
     return data;
   }
-  
-  const step = Math.ceil(data.length / targetPoints);
-  const result: DailyData[] = [];
-  
-  for (let i = 0; i < data.length; i += step) {
-    // For downsampling, take the last point of each chunk to show accurate average
-    const endIdx = Math.min(i + step - 1, data.length - 1);
-    result.push(data[endIdx]);
+
+  const x = data.map(d => d.date.getTime());
+  const y = data.map(d => getMetricValue(d, metric));
+  const secondaryRows = secondary ? data.flatMap((d, i) => (secondary(d) === null ? [] : [i])) : [];
+  if (secondaryRows.length === 0) {
+    return lttbIndices(x, y, targetPoints).map(i => data[i]);
   }
-  
-  // Always include the last data point
-  if (result[result.length - 1] !== data[data.length - 1]) {
-    result.push(data[data.length - 1]);
+
+  const secondaryPoints = Math.max(3, Math.floor(targetPoints / 2));
+  const kept = new Set(lttbIndices(x, y, Math.max(3, targetPoints - secondaryPoints)));
+  const secondaryKept = lttbIndices(
+    secondaryRows.map(i => x[i]),
+    secondaryRows.map(i => secondary(data[i])),
+    secondaryPoints
+  );
+  for (const position of secondaryKept) kept.add(secondaryRows[position]);
+  return [...kept].sort((a, b) => a - b).map(i => data[i]);
+}
+
+/**
+ * Index of the chart point closest to the given time (points sorted by timestamp)
+ */
+export function nearestPointIndex(points: { timestamp: number }[], timestamp: number): number {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].timestamp < timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
   }
-  
-  return result;
+  if (low > 0 && timestamp - points[low - 1].timestamp < points[low].timestamp - timestamp) {
+    return low - 1;
+  }
+  return low;
 }
 
 /**
  * Calculate delta between two points
  */
-export function calculateDelta(data: DailyData[]): { value: number; percentage: number } {
+export function calculateDelta(
+  data: DailyData[],
+  metric: AverageMetric = 'lifetime'
+): { value: number; percentage: number } {
   if (data.length < 2) {
     return { value: 0, percentage: 0 };
   }
   
-  const first = data[0].cumulativeAverage;
-  const last = data[data.length - 1].cumulativeAverage;
+  const first = getMetricValue(data[0], metric);
+  const last = getMetricValue(data[data.length - 1], metric);
   const value = last - first;
   const percentage = first !== 0 ? ((last - first) / first) * 100 : 0;
   
   return { value, percentage };
 }
 
+export interface ConsistencyStats {
+  minimumMinutes: number;
+  // Days in a row at or above the minimum, ending today (or yesterday while today is still short)
+  currentStreak: number;
+  currentStreakStart: Date | null;
+  longestStreak: number;
+  longestStreakStart: Date | null;
+  longestStreakEnd: Date | null;
+  // Days without any practice per calendar month, oldest first
+  zeroDaysByMonth: { month: string; monthStart: Date; zeroDays: number; days: number }[];
+  // Share of the last CONSISTENCY_WINDOW_DAYS days that reached the minimum, 0–100
+  consistencyScore: number;
+  qualifyingDaysInWindow: number;
+  windowDays: number;
+}
+
+export const DEFAULT_STREAK_MINIMUM_MINUTES = 15;
+export const CONSISTENCY_WINDOW_DAYS = 90;
+
+/**
+ * Streaks, zero days and consistency score from the zero-filled daily timeline
+ */
+export function calculateConsistency(
+  dailyData: DailyData[],
+  minimumMinutes: number = DEFAULT_STREAK_MINIMUM_MINUTES,
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): ConsistencyStats {
+  // A small epsilon so a session of exactly the minimum counts despite float rounding
+  const minimumHours = minimumMinutes / 60 - 1e-9;
+  const qualifies = (d: DailyData) => d.hoursPlayed > 0 && d.hoursPlayed >= minimumHours;
+
+  let longestStreak = 0;
+  let longestStreakStart: Date | null = null;
+  let longestStreakEnd: Date | null = null;
+  let runLength = 0;
+  let runStart: Date | null = null;
+  const months = new Map<string, { month: string; monthStart: Date; zeroDays: number; days: number }>();
+
+  for (const day of dailyData) {
+    if (qualifies(day)) {
+      if (runLength === 0) runStart = day.date;
+      runLength += 1;
+      if (runLength > longestStreak) {
+        longestStreak = runLength;
+        longestStreakStart = runStart;
+        longestStreakEnd = day.date;
+      }
+    } else {
+      runLength = 0;
+    }
+
+    const monthKey = day.dateStr.slice(0, 7);
+    const month = months.get(monthKey) ?? {
+      month: monthKey,
+      monthStart: new Date(day.date.getFullYear(), day.date.getMonth(), 1),
+      zeroDays: 0,
+      days: 0,
+    };
+    month.days += 1;
+    if (day.hoursPlayed === 0) month.zeroDays += 1;
+    months.set(monthKey, month);
+  }
+
+  // Today is still in progress, so a short today doesn't end the streak yet
+  let end = dailyData.length - 1;
+  if (end >= 0 && dailyData[end].dateStr === practiceDayKey(new Date(), dayBoundary) && !qualifies(dailyData[end])) {
+    end -= 1;
+  }
+  let currentStreak = 0;
+  while (end - currentStreak >= 0 && qualifies(dailyData[end - currentStreak])) {
+    currentStreak += 1;
+  }
+
+  const recentDays = dailyData.slice(-CONSISTENCY_WINDOW_DAYS);
+  const qualifyingDaysInWindow = recentDays.filter(qualifies).length;
+
+  return {
+    minimumMinutes,
+    currentStreak,
+    currentStreakStart: currentStreak > 0 ? dailyData[end - currentStreak + 1].date : null,
+    longestStreak,
+    longestStreakStart,
+    longestStreakEnd,
+    zeroDaysByMonth: Array.from(months.values()),
+    consistencyScore: recentDays.length > 0 ? (qualifyingDaysInWindow / recentDays.length) * 100 : 0,
+    qualifyingDaysInWindow,
+    windowDays: recentDays.length,
+  };
+}
+
+export interface TimeDistribution {
+  // Hours per weekday (0 = Monday) of the practice day and hour of day in the home zone
+  grid: number[][];
+  byHour: number[];
+  byWeekday: number[];
+  totalHours: number;
+}
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Split practice time into hour-of-day and weekday buckets. Sessions crossing an hour
+ * (or midnight) contribute to every hour they cover; only the part inside
+ * [rangeStart, rangeEnd) is counted when a range is given. Hours are read on the home-zone
+ * clock and weekdays follow the practice day, so practice before the day start counts
+ * towards the day before
+ */
+export function calculateTimeDistribution(
+  sessions: PracticeSession[],
+  rangeStart: Date | null = null,
+  rangeEnd: Date | null = null,
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): TimeDistribution {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const byHour = new Array<number>(24).fill(0);
+  const byWeekday = new Array<number>(7).fill(0);
+  let totalHours = 0;
+
+  for (const session of sessions) {
+    let cursor = rangeStart && session.startTime < rangeStart ? rangeStart : session.startTime;
+    const end = rangeEnd && session.endTime > rangeEnd ? rangeEnd : session.endTime;
+
+    while (cursor < end) {
+      const hourEnd = addHours(zonedHourStart(cursor, dayBoundary), 1);
+      const next = hourEnd < end ? hourEnd : end;
+      const hours = (next.getTime() - cursor.getTime()) / 3600000;
+      const weekday = (keyToDate(practiceDayKey(cursor, dayBoundary)).getDay() + 6) % 7;
+      const hour = zonedHour(cursor, dayBoundary);
+
+      grid[weekday][hour] += hours;
+      byHour[hour] += hours;
+      byWeekday[weekday] += hours;
+      totalHours += hours;
+      cursor = next;
+    }
+  }
+
+  return { grid, byHour, byWeekday, totalHours };
+}
+
+export interface PeriodSummary {
+  // First and last day of the period, inclusive
+  start: Date;
+  end: Date;
+  // The period's days re-accumulated from its first day, so every average covers only this period
+  timeline: DailyData[];
+  days: number;
+  totalHours: number;
+  activeDays: number;
+  averagePerDay: number;
+  longestStreak: number;
+  distribution: TimeDistribution;
+}
+
+/**
+ * Totals, streaks and time distribution of one period, for setting two periods side by side.
+ * Days before the first session or after today are not counted
+ */
+export function summarizePeriod(
+  dailyData: DailyData[],
+  sessions: PracticeSession[],
+  start: Date,
+  end: Date,
+  minimumMinutes: number = DEFAULT_STREAK_MINIMUM_MINUTES,
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): PeriodSummary {
+  const startKey = format(start, 'yyyy-MM-dd');
+  const endKey = format(end, 'yyyy-MM-dd');
+  const timeline = appendDays([], dailyData
+    .filter(d => d.dateStr >= startKey && d.dateStr <= endKey)
+    .map(d => ({ date: d.date, hoursPlayed: d.hoursPlayed })));
+  const totalHours = timeline.length > 0 ? timeline[timeline.length - 1].cumulativeHours : 0;
+
+  return {
+    start,
+    end,
+    timeline,
+    days: timeline.length,
+    totalHours,
+    activeDays: timeline.filter(d => d.hoursPlayed > 0).length,
+    averagePerDay: timeline.length > 0 ? totalHours / timeline.length : 0,
+    longestStreak: calculateConsistency(timeline, minimumMinutes, dayBoundary).longestStreak,
+    distribution: calculateTimeDistribution(
+      sessions,
+      practiceDayStart(startKey, dayBoundary),
+      practiceDayStart(nextDayKey(endKey), dayBoundary),
+      dayBoundary
+    ),
+  };
+}
+
+export interface SessionStats {
+  sessionCount: number;
+  // Days covered by the range (from the first session for ALL/MAX)
+  days: number;
+  sessionsPerDay: number;
+  medianMinutes: number;
+  meanMinutes: number;
+  p90Minutes: number;
+  longestSession: PracticeSession | null;
+  // Share of practice time spent in sessions shorter than SHORT_SESSION_MINUTES, 0–100
+  shortSessionShare: number;
+  histogram: { label: string; minMinutes: number; count: number; hours: number }[];
+}
+
+export const SHORT_SESSION_MINUTES = 10;
+
+// Lower bounds in minutes of the session length histogram buckets
+const SESSION_LENGTH_BUCKETS = [0, 5, 10, 20, 30, 45, 60, 90, 120];
+
+function bucketLabel(index: number): string {
+  const min = SESSION_LENGTH_BUCKETS[index];
+  const max = SESSION_LENGTH_BUCKETS[index + 1];
+  const fmt = (minutes: number) => (minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`);
+  if (max === undefined) return `${fmt(min)}+`;
+  return min === 0 ? `<${fmt(max)}` : `${fmt(min)}–${fmt(max)}`;
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Session-level statistics for sessions starting within the time range ending at endDate.
+ * 1D is the current practice day and days are counted in practice days
+ */
+export function calculateSessionStats(
+  sessions: PracticeSession[],
+  range: '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX',
+  endDate: Date = new Date(),
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): SessionStats {
+  const endKey = practiceDayKey(endDate, dayBoundary);
+  let startDate: Date | null;
+  switch (range) {
+    case '1D':
+      startDate = practiceDayStart(endKey, dayBoundary);
+      break;
+    case '1W':
+      startDate = subDays(endDate, 7);
+      break;
+    case '1M':
+      startDate = subMonths(endDate, 1);
+      break;
+    case '6M':
+      startDate = subMonths(endDate, 6);
+      break;
+    case '1Y':
+      startDate = subYears(endDate, 1);
+      break;
+    default:
+      startDate = null;
+  }
+
+  const inRange = sessions.filter(s => (!startDate || s.startTime >= startDate) && s.startTime <= endDate);
+  const minutes = inRange.map(s => s.durationInHours * 60).sort((a, b) => a - b);
+  const totalMinutes = minutes.reduce((sum, m) => sum + m, 0);
+
+  const firstDay = startDate ?? (inRange.length > 0
+    ? inRange.reduce((first, s) => (s.startTime < first ? s.startTime : first), inRange[0].startTime)
+    : endDate);
+  const days = differenceInDays(keyToDate(endKey), keyToDate(practiceDayKey(firstDay, dayBoundary))) + 1;
+
+  const histogram = SESSION_LENGTH_BUCKETS.map((minMinutes, index) => ({
+    label: bucketLabel(index),
+    minMinutes,
+    count: 0,
+    hours: 0,
+  }));
+  for (const m of minutes) {
+    let index = SESSION_LENGTH_BUCKETS.length - 1;
+    while (index > 0 && m < SESSION_LENGTH_BUCKETS[index]) index -= 1;
+    histogram[index].count += 1;
+    histogram[index].hours += m / 60;
+  }
+
+  const middle = Math.floor(minutes.length / 2);
+  const shortMinutes = minutes.filter(m => m < SHORT_SESSION_MINUTES).reduce((sum, m) => sum + m, 0);
+
+  return {
+    sessionCount: inRange.length,
+    days,
+    sessionsPerDay: days > 0 ? inRange.length / days : 0,
+    medianMinutes: minutes.length === 0
+      ? 0
+      : minutes.length % 2 === 1 ? minutes[middle] : (minutes[middle - 1] + minutes[middle]) / 2,
+    meanMinutes: minutes.length > 0 ? totalMinutes / minutes.length : 0,
+    p90Minutes: percentile(minutes, 90),
+    longestSession: inRange.reduce<PracticeSession | null>(
+      (longest, s) => (!longest || s.durationInHours > longest.durationInHours ? s : longest),
+      null
+    ),
+    shortSessionShare: totalMinutes > 0 ? (shortMinutes / totalMinutes) * 100 : 0,
+    histogram,
+  };
+}
+
 /**
  * Format hours as "Xh Ym" string
  */
@@ -230,26 +768,27 @@ export function formatDelta(hours: number): string {
  * 
  * Logic:
  * - Baseline: Yesterday's final average (horizontal dashed line)
- * - Starting Point (00:00): Total Previous Playtime / (Total Previous Days + 1)
+ * - Starting Point (day start): Total Previous Playtime / (Total Previous Days + 1)
  * - Idle Periods: Horizontal plateaus (no decay)
  * - Practice Sessions: Linear upward slopes
  * - Post-Practice: New horizontal plateau at higher value
+ *
+ * dayKey picks the practice day to replay (today by default) against the day before it.
+ * Sessions count towards it the same way calculateAnalytics does
  */
 export function calculateIntradayData(
   dailyData: DailyData[],
-  sessions: { started_at: string; duration_seconds: number }[]
+  sessions: { started_at: string; duration_seconds: number }[],
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY,
+  dayKey: string = practiceDayKey(new Date(), dayBoundary)
 ): { intradayData: IntradayData[]; baselineAverage: number } {
-  const today = startOfDay(new Date());
   const now = new Date();
-  const currentHour = now.getHours();
-  
-  // Get yesterday's cumulative data (baseline for today)
-  const yesterdayData = dailyData.find(d => 
-    isSameDay(d.date, subDays(today, 1))
-  );
+  const dayStart = practiceDayStart(dayKey, dayBoundary);
+  const dayEnd = practiceDayStart(nextDayKey(dayKey), dayBoundary);
+  const isToday = now >= dayStart && now < dayEnd;
   
-  // If no yesterday data, use the last available data point before today
-  const baselineData = yesterdayData || dailyData.filter(d => d.date < today).pop();
+  // The last day before this one (the day before, unless the timeline has a gap) is the baseline
+  const baselineData = dailyData.filter(d => d.dateStr < dayKey).pop();
   
   if (!baselineData) {
     return { intradayData: [], baselineAverage: 0 };
@@ -260,48 +799,49 @@ export function calculateIntradayData(
   const baselineHours = baselineData.cumulativeHours;
   const baselineDays = baselineData.dayNumber;
   
-  // Today is day (baselineDays + 1)
-  const todayDayNumber = baselineDays + 1;
+  // The replayed day is day (baselineDays + 1)
+  const replayDayNumber = baselineDays + 1;
   
-  // Get today's sessions
-  const todaySessions = sessions
-    .filter(s => {
-      const sessionDate = new Date(s.started_at);
-      return isSameDay(sessionDate, today);
-    })
+  // Get the day's sessions; split sessions are clipped to the day, others count from their start
+  const daySessions = sessions
     .map(s => ({
       startTime: new Date(s.started_at),
       endTime: new Date(new Date(s.started_at).getTime() + s.duration_seconds * 1000),
-      durationHours: s.duration_seconds / 3600,
     }))
+    .filter(s => isOnPracticeDay(s.startTime, s.endTime, dayKey, dayBoundary))
+    .map(s => {
+      const startTime = dayBoundary.splitSessions && s.startTime < dayStart ? dayStart : s.startTime;
+      const endTime = dayBoundary.splitSessions && s.endTime > dayEnd ? dayEnd : s.endTime;
+      return { startTime, endTime, durationHours: (endTime.getTime() - startTime.getTime()) / 3600000 };
+    })
     .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
   
   // Generate data points - we need points at session boundaries for accurate slopes
   const intradayData: IntradayData[] = [];
-  let cumulativeTodayHours = 0;
   
-  // Calculate average: (baselineHours + todayHours) / todayDayNumber
-  const calcAverage = (todayHours: number) => 
-    (baselineHours + todayHours) / todayDayNumber;
+  // Calculate average: (baselineHours + dayHours) / replayDayNumber
+  const calcAverage = (dayHours: number) => 
+    (baselineHours + dayHours) / replayDayNumber;
   
-  // Only show up to current hour (or all 24 if viewing historical day)
-  const maxHour = isToday(today) ? currentHour : 23;
+  // Today only runs up to the current hour; a past day covers all of its hours
+  const lastHourStart = isToday
+    ? addHours(dayStart, Math.floor((now.getTime() - dayStart.getTime()) / 3600000))
+    : addHours(dayEnd, -1);
   
   // Create a set of important time points (hour boundaries + session boundaries)
   const timePoints: Date[] = [];
   
   // Add hourly points
-  for (let hour = 0; hour <= maxHour; hour++) {
-    timePoints.push(addHours(today, hour));
+  for (let time = dayStart; time <= lastHourStart; time = addHours(time, 1)) {
+    timePoints.push(time);
   }
   
   // Add session start and end points (if within our time range)
-  for (const session of todaySessions) {
-    if (session.startTime.getHours() <= maxHour) {
+  for (const session of daySessions) {
+    if (session.startTime < addHours(lastHourStart, 1)) {
       timePoints.push(session.startTime);
     }
-    if (session.endTime.getHours() <= maxHour || 
-        (session.endTime.getHours() === maxHour && session.endTime.getMinutes() === 0)) {
+    if (session.endTime <= addHours(lastHourStart, 1)) {
       timePoints.push(session.endTime);
     }
   }
@@ -313,14 +853,11 @@ export function calculateIntradayData(
   
   // Process each time point
   for (const time of sortedTimePoints) {
-    const hour = time.getHours();
-    const minute = time.getMinutes();
-    
     // Calculate cumulative hours at this exact moment
     let hoursAtThisPoint = 0;
     let hoursPlayedThisInterval = 0;
     
-    for (const session of todaySessions) {
+    for (const session of daySessions) {
       if (time >= session.endTime) {
         // Session fully completed before this point
         hoursAtThisPoint += session.durationHours;
@@ -341,12 +878,12 @@ export function calculateIntradayData(
     
     intradayData.push({
       time,
-      timeStr: format(time, 'HH:mm'),
-      hourOfDay: hour,
+      timeStr: formatZonedTime(time, dayBoundary),
+      hourOfDay: zonedHour(time, dayBoundary),
       cumulativeAverage,
       hoursPlayedThisInterval,
       cumulativeTodayHours: hoursAtThisPoint,
-      isCurrentHour: hour === currentHour && isToday(today),
+      isCurrentHour: isToday && time >= lastHourStart,
     });
   }
   
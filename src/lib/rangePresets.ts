@@ -0,0 +1,65 @@
+import { format, subDays } from 'date-fns';
+import { DayBoundary, DEFAULT_DAY_BOUNDARY, keyToDate, practiceDayKey } from './dayBoundary';
+import { DateRange } from './practiceAnalytics';
+
+export interface RangePreset {
+  key: string;
+  label: string;
+  range: DateRange;
+}
+
+interface MilestoneDate {
+  id: number;
+  achieved_at: string | null;
+  description: string | null;
+  milestone_type: string | null;
+}
+
+export function formatDateRange(range: DateRange): string {
+  return `${format(range.start, 'd MMM yyyy')} – ${format(range.end, 'd MMM yyyy')}`;
+}
+
+// Yearly anniversary markers are custom milestones described "Y1", "Y2", ...
+const YEAR_MARKER = /^Y(\d+)$/;
+
+/**
+ * Custom ranges derived from milestone dates: "Year N" between the yearly markers and
+ * "Since …" for every custom milestone, most recent first
+ */
+export function milestoneRangePresets(
+  milestones: MilestoneDate[],
+  firstDay: Date,
+  today: Date,
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): RangePreset[] {
+  const dated = milestones
+    .filter(m => m.achieved_at && m.milestone_type === 'custom')
+    .map(m => ({ ...m, day: keyToDate(practiceDayKey(new Date(m.achieved_at!), dayBoundary)) }))
+    .filter(m => m.day <= today);
+
+  const yearMarkers = dated
+    .map(m => ({ year: Number(YEAR_MARKER.exec(m.description ?? '')?.[1] ?? NaN), day: m.day }))
+    .filter(m => Number.isInteger(m.year))
+    .sort((a, b) => a.year - b.year);
+
+  // Year N runs from the marker of year N-1 up to the day before marker N (or today)
+  const years: RangePreset[] = [];
+  let yearStart = firstDay;
+  for (const marker of yearMarkers) {
+    if (marker.day > yearStart) {
+      years.push({ key: `year-${marker.year}`, label: `Year ${marker.year}`, range: { start: yearStart, end: subDays(marker.day, 1) } });
+      yearStart = marker.day;
+    }
+  }
+  if (yearMarkers.length > 0) {
+    const current = yearMarkers[yearMarkers.length - 1].year + 1;
+    years.push({ key: `year-${current}`, label: `Year ${current}`, range: { start: yearStart, end: today } });
+  }
+
+  const since = dated
+    .filter(m => m.description && !YEAR_MARKER.test(m.description) && m.day >= firstDay)
+    .sort((a, b) => b.day.getTime() - a.day.getTime())
+    .map(m => ({ key: `since-${m.id}`, label: `Since ${m.description}`, range: { start: m.day, end: today } }));
+
+  return [...since, ...years.reverse()];
+}
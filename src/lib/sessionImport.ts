@@ -0,0 +1,128 @@
+import { PracticeSession } from './csvParser';
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'overlap' | 'invalid';
+
+export interface ImportRow {
+  startedAt: Date;
+  durationSeconds: number;
+  status: ImportRowStatus;
+  reason?: string;
+}
+
+export interface ImportSummary {
+  total: number;
+  newCount: number;
+  duplicateCount: number;
+  overlapCount: number;
+  invalidCount: number;
+  newHours: number;
+  firstDate: Date | null;
+  lastDate: Date | null;
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  summary: ImportSummary;
+}
+
+interface ExistingSession {
+  started_at: string;
+  duration_seconds: number;
+}
+
+// Two sessions starting within this window are treated as the same session
+const DUPLICATE_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * Classify parsed sessions against the sessions already stored.
+ *
+ * - duplicate: an existing (or earlier imported) session starts within a minute
+ * - overlap: the time range intersects an existing session
+ * - invalid: non-positive or longer than 24h
+ */
+export function planImport(parsed: PracticeSession[], existing: ExistingSession[]): ImportPlan {
+  const ranges = existing
+    .map(s => {
+      const startMs = new Date(s.started_at).getTime();
+      return { startMs, endMs: startMs + s.duration_seconds * 1000 };
+    })
+    .sort((a, b) => a.startMs - b.startMs);
+
+  const findConflict = (startMs: number, endMs: number): 'duplicate' | 'overlap' | null => {
+    // Binary search for the first range that could end after startMs
+    let lo = 0;
+    let hi = ranges.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (ranges[mid].startMs < startMs - 24 * 3600 * 1000) lo = mid + 1;
+      else hi = mid;
+    }
+    let conflict: 'duplicate' | 'overlap' | null = null;
+    for (let i = lo; i < ranges.length && ranges[i].startMs < endMs + DUPLICATE_TOLERANCE_MS; i++) {
+      const range = ranges[i];
+      if (Math.abs(range.startMs - startMs) <= DUPLICATE_TOLERANCE_MS) return 'duplicate';
+      if (range.startMs < endMs && range.endMs > startMs) conflict = 'overlap';
+    }
+    return conflict;
+  };
+
+  const sorted = [...parsed].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const rows: ImportRow[] = [];
+  // Sessions accepted from this file, so rows overlapping inside the file are caught too
+  const accepted: { startMs: number; endMs: number }[] = [];
+  // Start of the last row kept or flagged as overlapping, so a repeated row is a duplicate either way
+  let lastStartMs: number | null = null;
+
+  for (const session of sorted) {
+    const durationSeconds = Math.round(session.durationInHours * 3600);
+    const startMs = session.startTime.getTime();
+    const endMs = startMs + durationSeconds * 1000;
+
+    if (durationSeconds <= 0 || durationSeconds > 24 * 3600) {
+      rows.push({ startedAt: session.startTime, durationSeconds, status: 'invalid', reason: 'Duration out of range' });
+      continue;
+    }
+
+    const conflict = findConflict(startMs, endMs);
+    if (conflict === 'duplicate') {
+      rows.push({ startedAt: session.startTime, durationSeconds, status: 'duplicate', reason: 'Already stored' });
+      continue;
+    }
+
+    if (lastStartMs !== null && startMs - lastStartMs <= DUPLICATE_TOLERANCE_MS) {
+      rows.push({ startedAt: session.startTime, durationSeconds, status: 'duplicate', reason: 'Repeated in file' });
+      continue;
+    }
+    lastStartMs = startMs;
+
+    const previous = accepted[accepted.length - 1];
+    if (conflict === 'overlap') {
+      rows.push({ startedAt: session.startTime, durationSeconds, status: 'overlap', reason: 'Overlaps a stored session' });
+      continue;
+    }
+
+    if (previous && previous.endMs > startMs) {
+      rows.push({ startedAt: session.startTime, durationSeconds, status: 'overlap', reason: 'Overlaps another row' });
+      continue;
+    }
+
+    accepted.push({ startMs, endMs });
+    rows.push({ startedAt: session.startTime, durationSeconds, status: 'new' });
+  }
+
+  const newRows = rows.filter(r => r.status === 'new');
+
+  return {
+    rows,
+    summary: {
+      total: rows.length,
+      newCount: newRows.length,
+      duplicateCount: rows.filter(r => r.status === 'duplicate').length,
+      overlapCount: rows.filter(r => r.status === 'overlap').length,
+      invalidCount: rows.filter(r => r.status === 'invalid').length,
+      newHours: newRows.reduce((sum, r) => sum + r.durationSeconds / 3600, 0),
+      firstDate: rows.length > 0 ? rows[0].startedAt : null,
+      lastDate: rows.length > 0 ? rows[rows.length - 1].startedAt : null,
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { addDays, format } from 'date-fns';
+import { appendDays, DailyData } from './practiceAnalytics';
+
+export interface ScenarioBreak {
+  // Inclusive yyyy-MM-dd dates without practice
+  start: string;
+  end: string;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  // Planned hours per weekday, 0 = Monday
+  weekdayHours: number[];
+  breaks: ScenarioBreak[];
+}
+
+// Milestone dates further out than this are reported as unreachable
+const MAX_SIMULATION_DAYS = 365 * 100;
+
+export function createScenario(name: string, hoursPerDay: number): Scenario {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    weekdayHours: new Array<number>(7).fill(hoursPerDay),
+    breaks: [],
+  };
+}
+
+function plannedHours(scenario: Scenario, date: Date): number {
+  const dateStr = format(date, 'yyyy-MM-dd');
+  if (scenario.breaks.some(b => b.start && b.end && dateStr >= b.start && dateStr <= b.end)) return 0;
+  return Math.max(0, scenario.weekdayHours[(date.getDay() + 6) % 7] || 0);
+}
+
+/**
+ * The history followed by horizonDays days practised as the scenario plans,
+ * starting the day after the last recorded day
+ */
+export function simulateScenario(history: DailyData[], scenario: Scenario, horizonDays: number): DailyData[] {
+  if (history.length === 0) return history;
+  const lastDate = history[history.length - 1].date;
+  return appendDays(history, Array.from({ length: horizonDays }, (_, i) => {
+    const date = addDays(lastDate, i + 1);
+    return { date, hoursPlayed: plannedHours(scenario, date) };
+  }));
+}
+
+/**
+ * Day the scenario reaches targetHours, or null when it never does
+ */
+export function scenarioMilestoneDate(history: DailyData[], scenario: Scenario, targetHours: number): Date | null {
+  if (history.length === 0) return null;
+  const last = history[history.length - 1];
+  let remaining = targetHours - last.cumulativeHours;
+  if (remaining <= 0) return null;
+
+  // Walk day by day until the last break is over, then the plan repeats every week
+  const lastBreak = scenario.breaks.reduce((latest, b) => (b.end > latest ? b.end : latest), '');
+  let day = 1;
+  for (; day <= MAX_SIMULATION_DAYS; day++) {
+    const date = addDays(last.date, day);
+    remaining -= plannedHours(scenario, date);
+    if (remaining <= 0) return date;
+    if (day >= 7 && format(date, 'yyyy-MM-dd') > lastBreak) break;
+  }
+
+  const weeklyHours = scenario.weekdayHours.reduce((sum, h) => sum + Math.max(0, h || 0), 0);
+  if (weeklyHours <= 0) return null;
+
+  // Whole weeks first, then the remaining days one by one
+  const weeks = Math.floor(remaining / weeklyHours);
+  remaining -= weeks * weeklyHours;
+  day += weeks * 7;
+  if (day > MAX_SIMULATION_DAYS) return null;
+  while (remaining > 0) {
+    day += 1;
+    remaining -= plannedHours(scenario, addDays(last.date, day));
+  }
+  return addDays(last.date, day);
+}
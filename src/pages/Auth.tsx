@@ -0,0 +1,103 @@
+import { useState, FormEvent } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+const Auth = () => {
+  const { session, signIn, signUp } = useAuth();
+  const { toast } = useToast();
+  const location = useLocation();
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (session) {
+    const from = (location.state as { from?: string } | null)?.from ?? '/';
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      if (mode === 'signIn') {
+        await signIn(email.trim(), password);
+      } else {
+        const { needsConfirmation } = await signUp(email.trim(), password);
+        if (needsConfirmation) {
+          toast({
+            title: 'Check your inbox',
+            description: 'Confirm your email address, then sign in.',
+          });
+          setMode('signIn');
+        }
+      }
+    } catch (error) {
+      console.error('[Auth] Error:', error);
+      toast({
+        title: mode === 'signIn' ? 'Sign in failed' : 'Sign up failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-lg">{mode === 'signIn' ? 'Sign in' : 'Create account'}</CardTitle>
+          <CardDescription>
+            Each account keeps its own practice sessions, milestones and repertoire
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="auth-email">Email</Label>
+              <Input
+                id="auth-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auth-password">Password</Label>
+              <Input
+                id="auth-password"
+                type="password"
+                autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                minLength={6}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? 'Please wait...' : mode === 'signIn' ? 'Sign in' : 'Sign up'}
+            </Button>
+          </form>
+          <Button
+            variant="link"
+            className="w-full mt-2 text-muted-foreground"
+            onClick={() => setMode(prev => (prev === 'signIn' ? 'signUp' : 'signIn'))}
+          >
+            {mode === 'signIn' ? 'No account yet? Sign up' : 'Already have an account? Sign in'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
@@ -5,12 +5,15 @@ import { TimeRangeSelector } from '@/components/TimeRangeSelector';
 import { PracticeChart } from '@/components/PracticeChart';
 import { IntradayChart } from '@/components/IntradayChart';
 import { StatsFooter } from '@/components/StatsFooter';
-import { parseCSV, PracticeSession } from '@/lib/csvParser';
-import { calculateAnalytics, filterDataByRange, downsampleData, calculateDelta, calculateIntradayData, AnalyticsResult, DailyData, IntradayData } from '@/lib/practiceAnalytics';
-import { format, startOfDay } from 'date-fns';
+import { filterDataByRange, calculateDelta, calculateIntradayData, dayOnOrBefore, AnalyticsResult, DailyData, IntradayData } from '@/lib/practiceAnalytics';
+import { nextDayKey, practiceDayKey, practiceDayStart } from '@/lib/dayBoundary';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { fetchSessionRowsBetween, loadDailyAnalytics, SessionRow } from '@/hooks/usePracticeSessions';
+import { startOfDay } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
 import { useMilestones } from '@/hooks/useMilestones';
+import { PREFERENCE_KEYS, usePreference } from '@/hooks/usePreference';
+import { buildForecast, DEFAULT_FORECAST_MODEL, ForecastModel } from '@/lib/forecast';
 import { useCalendarSync } from '@/hooks/useCalendarSync';
 import { RefreshCw, Settings } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -18,33 +21,25 @@ import { Link } from 'react-router-dom';
 import { APP_VERSION } from '@/lib/version';
 type TimeRange = '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX';
 
-interface RawSession {
-  started_at: string;
-  duration_seconds: number;
-}
-
 export function Dashboard() {
   const [analytics, setAnalytics] = useState<AnalyticsResult | null>(null);
-  const [rawSessions, setRawSessions] = useState<RawSession[]>([]);
+  const [rawSessions, setRawSessions] = useState<SessionRow[]>([]);
   const [timeRange, setTimeRange] = useState<TimeRange>('1M');
   const [isLoading, setIsLoading] = useState(true);
   const [hoveredData, setHoveredData] = useState<DailyData | null>(null);
   const [hoveredIntradayData, setHoveredIntradayData] = useState<IntradayData | null>(null);
   const { toast } = useToast();
   const { milestones, isLoading: milestonesLoading } = useMilestones();
+  const [forecastModel] = usePreference<ForecastModel>(PREFERENCE_KEYS.forecastModel, DEFAULT_FORECAST_MODEL);
   const { syncState, syncCalendar, isSyncing } = useCalendarSync();
+  const [dayBoundary] = useDayBoundary();
 
   const timelineMilestones = useMemo(() => {
     if (!analytics) return milestones;
 
     const getCumulativeAt = (target: Date) => {
-      const key = format(startOfDay(target), 'yyyy-MM-dd');
-      const exact = analytics.dailyData.find(d => d.dateStr === key);
-      if (exact) return exact.cumulativeHours;
-      if (target < analytics.startDate) return 0;
-      if (target > analytics.endDate) return analytics.totalHours;
-      const fallback = [...analytics.dailyData].reverse().find(d => d.date <= target);
-      return fallback ? fallback.cumulativeHours : 0;
+      const day = dayOnOrBefore(analytics.dailyData, practiceDayKey(target, dayBoundary));
+      return day ? day.cumulativeHours : 0;
     };
 
     const y1Date = new Date('2025-02-01T00:00:00');
@@ -66,53 +61,25 @@ export function Dashboard() {
     }
 
     return [...milestones, ...synthetic].sort((a, b) => a.hours - b.hours);
-  }, [analytics, milestones]);
+  }, [analytics, milestones, dayBoundary]);
 
-  // Fetch all data from Supabase (paginated)
+  // Fetch the daily totals from Supabase
   const fetchData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const allData: any[] = [];
-      let from = 0;
-      const pageSize = 1000;
-      let data;
-
-      do {
-        const { data: pageData, error } = await supabase
-          .from('practice_sessions')
-          .select('*')
-          .order('started_at', { ascending: true })
-          .range(from, from + pageSize - 1);
-        
-        if (error) throw error;
-        data = pageData;
-        if (data && data.length > 0) {
-          allData.push(...data);
-        }
-        from += pageSize;
-      } while (data && data.length === pageSize);
-
-      if (allData.length === 0) {
+      const result = await loadDailyAnalytics(dayBoundary);
+      if (!result) {
         setAnalytics(null);
         setRawSessions([]);
         return;
       }
 
-      // Store raw sessions for intraday calculation
-      setRawSessions(allData.map(row => ({
-        started_at: row.started_at,
-        duration_seconds: row.duration_seconds,
-      })));
-
-      const sessions: PracticeSession[] = allData.map(row => ({
-        taskName: 'Practice',
-        startTime: new Date(row.started_at),
-        endTime: new Date(new Date(row.started_at).getTime() + row.duration_seconds * 1000),
-        duration: '',
-        durationInHours: row.duration_seconds / 3600,
-      }));
-
-      const result = calculateAnalytics(sessions);
+      // Raw sessions are only needed for today's intraday calculation
+      const todayKey = practiceDayKey(new Date(), dayBoundary);
+      setRawSessions(await fetchSessionRowsBetween(
+        practiceDayStart(todayKey, dayBoundary),
+        practiceDayStart(nextDayKey(todayKey), dayBoundary)
+      ));
       setAnalytics(result);
     } catch (error) {
       toast({
@@ -123,7 +90,7 @@ export function Dashboard() {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [toast, dayBoundary]);
 
   useEffect(() => {
     fetchData();
@@ -156,7 +123,7 @@ export function Dashboard() {
     
     // For 1D view, calculate intraday data with plateau-slope model
     if (timeRange === '1D') {
-      const { intradayData: intraday, baselineAverage: baseline } = calculateIntradayData(analytics.dailyData, rawSessions);
+      const { intradayData: intraday, baselineAverage: baseline } = calculateIntradayData(analytics.dailyData, rawSessions, dayBoundary);
       // Delta is the difference between current average and yesterday's baseline
       const currentAvg = intraday.length > 0 ? intraday[intraday.length - 1].cumulativeAverage : analytics.currentAverage;
       const intradayDelta = currentAvg - baseline;
@@ -168,13 +135,10 @@ export function Dashboard() {
       };
     }
     
-    let data = filterDataByRange(analytics.dailyData, timeRange, analytics.endDate);
-    if (timeRange === '6M' || timeRange === '1Y' || timeRange === 'ALL') {
-      data = downsampleData(data, 100);
-    }
+    const data = filterDataByRange(analytics.dailyData, timeRange, analytics.endDate, dayBoundary);
     const delta = calculateDelta(data);
     return { filteredData: data, delta, intradayData: [], baselineAverage: 0 };
-  }, [analytics, timeRange, rawSessions]);
+  }, [analytics, timeRange, rawSessions, dayBoundary]);
 
   const handleManualSync = async () => {
     try {
@@ -235,7 +199,7 @@ export function Dashboard() {
             <VerticalTimeline
               milestones={timelineMilestones}
               currentHours={analytics.totalHours}
-              dailyAverage={analytics.currentAverage}
+              forecast={buildForecast(analytics.dailyData, forecastModel)}
               startDate={analytics.startDate}
             />
 
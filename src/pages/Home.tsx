@@ -1,10 +1,14 @@
 import { useState, useCallback } from 'react';
 import { SwipeableLayout } from '@/components/SwipeableLayout';
 import { DailyAverageSection } from '@/components/DailyAverageSection';
+import { GoalRings } from '@/components/GoalRings';
 import { TenKOverview } from '@/components/TenKOverview';
 import { Repertoire } from '@/pages/Repertoire';
 import { useDataSeeding } from '@/hooks/useDataSeeding';
+import { useGoals } from '@/hooks/useGoals';
 import { AnalyticsResult } from '@/lib/practiceAnalytics';
+import { goalMinutesOn } from '@/lib/goals';
+import { keyToDate } from '@/lib/dayBoundary';
 
 // Placeholder for seed data - you'll provide the actual values in the next prompt
 const MILESTONE_SEED_DATA: { hours: number; achieved_at: string | null; average_at_milestone: number | null }[] = [];
@@ -16,6 +20,7 @@ export function Home() {
   const [isRepertoireEditing, setIsRepertoireEditing] = useState(false);
   const [mirrorTimeSeconds, setMirrorTimeSeconds] = useState(0);
   const [currentView, setCurrentView] = useState<'left' | 'right'>('left');
+  const { goals } = useGoals();
 
   // Initialize seeding (runs once if tables are empty)
   useDataSeeding({
@@ -32,10 +37,17 @@ export function Home() {
     setMirrorTimeSeconds(seconds);
   }, []);
 
+  // Today's practice including the running timer against today's daily goal
+  const todayData = analytics ? analytics.dailyData[analytics.dailyData.length - 1] : null;
+  const todayGoalMinutes = todayData ? goalMinutesOn(goals, 'day', keyToDate(todayData.dateStr)) : null;
+  const isDailyGoalReached = todayGoalMinutes !== null && todayData !== null
+    && (todayData.hoursPlayed + mirrorTimeSeconds / 3600) * 60 >= todayGoalMinutes;
+
   // Time view content
   const timeView = (
     <>
       <DailyAverageSection key={refreshKey} onAnalyticsUpdate={setAnalytics} mirrorTimeSeconds={mirrorTimeSeconds} />
+      <GoalRings analytics={analytics} mirrorTimeSeconds={mirrorTimeSeconds} />
       <TenKOverview analytics={analytics} mirrorTimeSeconds={mirrorTimeSeconds} />
     </>
   );
@@ -51,6 +63,7 @@ export function Home() {
       }
       onSync={handleSync}
       onMirrorTimeChange={handleMirrorTimeChange}
+      isDailyGoalReached={isDailyGoalReached}
       isSwipeDisabled={isRepertoireEditing}
       onViewChange={setCurrentView}
     />
@@ -5,78 +5,47 @@ import { TimeRangeSelector } from '@/components/TimeRangeSelector';
 import { PracticeChart } from '@/components/PracticeChart';
 import { IntradayChart } from '@/components/IntradayChart';
 import { StatsFooter } from '@/components/StatsFooter';
-import { parseCSV, PracticeSession } from '@/lib/csvParser';
-import { calculateAnalytics, filterDataByRange, downsampleData, calculateDelta, calculateIntradayData, AnalyticsResult, DailyData, IntradayData } from '@/lib/practiceAnalytics';
+import { parseImportFile } from '@/lib/importers';
+import { calculateAnalytics, filterDataByRange, calculateDelta, calculateIntradayData, AnalyticsResult, DailyData, IntradayData } from '@/lib/practiceAnalytics';
+import { nextDayKey, practiceDayKey, practiceDayStart } from '@/lib/dayBoundary';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { fetchSessionRowsBetween, loadDailyAnalytics, SessionRow } from '@/hooks/usePracticeSessions';
 import { useToast } from '@/hooks/use-toast';
 import { Piano, Settings, RefreshCw } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { supabase } from '@/integrations/supabase/client';
 import { useCalendarSync } from '@/hooks/useCalendarSync';
 import { APP_VERSION } from '@/lib/version';
 type TimeRange = '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL' | 'MAX';
 
-interface RawSession {
-  started_at: string;
-  duration_seconds: number;
-}
-
 const Index = () => {
   const [analytics, setAnalytics] = useState<AnalyticsResult | null>(null);
-  const [rawSessions, setRawSessions] = useState<RawSession[]>([]);
+  const [rawSessions, setRawSessions] = useState<SessionRow[]>([]);
   const [timeRange, setTimeRange] = useState<TimeRange>('1M');
   const [isLoading, setIsLoading] = useState(true);
   const [hoveredData, setHoveredData] = useState<DailyData | null>(null);
   const [hoveredIntradayData, setHoveredIntradayData] = useState<IntradayData | null>(null);
   const { toast } = useToast();
   const { syncState, syncCalendar, isSyncing } = useCalendarSync();
+  const [dayBoundary] = useDayBoundary();
 
-  // Fetch all data from Supabase (paginated to avoid 1000 row limit)
+  // Fetch the daily totals from Supabase
   const fetchData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const allData: typeof data = [];
-      let from = 0;
-      const pageSize = 1000;
-      let data;
-
-      // Paginate through all results
-      do {
-        const {
-          data: pageData,
-          error
-        } = await supabase.from('practice_sessions').select('*').order('started_at', {
-          ascending: true
-        }).range(from, from + pageSize - 1);
-        if (error) throw error;
-        data = pageData;
-        if (data && data.length > 0) {
-          allData.push(...data);
-        }
-        from += pageSize;
-      } while (data && data.length === pageSize);
-      if (allData.length === 0) {
+      const result = await loadDailyAnalytics(dayBoundary);
+      if (!result) {
         setAnalytics(null);
         setRawSessions([]);
         return;
       }
-      console.log(`[Dashboard] Loaded ${allData.length} sessions from database`);
 
-      // Store raw sessions for intraday calculation
-      setRawSessions(allData.map(row => ({
-        started_at: row.started_at,
-        duration_seconds: row.duration_seconds,
-      })));
-
-      // Convert Supabase data to PracticeSession format
-      const sessions: PracticeSession[] = allData.map(row => ({
-        taskName: 'Practice',
-        startTime: new Date(row.started_at),
-        endTime: new Date(new Date(row.started_at).getTime() + row.duration_seconds * 1000),
-        duration: '',
-        durationInHours: row.duration_seconds / 3600
-      }));
-      const result = calculateAnalytics(sessions);
+      // Raw sessions are only needed for today's intraday calculation
+      const todayKey = practiceDayKey(new Date(), dayBoundary);
+      setRawSessions(await fetchSessionRowsBetween(
+        practiceDayStart(todayKey, dayBoundary),
+        practiceDayStart(nextDayKey(todayKey), dayBoundary)
+      ));
       setAnalytics(result);
     } catch (error) {
       toast({
@@ -87,7 +56,7 @@ const Index = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [toast, dayBoundary]);
 
   // Load data on mount and after calendar sync
   useEffect(() => {
@@ -119,11 +88,11 @@ const Index = () => {
   const handleFileLoad = useCallback((content: string) => {
     setIsLoading(true);
     try {
-      const sessions = parseCSV(content);
+      const { sessions } = parseImportFile(content, undefined, dayBoundary.timeZone);
       if (sessions.length === 0) {
         throw new Error('No valid practice sessions found in the file');
       }
-      const result = calculateAnalytics(sessions);
+      const result = calculateAnalytics(sessions, dayBoundary);
       setAnalytics(result);
       setTimeRange('ALL');
       toast({
@@ -139,7 +108,7 @@ const Index = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [toast, dayBoundary]);
   const {
     filteredData,
     delta,
@@ -157,7 +126,7 @@ const Index = () => {
     
     // For 1D view, calculate intraday data with plateau-slope model
     if (timeRange === '1D') {
-      const { intradayData: intraday, baselineAverage: baseline } = calculateIntradayData(analytics.dailyData, rawSessions);
+      const { intradayData: intraday, baselineAverage: baseline } = calculateIntradayData(analytics.dailyData, rawSessions, dayBoundary);
       // Delta is the difference between current average and yesterday's baseline
       const currentAvg = intraday.length > 0 ? intraday[intraday.length - 1].cumulativeAverage : analytics.currentAverage;
       const intradayDelta = currentAvg - baseline;
@@ -169,12 +138,7 @@ const Index = () => {
       };
     }
     
-    let data = filterDataByRange(analytics.dailyData, timeRange, analytics.endDate);
-
-    // Downsample for smoother visualization on longer timeframes
-    if (timeRange === '6M' || timeRange === '1Y' || timeRange === 'ALL') {
-      data = downsampleData(data, 100);
-    }
+    const data = filterDataByRange(analytics.dailyData, timeRange, analytics.endDate, dayBoundary);
     const delta = calculateDelta(data);
     return {
       filteredData: data,
@@ -182,7 +146,7 @@ const Index = () => {
       intradayData: [],
       baselineAverage: 0
     };
-  }, [analytics, timeRange, rawSessions]);
+  }, [analytics, timeRange, rawSessions, dayBoundary]);
   const handleManualSync = async () => {
     try {
       const hasNewData = await syncCalendar(false); // Silent sync, we'll show our own toast
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { SessionEditDialog } from '@/components/SessionEditDialog';
+import { usePracticeSessions, PracticeSessionRow, SessionInput, SOURCE_LABELS } from '@/hooks/usePracticeSessions';
+import { useMilestones } from '@/hooks/useMilestones';
+import { useSyncSources } from '@/hooks/useSyncSources';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { formatZonedTime, practiceDayKey } from '@/lib/dayBoundary';
+import { calculateAnalytics, formatHoursMinutes, toPracticeSessions } from '@/lib/practiceAnalytics';
+
+// Number of days rendered before "Show more"
+const DAYS_PAGE_SIZE = 30;
+
+const Sessions = () => {
+  const { sessions, isLoading, isUpdating, addSession, updateSession, deleteSession } = usePracticeSessions();
+  const { checkAndCreateMilestones } = useMilestones();
+  const { sources } = useSyncSources();
+  const [dayBoundary] = useDayBoundary();
+  const [visibleDays, setVisibleDays] = useState(DAYS_PAGE_SIZE);
+  const [editingSession, setEditingSession] = useState<PracticeSessionRow | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  // Calendar sessions are labelled with the name of the source they were synced from
+  const sourceNames = useMemo(() => new Map(sources.map(source => [source.id, source.name])), [sources]);
+
+  // Recompute analytics from the edited session list
+  const analytics = useMemo(() => {
+    if (sessions.length === 0) return null;
+    return calculateAnalytics(toPracticeSessions(sessions), dayBoundary);
+  }, [sessions, dayBoundary]);
+
+  // Re-run the milestone checks whenever an edit changes the totals
+  useEffect(() => {
+    if (analytics && analytics.totalHours >= 100) {
+      checkAndCreateMilestones(analytics.totalHours, analytics.currentAverage);
+    }
+  }, [analytics, checkAndCreateMilestones]);
+
+  // Group sessions by the practice day they started on, newest first
+  const days = useMemo(() => {
+    const groups = new Map<string, PracticeSessionRow[]>();
+    for (let i = sessions.length - 1; i >= 0; i--) {
+      const session = sessions[i];
+      const key = practiceDayKey(new Date(session.started_at), dayBoundary);
+      const group = groups.get(key);
+      if (group) {
+        group.push(session);
+      } else {
+        groups.set(key, [session]);
+      }
+    }
+    return Array.from(groups.entries()).map(([dateStr, daySessions]) => ({
+      dateStr,
+      date: new Date(`${dateStr}T00:00:00`),
+      sessions: daySessions,
+      totalHours: daySessions.reduce((sum, s) => sum + s.duration_seconds / 3600, 0),
+    }));
+  }, [sessions, dayBoundary]);
+
+  const openEditor = (session: PracticeSessionRow | null) => {
+    setEditingSession(session);
+    setIsEditorOpen(true);
+  };
+
+  const handleSave = async (input: SessionInput) => {
+    if (editingSession) {
+      await updateSession(editingSession.id, input);
+    } else {
+      await addSession(input);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border">
+        <div className="container max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/settings">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-lg font-semibold text-foreground">Sessions</h1>
+              <p className="text-xs text-muted-foreground">
+                {analytics
+                  ? `${sessions.length} sessions · ${formatHoursMinutes(analytics.totalHours)} · ${formatHoursMinutes(analytics.currentAverage)}/day`
+                  : 'Add, edit and delete single practice sessions'}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => openEditor(null)} disabled={isUpdating}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-4xl mx-auto px-4 py-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : days.length === 0 ? (
+          <p className="text-center py-12 text-muted-foreground">No practice sessions yet</p>
+        ) : (
+          <div className="space-y-6">
+            {days.slice(0, visibleDays).map(day => (
+              <section key={day.dateStr}>
+                <div className="flex items-baseline justify-between mb-2">
+                  <h2 className="text-sm font-medium text-foreground">{format(day.date, 'EEE, d MMM yyyy')}</h2>
+                  <span className="text-xs text-muted-foreground">{formatHoursMinutes(day.totalHours)}</span>
+                </div>
+                <div className="space-y-1">
+                  {day.sessions.map(session => {
+                    const start = new Date(session.started_at);
+                    const end = new Date(start.getTime() + session.duration_seconds * 1000);
+                    return (
+                      <div
+                        key={session.id}
+                        className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-muted"
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          <span className="text-sm font-mono text-foreground">
+                            {formatZonedTime(start, dayBoundary)}–{formatZonedTime(end, dayBoundary)}
+                          </span>
+                          <span className="text-sm text-muted-foreground">
+                            {formatHoursMinutes(session.duration_seconds / 3600)}
+                          </span>
+                          <Badge variant="outline" className="text-[10px] font-medium text-muted-foreground">
+                            {(session.sync_source_id != null && sourceNames.get(session.sync_source_id))
+                              || SOURCE_LABELS[session.source]
+                              || session.source}
+                          </Badge>
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                            onClick={() => openEditor(session)}
+                            disabled={isUpdating}
+                            aria-label="Edit session"
+                          >
+                            <Pencil className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            onClick={() => deleteSession(session.id)}
+                            disabled={isUpdating}
+                            aria-label="Delete session"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            ))}
+
+            {visibleDays < days.length && (
+              <div className="flex justify-center">
+                <Button variant="ghost" onClick={() => setVisibleDays(prev => prev + DAYS_PAGE_SIZE)}>
+                  Show more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+
+      <SessionEditDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        session={editingSession}
+        onSave={handleSave}
+      />
+    </div>
+  );
+};
+
+export default Sessions;
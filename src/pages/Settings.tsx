@@ -1,50 +1,60 @@
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { CsvImport } from '@/components/CsvImport';
+import { BackupRestore } from '@/components/BackupRestore';
+import { SyncSourcesSettings } from '@/components/SyncSourcesSettings';
+import { CalendarSyncStatus } from '@/components/CalendarSyncStatus';
+import { ForecastModelSelect } from '@/components/ForecastModelSelect';
+import { GoalsSettings } from '@/components/GoalsSettings';
+import { DayBoundarySettings } from '@/components/DayBoundarySettings';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
-import { ArrowLeft, Trash2, Palette } from 'lucide-react';
+import { ArrowLeft, Trash2, Palette, Database, ChevronRight, User, TrendingUp, Target, Clock } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { notifySessionsChanged } from '@/hooks/usePracticeSessions';
+import { useAuth } from '@/hooks/useAuth';
 import { useState } from 'react';
 
 const Settings = () => {
   const { toast } = useToast();
   const [isClearing, setIsClearing] = useState(false);
-  const [passcode, setPasscode] = useState('');
-  const [showPasscodeInput, setShowPasscodeInput] = useState(false);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const { user, signOut } = useAuth();
 
-  const handleClearData = async () => {
-    if (!showPasscodeInput) {
-      setShowPasscodeInput(true);
-      return;
-    }
-
-    if (!passcode.trim()) {
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
       toast({
-        title: 'Passcode required',
-        description: 'Please enter the passcode to delete data',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to sign out',
         variant: 'destructive'
       });
+    }
+  };
+
+  const handleClearData = async () => {
+    if (!showConfirm) {
+      setShowConfirm(true);
       return;
     }
 
     setIsClearing(true);
     try {
-      const { data, error } = await supabase.functions.invoke('delete-all-sessions', {
-        body: { passcode: passcode.trim() },
-      });
+      // The edge function authorizes with the signed-in user's token
+      const { data, error } = await supabase.functions.invoke('delete-all-sessions');
 
       if (error) throw error;
       if (data?.error) throw new Error(data.error);
+      notifySessionsChanged();
 
       toast({
         title: 'Data cleared',
-        description: 'All practice sessions have been deleted.'
+        description: 'All practice sessions were moved to the trash.'
       });
       
-      setPasscode('');
-      setShowPasscodeInput(false);
+      setShowConfirm(false);
     } catch (error) {
       toast({
         title: 'Error',
@@ -76,6 +86,28 @@ const Settings = () => {
       </header>
 
       <main className="container max-w-4xl mx-auto px-4 py-8 space-y-8">
+        {/* Account Section */}
+        <section>
+          <h2 className="text-sm font-medium text-muted-foreground mb-4 flex items-center gap-2">
+            <User className="w-4 h-4" />
+            Account
+          </h2>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Signed in</CardTitle>
+              <CardDescription>
+                {user?.email}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" onClick={handleSignOut}>
+                Sign out
+              </Button>
+            </CardContent>
+          </Card>
+        </section>
+
         {/* Appearance Section */}
         <section>
           <h2 className="text-sm font-medium text-muted-foreground mb-4 flex items-center gap-2">
@@ -96,6 +128,147 @@ const Settings = () => {
           </Card>
         </section>
 
+        {/* Goals Section */}
+        <section>
+          <h2 className="text-sm font-medium text-muted-foreground mb-4 flex items-center gap-2">
+            <Target className="w-4 h-4" />
+            Goals
+          </h2>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Practice goals</CardTitle>
+              <CardDescription>
+                Targets shown as rings on the home screen. Changes apply from today; past days keep the goal they had.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <GoalsSettings />
+            </CardContent>
+          </Card>
+        </section>
+
+        {/* Days Section */}
+        <section>
+          <h2 className="text-sm font-medium text-muted-foreground mb-4 flex items-center gap-2">
+            <Clock className="w-4 h-4" />
+            Days
+          </h2>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Practice day</CardTitle>
+              <CardDescription>
+                When a day starts and in which time zone. Late-night practice before the day start counts towards the previous day, wherever you are.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DayBoundarySettings />
+            </CardContent>
+          </Card>
+        </section>
+
+        {/* Forecast Section */}
+        <section>
+          <h2 className="text-sm font-medium text-muted-foreground mb-4 flex items-center gap-2">
+            <TrendingUp className="w-4 h-4" />
+            Forecast
+          </h2>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Milestone forecast</CardTitle>
+              <CardDescription>
+                How the timeline projects upcoming milestones. Each date comes with a range from a faster to a slower two-week pace.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ForecastModelSelect />
+            </CardContent>
+          </Card>
+        </section>
+
+        {/* Data Section */}
+        <section>
+          <h2 className="text-sm font-medium text-muted-foreground mb-4 flex items-center gap-2">
+            <Database className="w-4 h-4" />
+            Data
+          </h2>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Sessions</CardTitle>
+              <CardDescription>
+                Add, edit or delete single practice sessions
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" asChild>
+                <Link to="/sessions">
+                  Manage sessions
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="text-base">Trash</CardTitle>
+              <CardDescription>
+                Restore deleted sessions, repertoire items and milestones
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" asChild>
+                <Link to="/trash">
+                  Open trash
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="text-base">Calendar sync</CardTitle>
+              <CardDescription>
+                Google Calendars to import practice sessions from, with an optional title filter and minimum duration
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SyncSourcesSettings />
+            </CardContent>
+          </Card>
+
+          <div className="mt-4">
+            <CalendarSyncStatus />
+          </div>
+
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="text-base">Import sessions</CardTitle>
+              <CardDescription>
+                Import an ATracker, Toggl or Clockify CSV, or any CSV/JSON with start and duration columns. Rows already stored are detected and skipped.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CsvImport />
+            </CardContent>
+          </Card>
+
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="text-base">Backup & restore</CardTitle>
+              <CardDescription>
+                Export sessions, milestones and repertoire, or restore them from a backup
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BackupRestore />
+            </CardContent>
+          </Card>
+        </section>
 
         {/* Danger Zone Section */}
         <section>
@@ -109,34 +282,22 @@ const Settings = () => {
                   Danger Zone
                 </CardTitle>
                 <CardDescription>
-                  Permanently delete all your practice data
+                  Move all practice sessions to the trash. Empty the trash to delete them permanently.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-3">
-                {showPasscodeInput && (
-                  <Input
-                    type="password"
-                    placeholder="Enter passcode"
-                    value={passcode}
-                    onChange={(e) => setPasscode(e.target.value)}
-                    className="max-w-xs"
-                  />
-                )}
                 <div className="flex gap-2">
                   <Button 
                     variant="destructive" 
                     onClick={handleClearData}
                     disabled={isClearing}
                   >
-                    {isClearing ? 'Clearing...' : showPasscodeInput ? 'Confirm Delete' : 'Clear All Data'}
+                    {isClearing ? 'Clearing...' : showConfirm ? 'Confirm Delete' : 'Clear All Data'}
                   </Button>
-                  {showPasscodeInput && (
+                  {showConfirm && (
                     <Button 
                       variant="outline" 
-                      onClick={() => {
-                        setShowPasscodeInput(false);
-                        setPasscode('');
-                      }}
+                      onClick={() => setShowConfirm(false)}
                     >
                       Cancel
                     </Button>
@@ -0,0 +1,245 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AverageMetricSelector } from '@/components/AverageMetricSelector';
+import { ScenarioChart } from '@/components/simulator/ScenarioChart';
+import { ScenarioEditor } from '@/components/simulator/ScenarioEditor';
+import { useDailyAnalytics } from '@/hooks/usePracticeSessions';
+import { PREFERENCE_KEYS, usePreference } from '@/hooks/usePreference';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { buildForecast, DEFAULT_FORECAST_MODEL, ForecastModel, forecastMilestone } from '@/lib/forecast';
+import {
+  AVERAGE_METRICS,
+  AverageMetric,
+  formatHoursMinutes,
+  getMetricValue,
+} from '@/lib/practiceAnalytics';
+import { createScenario, Scenario, scenarioMilestoneDate, simulateScenario } from '@/lib/simulator';
+
+const HORIZONS = [
+  { key: '90', label: '3 months', days: 90 },
+  { key: '182', label: '6 months', days: 182 },
+  { key: '365', label: '1 year', days: 365 },
+  { key: '730', label: '2 years', days: 730 },
+  { key: '1825', label: '5 years', days: 1825 },
+];
+
+const SCENARIO_COLORS = ['hsl(var(--chart-positive))', '#A855F7', '#FACC15', '#3B82F6'];
+
+// Stable default so usePreference doesn't re-read on every render
+const NO_SCENARIOS: Scenario[] = [];
+
+function formatDayDifference(date: Date | null, reference: Date | null): string {
+  if (!date || !reference) return '';
+  const days = Math.round((date.getTime() - reference.getTime()) / 86400000);
+  if (days === 0) return 'same day';
+  return days < 0 ? `${-days}d earlier` : `${days}d later`;
+}
+
+const Simulator = () => {
+  const [storedScenarios, setScenarios] = usePreference(PREFERENCE_KEYS.simulatorScenarios, NO_SCENARIOS);
+  const [forecastModel] = usePreference<ForecastModel>(PREFERENCE_KEYS.forecastModel, DEFAULT_FORECAST_MODEL);
+  const [dayBoundary] = useDayBoundary();
+  const { analytics, isLoading } = useDailyAnalytics(dayBoundary);
+  const [horizonKey, setHorizonKey] = useState('365');
+  const [metric, setMetric] = useState<AverageMetric>('lifetime');
+  const horizon = HORIZONS.find(h => h.key === horizonKey) ?? HORIZONS[2];
+
+  // Until the user edits anything, start from the current lifetime pace
+  const scenarios = useMemo(() => {
+    if (storedScenarios.length > 0 || !analytics) return storedScenarios;
+    return [createScenario('Current pace', Math.round(analytics.currentAverage * 4) / 4)];
+  }, [storedScenarios, analytics]);
+
+  const series = useMemo(() => {
+    if (!analytics) return [];
+    return scenarios.map((scenario, index) => ({
+      id: scenario.id,
+      name: scenario.name || `Scenario ${index + 1}`,
+      color: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+      scenario,
+      data: simulateScenario(analytics.dailyData, scenario, horizon.days),
+    }));
+  }, [analytics, scenarios, horizon.days]);
+
+  // The same milestones the timeline forecasts, with its current projection for reference
+  const milestones = useMemo(() => {
+    if (!analytics) return [];
+    const current = analytics.totalHours;
+    const forecast = buildForecast(analytics.dailyData, forecastModel);
+    const targets = [
+      { label: 'Next 100h', hours: Math.ceil(current / 100) * 100 },
+      { label: 'Next 1k', hours: Math.ceil(current / 1000) * 1000 },
+      { label: '10k', hours: 10000 },
+    ].filter((t, i, all) => t.hours > current && all.findIndex(other => other.hours === t.hours) === i);
+
+    return targets.map(target => ({
+      ...target,
+      timelineDate: forecastMilestone(current, target.hours, forecast).date,
+      dates: series.map(s => scenarioMilestoneDate(analytics.dailyData, s.scenario, target.hours)),
+    }));
+  }, [analytics, series, forecastModel]);
+
+  const updateScenario = (index: number, scenario: Scenario) => {
+    setScenarios(scenarios.map((s, i) => (i === index ? scenario : s)));
+  };
+
+  const addScenario = () => {
+    const base = scenarios[scenarios.length - 1];
+    setScenarios([
+      ...scenarios,
+      { ...createScenario(`Scenario ${scenarios.length + 1}`, 0), weekdayHours: [...(base?.weekdayHours ?? new Array(7).fill(1))] },
+    ]);
+  };
+
+  const today = analytics ? analytics.dailyData[analytics.dailyData.length - 1] : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border">
+        <div className="container max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-lg font-semibold text-foreground">What-if</h1>
+              <p className="text-xs text-muted-foreground">Simulate a practice schedule and see where it leads</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-4xl mx-auto px-4 py-6 space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : !analytics || !today ? (
+          <p className="text-center py-12 text-muted-foreground">No practice sessions yet</p>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-base">
+                      {AVERAGE_METRICS.find(m => m.key === metric)?.title}
+                    </CardTitle>
+                    <CardDescription>Actual history, then each scenario from tomorrow on</CardDescription>
+                  </div>
+                  <Select value={horizonKey} onValueChange={setHorizonKey}>
+                    <SelectTrigger className="h-8 w-28 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HORIZONS.map(h => (
+                        <SelectItem key={h.key} value={h.key}>{h.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <AverageMetricSelector selectedMetric={metric} onMetricChange={setMetric} />
+                <ScenarioChart
+                  history={analytics.dailyData}
+                  series={series}
+                  metric={metric}
+                  historyDays={horizon.days}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">After {horizon.label}</CardTitle>
+                <CardDescription>Averages at the end of the simulation and milestone dates</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-muted-foreground">
+                      <th className="text-left font-medium py-1 pr-3" />
+                      <th className="text-right font-medium py-1 px-2">Today</th>
+                      {series.map(s => (
+                        <th key={s.id} className="text-right font-medium py-1 px-2 whitespace-nowrap">
+                          <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: s.color }} />
+                          {s.name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {AVERAGE_METRICS.map(m => (
+                      <tr key={m.key} className="border-t border-border/40">
+                        <td className="py-1.5 pr-3 text-muted-foreground whitespace-nowrap">{m.title}</td>
+                        <td className="py-1.5 px-2 text-right text-foreground">
+                          {formatHoursMinutes(getMetricValue(today, m.key))}
+                        </td>
+                        {series.map(s => (
+                          <td key={s.id} className="py-1.5 px-2 text-right text-foreground">
+                            {formatHoursMinutes(getMetricValue(s.data[s.data.length - 1], m.key))}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                    {milestones.map(target => (
+                      <tr key={target.hours} className="border-t border-border/40">
+                        <td className="py-1.5 pr-3 text-muted-foreground whitespace-nowrap">
+                          {target.label} ({target.hours.toLocaleString('de-DE')}h)
+                        </td>
+                        <td className="py-1.5 px-2 text-right text-foreground whitespace-nowrap">
+                          {target.timelineDate ? format(target.timelineDate, 'MMM d, yyyy') : '—'}
+                        </td>
+                        {target.dates.map((date, index) => (
+                          <td key={series[index].id} className="py-1.5 px-2 text-right whitespace-nowrap">
+                            <span className="text-foreground">{date ? format(date, 'MMM d, yyyy') : '—'}</span>
+                            <span className="block text-[10px] text-muted-foreground">
+                              {formatDayDifference(date, target.timelineDate)}
+                            </span>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="mt-2 text-[10px] text-muted-foreground">
+                  Milestone dates under “Today” are the timeline’s current forecast
+                </p>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              {scenarios.map((scenario, index) => (
+                <ScenarioEditor
+                  key={scenario.id}
+                  scenario={scenario}
+                  color={SCENARIO_COLORS[index % SCENARIO_COLORS.length]}
+                  onChange={(next) => updateScenario(index, next)}
+                  onRemove={scenarios.length > 1 ? () => setScenarios(scenarios.filter((_, i) => i !== index)) : undefined}
+                />
+              ))}
+            </div>
+
+            {scenarios.length < SCENARIO_COLORS.length && (
+              <Button variant="outline" onClick={addScenario}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add scenario
+              </Button>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Simulator;
@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ConsistencyPanel } from '@/components/stats/ConsistencyPanel';
+import { DaySessionsDialog } from '@/components/stats/DaySessionsDialog';
+import { GoalHistoryPanel } from '@/components/stats/GoalHistoryPanel';
+import { PeriodComparisonPanel } from '@/components/stats/PeriodComparisonPanel';
+import { PracticeHeatmap } from '@/components/stats/PracticeHeatmap';
+import { SessionStatsPanel } from '@/components/stats/SessionStatsPanel';
+import { TimeDistributionPanel } from '@/components/stats/TimeDistributionPanel';
+import { useGoals } from '@/hooks/useGoals';
+import { useDailyAnalytics, usePracticeSessions } from '@/hooks/usePracticeSessions';
+import { PREFERENCE_KEYS, usePreference } from '@/hooks/usePreference';
+import { useDayBoundary } from '@/hooks/useDayBoundary';
+import { isOnPracticeDay } from '@/lib/dayBoundary';
+import {
+  calculateConsistency,
+  DEFAULT_STREAK_MINIMUM_MINUTES,
+  formatHoursMinutes,
+  toPracticeSessions,
+} from '@/lib/practiceAnalytics';
+import { goalResults } from '@/lib/goals';
+
+const Stats = () => {
+  // Raw sessions are only needed for the per-session panels and the selected day
+  const { sessions, isLoading: isLoadingSessions } = usePracticeSessions();
+  const { goals } = useGoals();
+  const [minimumMinutes, setMinimumMinutes] = usePreference(
+    PREFERENCE_KEYS.streakMinimumMinutes,
+    DEFAULT_STREAK_MINIMUM_MINUTES
+  );
+  const [heatmapBuckets, setHeatmapBuckets] = usePreference(PREFERENCE_KEYS.heatmapBuckets, 'default');
+  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const [dayBoundary] = useDayBoundary();
+  const { analytics, isLoading } = useDailyAnalytics(dayBoundary);
+
+  const practiceSessions = useMemo(() => toPracticeSessions(sessions), [sessions]);
+
+  const consistency = useMemo(
+    () => (analytics ? calculateConsistency(analytics.dailyData, minimumMinutes, dayBoundary) : null),
+    [analytics, minimumMinutes, dayBoundary]
+  );
+
+  const goalHistory = useMemo(() => {
+    if (!analytics || goals.length === 0) return null;
+    return {
+      day: goalResults(goals, analytics.dailyData, 'day'),
+      week: goalResults(goals, analytics.dailyData, 'week'),
+      month: goalResults(goals, analytics.dailyData, 'month'),
+    };
+  }, [analytics, goals]);
+
+  const selectedDaySessions = useMemo(() => {
+    if (!selectedDay) return [];
+    const dateStr = format(selectedDay, 'yyyy-MM-dd');
+    return sessions.filter(session => {
+      const startedAt = new Date(session.started_at);
+      const endedAt = new Date(startedAt.getTime() + session.duration_seconds * 1000);
+      return isOnPracticeDay(startedAt, endedAt, dateStr, dayBoundary);
+    });
+  }, [sessions, selectedDay, dayBoundary]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border">
+        <div className="container max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-lg font-semibold text-foreground">Stats</h1>
+              <p className="text-xs text-muted-foreground">
+                {analytics
+                  ? `${analytics.totalDays} days · ${formatHoursMinutes(analytics.totalHours)} · ${formatHoursMinutes(analytics.currentAverage)}/day`
+                  : 'How regularly you practice'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-4xl mx-auto px-4 py-6 space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : !analytics || !consistency ? (
+          <p className="text-center py-12 text-muted-foreground">No practice sessions yet</p>
+        ) : (
+          <>
+            <PracticeHeatmap
+              dailyData={analytics.dailyData}
+              bucketPreset={heatmapBuckets}
+              onBucketPresetChange={setHeatmapBuckets}
+              onDayClick={setSelectedDay}
+            />
+            <ConsistencyPanel stats={consistency} onMinimumChange={setMinimumMinutes} />
+            {goalHistory && <GoalHistoryPanel results={goalHistory} />}
+            {isLoadingSessions ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary" />
+              </div>
+            ) : (
+              <>
+                <PeriodComparisonPanel
+                  dailyData={analytics.dailyData}
+                  sessions={practiceSessions}
+                  minimumMinutes={minimumMinutes}
+                  dayBoundary={dayBoundary}
+                />
+                <TimeDistributionPanel sessions={practiceSessions} dayBoundary={dayBoundary} />
+                <SessionStatsPanel sessions={practiceSessions} dayBoundary={dayBoundary} />
+              </>
+            )}
+          </>
+        )}
+      </main>
+
+      <DaySessionsDialog
+        date={selectedDay}
+        sessions={selectedDaySessions}
+        onOpenChange={(open) => !open && setSelectedDay(null)}
+      />
+    </div>
+  );
+};
+
+export default Stats;
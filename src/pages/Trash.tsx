@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useTrash, TrashTable } from '@/hooks/useTrash';
+import { formatHoursMinutes } from '@/lib/practiceAnalytics';
+
+const TABLE_LABELS: Record<TrashTable, string> = {
+  practice_sessions: 'Sessions',
+  repertoire_items: 'Repertoire',
+  milestones: 'Milestones',
+};
+
+// Title and detail line for a trashed row
+function describeRow(table: TrashTable, row: Record<string, unknown>): { title: string; detail: string } {
+  if (table === 'practice_sessions') {
+    const start = new Date(row.started_at as string);
+    return {
+      title: format(start, 'EEE, d MMM yyyy · HH:mm'),
+      detail: formatHoursMinutes((row.duration_seconds as number) / 3600),
+    };
+  }
+  if (table === 'milestones') {
+    return {
+      title: `${row.hours}h`,
+      detail: (row.description as string | null) || (row.milestone_type === 'custom' ? 'Custom milestone' : 'Milestone'),
+    };
+  }
+  return row.type === 'divider'
+    ? { title: (row.divider_label as string | null) || 'Divider', detail: 'Divider' }
+    : { title: row.title as string, detail: (row.status as string | null) ?? '' };
+}
+
+const Trash = () => {
+  const { rows, isLoading, isUpdating, restore, purge, emptyTrash } = useTrash();
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  const tables = Object.keys(TABLE_LABELS) as TrashTable[];
+  const totalCount = tables.reduce((sum, table) => sum + rows[table].length, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border">
+        <div className="container max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/settings">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-lg font-semibold text-foreground">Trash</h1>
+              <p className="text-xs text-muted-foreground">Restore deleted items or remove them permanently</p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setConfirmEmpty(true)}
+              disabled={isUpdating || totalCount === 0}
+            >
+              Empty trash
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-4xl mx-auto px-4 py-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : (
+          <Tabs defaultValue="practice_sessions">
+            <TabsList>
+              {tables.map(table => (
+                <TabsTrigger key={table} value={table}>
+                  {TABLE_LABELS[table]} ({rows[table].length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+
+            {tables.map(table => (
+              <TabsContent key={table} value={table} className="space-y-1 mt-4">
+                {rows[table].length === 0 ? (
+                  <p className="text-center py-12 text-muted-foreground">Nothing in the trash</p>
+                ) : (
+                  rows[table].map(row => {
+                    const id = row.id as number;
+                    const { title, detail } = describeRow(table, row);
+                    return (
+                      <div
+                        key={id}
+                        className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-muted"
+                      >
+                        <div className="min-w-0">
+                          <p className="text-sm text-foreground truncate">{title}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {detail} · deleted {format(new Date(row.deleted_at as string), 'd MMM, HH:mm')}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                            onClick={() => restore(table, [id])}
+                            disabled={isUpdating}
+                            aria-label="Restore"
+                          >
+                            <RotateCcw className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            onClick={() => purge(table, [id])}
+                            disabled={isUpdating}
+                            aria-label="Delete permanently"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+                {rows[table].length > 1 && (
+                  <div className="flex justify-end pt-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => restore(table, rows[table].map(r => r.id as number))}
+                      disabled={isUpdating}
+                    >
+                      Restore all {TABLE_LABELS[table].toLowerCase()}
+                    </Button>
+                  </div>
+                )}
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+      </main>
+
+      <AlertDialog open={confirmEmpty} onOpenChange={setConfirmEmpty}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {totalCount} item{totalCount !== 1 ? 's' : ''} will be deleted permanently. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={emptyTrash}>Delete permanently</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { BACKUP_SCHEMA_VERSION, BackupArchive, buildArchive, planMerge, tableToCSV, validateArchive } from "@/lib/backup";
+
+function archive(tables: Partial<BackupArchive["tables"]> = {}): BackupArchive {
+  return {
+    format: "musical-metrics-backup",
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    appVersion: "test",
+    exportedAt: "2024-03-01T12:00:00.000Z",
+    tables: { practice_sessions: [], milestones: [], repertoire_items: [], ...tables },
+  };
+}
+
+const piece = (title: string, sort_order: number) => ({
+  type: "piece",
+  title,
+  composer: null,
+  status: null,
+  sort_order,
+  started_at: null,
+  divider_label: null,
+});
+
+describe("validateArchive", () => {
+  it("should accept an archive built by buildArchive", () => {
+    const built = buildArchive({
+      practice_sessions: [{ id: 7, started_at: "2024-03-01T10:00:00Z", duration_seconds: 1800, source: "manual", user_id: "u" }],
+      milestones: [],
+      repertoire_items: [],
+    });
+
+    const validated = validateArchive(JSON.parse(JSON.stringify(built)));
+    expect(validated.tables.practice_sessions).toEqual([
+      {
+        started_at: "2024-03-01T10:00:00Z",
+        duration_seconds: 1800,
+        source: "manual",
+        created_at: null,
+        calendar_event_id: null,
+        sync_calendar_id: null,
+      },
+    ]);
+  });
+
+  it("should reject files that aren't backups", () => {
+    expect(() => validateArchive([])).toThrow("not a Musical Metrics backup");
+    expect(() => validateArchive({ format: "other" })).toThrow("not a Musical Metrics backup");
+    expect(() => validateArchive({ ...archive(), schemaVersion: undefined })).toThrow("no schema version");
+    expect(() => validateArchive({ ...archive(), tables: null })).toThrow("no tables");
+  });
+
+  it("should upgrade v1 archives, whose sessions have no calendar links", () => {
+    const v1 = {
+      ...archive(),
+      schemaVersion: 1,
+      tables: {
+        practice_sessions: [{ started_at: "2024-03-01T10:00:00Z", duration_seconds: 1800, source: "google_calendar" }],
+        milestones: [],
+        repertoire_items: [],
+      },
+    };
+
+    const upgraded = validateArchive(v1);
+    expect(upgraded.schemaVersion).toBe(2);
+    expect(upgraded.tables.practice_sessions[0]).toMatchObject({ calendar_event_id: null, sync_calendar_id: null });
+  });
+
+  it("should reject archives from a newer app", () => {
+    expect(() => validateArchive({ ...archive(), schemaVersion: BACKUP_SCHEMA_VERSION + 1 })).toThrow(
+      `newer than this app supports (v${BACKUP_SCHEMA_VERSION})`
+    );
+  });
+
+  it("should name the table and row that is malformed", () => {
+    const missingTable = archive();
+    delete (missingTable.tables as Partial<BackupArchive["tables"]>).milestones;
+    const badRow = archive({ repertoire_items: [{ ...piece("Clair de lune", 1), sort_order: "1" as unknown as number }] });
+
+    expect(() => validateArchive(missingTable)).toThrow("Backup is missing the milestones table");
+    expect(() => validateArchive(badRow)).toThrow('repertoire_items row 1: "sort_order" must be a number');
+  });
+});
+
+describe("planMerge", () => {
+  it("should skip sessions starting at the same moment as an existing one", () => {
+    const session = (started_at: string) => ({
+      started_at,
+      duration_seconds: 600,
+      source: "manual",
+      calendar_event_id: null,
+      sync_calendar_id: null,
+    });
+    const plan = planMerge(
+      archive({ practice_sessions: [session("2024-03-01T10:00:00Z"), session("2024-03-02T10:00:00Z")] }),
+      { sessionStarts: ["2024-03-01T11:00:00+01:00"], repertoire: [] }
+    );
+
+    expect(plan.sessions.map(s => s.started_at)).toEqual(["2024-03-02T10:00:00Z"]);
+  });
+
+  it("should append new repertoire below the current list in archived order", () => {
+    const divider = { ...piece("", 5), type: "divider", divider_label: "100h" };
+    const plan = planMerge(
+      archive({ repertoire_items: [piece("Gymnopédie", 9), piece(" clair de lune ", 1), piece("Arabesque", 3), divider] }),
+      {
+        sessionStarts: [],
+        repertoire: [
+          { type: "piece", title: "Clair de Lune", divider_label: null, sort_order: 4 },
+          { type: "divider", title: "", divider_label: "100h", sort_order: 10 },
+        ],
+      }
+    );
+
+    expect(plan.repertoire.map(r => [r.title, r.sort_order])).toEqual([
+      ["Arabesque", 11],
+      ["Gymnopédie", 12],
+    ]);
+  });
+
+  it("should pass milestones through for the upsert", () => {
+    const milestones = [
+      { hours: 100, achieved_at: null, average_at_milestone: null, description: null, milestone_type: "milestone" },
+    ];
+
+    expect(planMerge(archive({ milestones }), { sessionStarts: [], repertoire: [] }).milestones).toEqual(milestones);
+  });
+});
+
+describe("tableToCSV", () => {
+  it("should write the backup columns and quote cells that need it", () => {
+    const csv = tableToCSV("repertoire_items", [{ ...piece('Prelude, "Raindrop"', 1), composer: "Chopin", id: 3 }]);
+
+    expect(csv.split("\n")).toEqual([
+      "type,title,composer,status,sort_order,started_at,divider_label,created_at",
+      'piece,"Prelude, ""Raindrop""",Chopin,,1,,,',
+    ]);
+  });
+});
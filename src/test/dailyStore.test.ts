@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { createDailyStore, DayTotal, storeAnalytics, syncDailyStore } from "@/lib/dailyStore";
+import { DayBoundary, keyToDate } from "@/lib/dayBoundary";
+
+const UTC_DAYS: DayBoundary = { timeZone: "UTC", dayStartHour: 0, splitSessions: false };
+const NOW = new Date("2024-01-10T12:00:00Z");
+
+const totals = (entries: Record<string, number>): DayTotal[] =>
+  Object.entries(entries).map(([dayKey, hours]) => ({ dayKey, hours }));
+
+// Timeline of a store that has only ever seen these totals
+const fresh = (entries: Record<string, number>, now = NOW) => {
+  const store = createDailyStore();
+  syncDailyStore(store, totals(entries), UTC_DAYS, now);
+  return store.dailyData;
+};
+
+const HISTORY = { "2024-01-01": 1, "2024-01-03": 2, "2024-01-06": 0.5 };
+
+describe("syncDailyStore", () => {
+  it("should build a zero-filled timeline from the first practice day to today", () => {
+    const store = createDailyStore();
+
+    expect(syncDailyStore(store, totals(HISTORY), UTC_DAYS, NOW)).toBe(0);
+    expect(store.dailyData.map(d => d.hoursPlayed)).toEqual([1, 0, 2, 0, 0, 0.5, 0, 0, 0, 0]);
+    expect(store.dailyData[9]).toMatchObject({ dateStr: "2024-01-10", cumulativeHours: 3.5, dayNumber: 10 });
+    expect(store.dayIndex.get("2024-01-06")).toBe(5);
+  });
+
+  it("should keep every day before the first changed total", () => {
+    const store = createDailyStore();
+    syncDailyStore(store, totals(HISTORY), UTC_DAYS, NOW);
+    const unchanged = store.dailyData[1];
+    const rebuilt = store.dailyData[2];
+
+    const changed = { ...HISTORY, "2024-01-03": 3, "2024-01-08": 1 };
+    expect(syncDailyStore(store, totals(changed), UTC_DAYS, NOW)).toBe(2);
+    expect(store.dailyData).toEqual(fresh(changed));
+    expect(store.dailyData[1]).toBe(unchanged);
+    expect(store.dailyData[2]).not.toBe(rebuilt);
+  });
+
+  it("should keep the whole timeline when nothing changed", () => {
+    const store = createDailyStore();
+    syncDailyStore(store, totals(HISTORY), UTC_DAYS, NOW);
+    const before = store.dailyData;
+
+    expect(syncDailyStore(store, totals(HISTORY), UTC_DAYS, NOW)).toBe(10);
+    expect(store.dailyData).toEqual(before);
+  });
+
+  it("should add the days since the last sync when a new day starts", () => {
+    const store = createDailyStore();
+    syncDailyStore(store, totals(HISTORY), UTC_DAYS, NOW);
+
+    const tomorrow = new Date("2024-01-11T08:00:00Z");
+    expect(syncDailyStore(store, totals(HISTORY), UTC_DAYS, tomorrow)).toBe(10);
+    expect(store.dailyData).toEqual(fresh(HISTORY, tomorrow));
+  });
+
+  it("should rebuild everything when the first practice day changes", () => {
+    const store = createDailyStore();
+    syncDailyStore(store, totals(HISTORY), UTC_DAYS, NOW);
+
+    const earlier = { "2023-12-30": 1, ...HISTORY };
+    expect(syncDailyStore(store, totals(earlier), UTC_DAYS, NOW)).toBe(0);
+    expect(store.dailyData).toEqual(fresh(earlier));
+
+    const later = { "2024-01-03": 2, "2024-01-06": 0.5 };
+    expect(syncDailyStore(store, totals(later), UTC_DAYS, NOW)).toBe(0);
+    expect(store.dailyData).toEqual(fresh(later));
+    expect(store.dayIndex.has("2024-01-01")).toBe(false);
+  });
+
+  it("should shrink the timeline back to today when future days are removed", () => {
+    const store = createDailyStore();
+    syncDailyStore(store, totals({ ...HISTORY, "2024-01-14": 1 }), UTC_DAYS, NOW);
+
+    expect(syncDailyStore(store, totals(HISTORY), UTC_DAYS, NOW)).toBe(10);
+    expect(store.dailyData).toEqual(fresh(HISTORY));
+    expect(store.dayIndex.has("2024-01-14")).toBe(false);
+  });
+
+  it("should empty the store when all practice is gone", () => {
+    const store = createDailyStore();
+    syncDailyStore(store, totals(HISTORY), UTC_DAYS, NOW);
+
+    expect(syncDailyStore(store, [], UTC_DAYS, NOW)).toBe(0);
+    expect(store.dailyData).toEqual([]);
+    expect(store.dayIndex.size).toBe(0);
+  });
+});
+
+describe("storeAnalytics", () => {
+  it("should summarize the timeline", () => {
+    const analytics = storeAnalytics({ dailyData: fresh(HISTORY) });
+
+    expect(analytics).toMatchObject({
+      totalHours: 3.5,
+      totalDays: 10,
+      currentAverage: 0.35,
+      startDate: keyToDate("2024-01-01"),
+      endDate: keyToDate("2024-01-10"),
+    });
+  });
+
+  it("should report no analytics without practice", () => {
+    expect(storeAnalytics(createDailyStore())).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  DayBoundary,
+  formatZonedTime,
+  isOnPracticeDay,
+  isValidTimeZone,
+  nextDayKey,
+  practiceDayKey,
+  practiceDayStart,
+  splitByPracticeDay,
+  zonedDateTime,
+  zonedHour,
+  zonedHourStart,
+} from "@/lib/dayBoundary";
+
+const boundary = (timeZone: string, dayStartHour: number, splitSessions = false): DayBoundary => ({
+  timeZone,
+  dayStartHour,
+  splitSessions,
+});
+
+const AMSTERDAM = boundary("Europe/Amsterdam", 0);
+const AMSTERDAM_4AM = boundary("Europe/Amsterdam", 4);
+// Spring forward skips 02:00–03:00 and fall back repeats it
+const DST_DAYS = ["2024-03-31", "2024-10-27"];
+
+const at = (iso: string) => new Date(iso);
+
+describe("practiceDayKey", () => {
+  it("should take the date in the home zone, wherever the browser is", () => {
+    expect(practiceDayKey(at("2024-02-05T23:30:00Z"), AMSTERDAM)).toBe("2024-02-06");
+    expect(practiceDayKey(at("2024-02-05T23:30:00Z"), boundary("America/New_York", 0))).toBe("2024-02-05");
+  });
+
+  it("should credit practice before the day start to the day before", () => {
+    expect(practiceDayKey(at("2024-02-06T02:59:59Z"), AMSTERDAM_4AM)).toBe("2024-02-05");
+    expect(practiceDayKey(at("2024-02-06T03:00:00Z"), AMSTERDAM_4AM)).toBe("2024-02-06");
+    // Across a month and year end
+    expect(practiceDayKey(at("2024-01-01T01:00:00Z"), AMSTERDAM_4AM)).toBe("2023-12-31");
+  });
+
+  it("should follow the wall clock on DST days", () => {
+    // 03:30 CEST on the day clocks go forward, 03:30 CET on the day they go back
+    expect(practiceDayKey(at("2024-03-31T01:30:00Z"), AMSTERDAM_4AM)).toBe("2024-03-30");
+    expect(practiceDayKey(at("2024-10-27T02:30:00Z"), AMSTERDAM_4AM)).toBe("2024-10-26");
+    expect(practiceDayKey(at("2024-10-27T03:00:00Z"), AMSTERDAM_4AM)).toBe("2024-10-27");
+  });
+});
+
+describe("practiceDayStart", () => {
+  it("should start the day at the day start hour in the home zone", () => {
+    expect(practiceDayStart("2024-02-06", AMSTERDAM_4AM)).toEqual(at("2024-02-06T03:00:00Z"));
+    expect(practiceDayStart("2024-07-06", AMSTERDAM_4AM)).toEqual(at("2024-07-06T02:00:00Z"));
+  });
+
+  it("should agree with practiceDayKey on every hour of DST days", () => {
+    for (const dayStartHour of [0, 1, 2, 3, 4, 23]) {
+      const days = boundary("Europe/Amsterdam", dayStartHour);
+      for (const dayKey of DST_DAYS) {
+        const start = practiceDayStart(dayKey, days);
+        expect(practiceDayKey(start, days)).toBe(dayKey);
+        expect(practiceDayKey(new Date(start.getTime() - 1000), days)).not.toBe(dayKey);
+      }
+    }
+  });
+
+  it("should start a day whose start hour is skipped at the moment clocks go forward", () => {
+    expect(practiceDayStart("2024-03-31", boundary("Europe/Amsterdam", 2))).toEqual(at("2024-03-31T01:00:00Z"));
+  });
+
+  it("should start a day whose start hour repeats at its first occurrence", () => {
+    expect(practiceDayStart("2024-10-27", boundary("Europe/Amsterdam", 2))).toEqual(at("2024-10-27T00:00:00Z"));
+  });
+});
+
+describe("zonedDateTime", () => {
+  it("should read the wall clock of the given zone", () => {
+    expect(zonedDateTime(2024, 2, 29, 18, 30, 15, "Asia/Kolkata")).toEqual(at("2024-02-29T13:00:15Z"));
+  });
+
+  it("should resolve skipped times to the end of the gap", () => {
+    expect(zonedDateTime(2024, 3, 10, 2, 15, 0, "America/New_York")).toEqual(at("2024-03-10T07:00:00Z"));
+    // Lord Howe Island moves its clocks by half an hour
+    expect(zonedDateTime(2024, 10, 6, 2, 10, 0, "Australia/Lord_Howe")).toEqual(at("2024-10-05T15:30:00Z"));
+  });
+});
+
+describe("splitByPracticeDay", () => {
+  it("should cut a session at each day start", () => {
+    const parts = splitByPracticeDay(at("2024-02-06T02:00:00Z"), at("2024-02-06T04:30:00Z"), AMSTERDAM_4AM);
+
+    expect(parts).toEqual([
+      { dayKey: "2024-02-05", hours: 1 },
+      { dayKey: "2024-02-06", hours: 1.5 },
+    ]);
+  });
+
+  it("should cut at the day start after a short night", () => {
+    // 01:00 CET to 05:00 CEST is three hours, two of them before the 04:00 day start
+    const parts = splitByPracticeDay(at("2024-03-31T00:00:00Z"), at("2024-03-31T03:00:00Z"), AMSTERDAM_4AM);
+
+    expect(parts).toEqual([
+      { dayKey: "2024-03-30", hours: 2 },
+      { dayKey: "2024-03-31", hours: 1 },
+    ]);
+  });
+});
+
+describe("isOnPracticeDay", () => {
+  const start = at("2024-02-06T02:00:00Z");
+  const end = at("2024-02-06T04:00:00Z");
+
+  it("should only count the start day unless sessions are split", () => {
+    expect(isOnPracticeDay(start, end, "2024-02-05", AMSTERDAM_4AM)).toBe(true);
+    expect(isOnPracticeDay(start, end, "2024-02-06", AMSTERDAM_4AM)).toBe(false);
+  });
+
+  it("should count every day a split session overlaps", () => {
+    const split = { ...AMSTERDAM_4AM, splitSessions: true };
+
+    expect(isOnPracticeDay(start, end, "2024-02-05", split)).toBe(true);
+    expect(isOnPracticeDay(start, end, "2024-02-06", split)).toBe(true);
+    expect(isOnPracticeDay(start, end, "2024-02-07", split)).toBe(false);
+  });
+});
+
+describe("zoned hours", () => {
+  it("should read hours and minutes in the home zone", () => {
+    const kolkata = boundary("Asia/Kolkata", 0);
+
+    expect(zonedHour(at("2024-02-05T10:45:00Z"), kolkata)).toBe(16);
+    expect(formatZonedTime(at("2024-02-05T10:45:00Z"), kolkata)).toBe("16:15");
+    expect(zonedHourStart(at("2024-02-05T10:45:30.500Z"), kolkata)).toEqual(at("2024-02-05T10:30:00Z"));
+    expect(zonedHour(at("2024-02-05T23:00:00Z"), AMSTERDAM)).toBe(0);
+  });
+});
+
+describe("day keys and zones", () => {
+  it("should step to the next calendar day across month ends and DST", () => {
+    expect(nextDayKey("2024-02-28")).toBe("2024-02-29");
+    expect(nextDayKey("2024-12-31")).toBe("2025-01-01");
+    expect(DST_DAYS.map(nextDayKey)).toEqual(["2024-04-01", "2024-10-28"]);
+  });
+
+  it("should recognise IANA zone names", () => {
+    expect(isValidTimeZone("Europe/Amsterdam")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { addDays } from "date-fns";
+import { buildForecast, forecastMilestone } from "@/lib/forecast";
+import { appendDays } from "@/lib/practiceAnalytics";
+import { keyToDate } from "@/lib/dayBoundary";
+
+// 2024-01-01 is a Monday
+const FIRST_DAY = keyToDate("2024-01-01");
+
+const timeline = (hours: number[]) =>
+  appendDays([], hours.map((hoursPlayed, i) => ({ date: addDays(FIRST_DAY, i), hoursPlayed })));
+
+describe("buildForecast", () => {
+  it("should project the lifetime average", () => {
+    const forecast = buildForecast(timeline([2, 0, 1, 1]), "lifetime");
+
+    expect(forecast).toMatchObject({ model: "lifetime", baseRate: 1, trendPerDay: 0, weekdayFactors: [1, 1, 1, 1, 1, 1, 1] });
+  });
+
+  it("should project the pace of the last 90 days", () => {
+    const forecast = buildForecast(timeline([...new Array(100).fill(3), ...new Array(90).fill(1)]), "rolling");
+
+    expect(forecast.baseRate).toBe(1);
+    expect(forecast.spread).toBe(0);
+  });
+
+  it("should fit the trend and the weekday pattern", () => {
+    // Two hours a day on weekdays, nothing at the weekend
+    const weekly = timeline(Array.from({ length: 70 }, (_, i) => (i % 7 < 5 ? 2 : 0)));
+    const rising = timeline(Array.from({ length: 30 }, (_, i) => i / 10));
+
+    const pattern = buildForecast(weekly, "trend");
+    expect(pattern.weekdayFactors.map(f => Number(f.toFixed(2)))).toEqual([1.4, 1.4, 1.4, 1.4, 1.4, 0, 0]);
+    expect(pattern.trendPerDay).toBeCloseTo(0, 2);
+    expect(buildForecast(rising, "trend").trendPerDay).toBeCloseTo(0.1);
+    expect(buildForecast(rising, "trend").baseRate).toBeCloseTo(2.9);
+  });
+
+  it("should widen the band with the variation between two-week blocks", () => {
+    const steady = buildForecast(timeline(new Array(56).fill(1)), "lifetime");
+    const uneven = buildForecast(timeline(Array.from({ length: 56 }, (_, i) => (Math.floor(i / 14) % 2 === 0 ? 2 : 0))), "lifetime");
+
+    expect(steady.spread).toBe(0);
+    expect(uneven.spread).toBeGreaterThan(0);
+  });
+
+  it("should forecast no pace without history", () => {
+    expect(buildForecast([], "trend")).toMatchObject({ baseRate: 0, spread: 0 });
+  });
+});
+
+describe("forecastMilestone", () => {
+  const today = new Date(2024, 2, 1, 15, 0);
+
+  it("should count the days until the remaining hours are played", () => {
+    const forecast = buildForecast(timeline(new Array(28).fill(2)), "lifetime");
+    const milestone = forecastMilestone(95, 100, forecast, today);
+
+    expect(milestone.days).toBe(3);
+    expect(milestone.date).toEqual(addDays(today, 3));
+    expect(milestone.optimisticDays).toBe(3);
+    expect(milestone.pessimisticDays).toBe(3);
+  });
+
+  it("should order the optimistic, expected and pessimistic dates", () => {
+    const forecast = buildForecast(timeline(Array.from({ length: 56 }, (_, i) => (Math.floor(i / 14) % 2 === 0 ? 2 : 0))), "lifetime");
+    const milestone = forecastMilestone(0, 100, forecast, today);
+
+    expect(milestone.optimisticDays).toBeLessThan(milestone.days);
+    expect(milestone.days).toBeLessThan(milestone.pessimisticDays);
+  });
+
+  it("should skip weekdays without practice", () => {
+    const forecast = buildForecast(timeline(Array.from({ length: 70 }, (_, i) => (i % 7 < 5 ? 2 : 0))), "trend");
+    // Friday: Saturday and Sunday add nothing, Monday reaches the target
+    const milestone = forecastMilestone(0, 1.5, forecast, new Date(2024, 2, 1));
+
+    expect(milestone.days).toBe(3);
+  });
+
+  it("should report reached milestones as today and unreachable ones without a date", () => {
+    const forecast = buildForecast(timeline([0, 0, 0]), "lifetime");
+
+    expect(forecastMilestone(10, 5, forecast, today).days).toBe(0);
+    expect(forecastMilestone(0, 5, forecast, today)).toMatchObject({ days: Infinity, date: null, optimisticDate: null });
+  });
+});
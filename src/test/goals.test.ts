@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { addDays } from "date-fns";
+import { appendDays } from "@/lib/practiceAnalytics";
+import { goalHitRate, goalMinutesOn, goalResults, PracticeGoal } from "@/lib/goals";
+import { keyToDate } from "@/lib/dayBoundary";
+
+// Monday 2024-01-01 to Wednesday 2024-01-17: an hour on weekdays, nothing at the weekend
+const DAILY_DATA = appendDays(
+  [],
+  Array.from({ length: 17 }, (_, i) => ({ date: addDays(keyToDate("2024-01-01"), i), hoursPlayed: i % 7 < 5 ? 1 : 0 }))
+);
+
+let nextId = 1;
+const goal = (fields: Partial<PracticeGoal> & Pick<PracticeGoal, "period" | "target_minutes">): PracticeGoal => ({
+  id: nextId++,
+  weekday: null,
+  starts_on: "2024-01-01",
+  ends_on: null,
+  ...fields,
+});
+
+describe("goalMinutesOn", () => {
+  const goals = [
+    goal({ period: "day", target_minutes: 30 }),
+    goal({ period: "day", target_minutes: 90, weekday: 5 }),
+    goal({ period: "week", target_minutes: 240, ends_on: "2024-01-14" }),
+  ];
+
+  it("should prefer a weekday's own daily goal over the every-day goal", () => {
+    expect(goalMinutesOn(goals, "day", keyToDate("2024-01-05"))).toBe(30);
+    expect(goalMinutesOn(goals, "day", keyToDate("2024-01-06"))).toBe(90);
+  });
+
+  it("should only apply goals between their start and end dates", () => {
+    expect(goalMinutesOn(goals, "week", keyToDate("2024-01-14"))).toBe(240);
+    expect(goalMinutesOn(goals, "week", keyToDate("2024-01-15"))).toBeNull();
+    expect(goalMinutesOn(goals, "day", keyToDate("2023-12-31"))).toBeNull();
+    expect(goalMinutesOn(goals, "month", keyToDate("2024-01-05"))).toBeNull();
+  });
+});
+
+describe("goalResults", () => {
+  it("should total Monday-to-Sunday weeks, with the current week up to today", () => {
+    const results = goalResults([goal({ period: "week", target_minutes: 240 })], DAILY_DATA, "week");
+
+    expect(results.map(r => [r.start, r.end, r.actualHours, r.reached])).toEqual([
+      [keyToDate("2024-01-01"), keyToDate("2024-01-07"), 5, true],
+      [keyToDate("2024-01-08"), keyToDate("2024-01-14"), 5, true],
+      [keyToDate("2024-01-15"), keyToDate("2024-01-21"), 3, false],
+    ]);
+  });
+
+  it("should use the target active on the last day of each period", () => {
+    const goals = [
+      goal({ period: "week", target_minutes: 360, ends_on: "2024-01-06" }),
+      goal({ period: "week", target_minutes: 240, starts_on: "2024-01-07" }),
+    ];
+
+    expect(goalResults(goals, DAILY_DATA, "week").map(r => r.targetHours)).toEqual([4, 4, 4]);
+  });
+
+  it("should leave out periods without a target", () => {
+    const results = goalResults([goal({ period: "day", target_minutes: 60, weekday: 0 })], DAILY_DATA, "day");
+
+    expect(results.map(r => r.start)).toEqual([keyToDate("2024-01-01"), keyToDate("2024-01-08"), keyToDate("2024-01-15")]);
+  });
+});
+
+describe("goalHitRate", () => {
+  it("should count the current period only once it is reached", () => {
+    const results = goalResults([goal({ period: "day", target_minutes: 60 })], DAILY_DATA, "day");
+    const today = keyToDate("2024-01-17");
+
+    expect(goalHitRate(results, today)).toEqual({ hit: 13, total: 17, rate: (13 / 17) * 100 });
+    expect(goalHitRate(results.slice(0, -1).concat({ ...results[16], reached: false }), today)).toEqual({
+      hit: 12,
+      total: 16,
+      rate: 75,
+    });
+  });
+});
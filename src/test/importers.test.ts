@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { getImporter, parseDateTime, parseDurationHours, parseImportFile } from "@/lib/importers";
+import { planImport } from "@/lib/sessionImport";
+
+const HOME_ZONE = "Europe/Amsterdam";
+
+const starts = (content: string) => parseImportFile(content, undefined, HOME_ZONE).sessions.map(s => s.startTime.toISOString());
+const hours = (content: string) => parseImportFile(content, undefined, HOME_ZONE).sessions.map(s => s.durationInHours);
+
+describe("parseImportFile", () => {
+  it("should read Clockify exports with decimal or h:mm:ss durations", () => {
+    const decimal = [
+      "Description,Start Date,Start Time,End Date,End Time,Duration (decimal)",
+      "Scales,02/01/2024,06:00:00 PM,02/01/2024,07:30:00 PM,1.50",
+    ].join("\n");
+    const hms = [
+      "Description,Start Date,Start Time,End Date,End Time,Duration (h)",
+      "Scales,02/01/2024,06:00:00 PM,02/01/2024,06:45:00 PM,0:45:00",
+    ].join("\n");
+
+    const result = parseImportFile(decimal, undefined, HOME_ZONE);
+    expect(result.formatId).toBe("clockify");
+    expect(result.settings?.durationUnit).toBe("hours");
+    expect(result.sessions[0]).toMatchObject({ taskName: "Scales", durationInHours: 1.5 });
+    expect(starts(decimal)).toEqual(["2024-02-01T17:00:00.000Z"]);
+    expect(parseImportFile(hms, undefined, HOME_ZONE).settings?.durationUnit).toBe("hms");
+    expect(hours(hms)).toEqual([0.75]);
+  });
+
+  it("should read Toggl exports", () => {
+    const content = [
+      "User,Description,Start date,Start time,End date,End time,Duration",
+      "me,Etudes,2024-02-01,18:00:00,2024-02-01,18:45:00,00:45:00",
+    ].join("\n");
+
+    const result = parseImportFile(content, undefined, HOME_ZONE);
+    expect(result.formatId).toBe("toggl");
+    expect(result.sessions[0]).toMatchObject({ taskName: "Etudes", durationInHours: 0.75 });
+    expect(starts(content)).toEqual(["2024-02-01T17:00:00.000Z"]);
+  });
+
+  it("should read ATracker exports with comma decimals", () => {
+    const content = [
+      "Task name;Start time;End time;Duration in hours",
+      "Piano;1. Feb 2024 at 18:00:00;1. Feb 2024 at 19:30:00;1,50000",
+    ].join("\n");
+
+    const result = parseImportFile(content, undefined, HOME_ZONE);
+    expect(result.formatId).toBe("atracker");
+    expect(result.sessions[0]).toMatchObject({ taskName: "Piano", durationInHours: 1.5 });
+    expect(starts(content)).toEqual(["2024-02-01T17:00:00.000Z"]);
+  });
+
+  it("should read ISO-8601 CSVs, taking the duration unit from the header", () => {
+    const minutes = "start,duration\n2024-02-01T18:00:00+01:00,90";
+    const seconds = "started_at,duration_seconds\n2024-02-01T18:00:00Z,5400";
+    const endOnly = "start,end\n2024-02-01T18:00:00Z,2024-02-01T19:15:00Z";
+
+    expect(parseImportFile(minutes, undefined, HOME_ZONE).formatId).toBe("generic-iso");
+    expect(hours(minutes)).toEqual([1.5]);
+    expect(starts(minutes)).toEqual(["2024-02-01T17:00:00.000Z"]);
+    expect(hours(seconds)).toEqual([1.5]);
+    expect(hours(endOnly)).toEqual([1.25]);
+  });
+
+  it("should read JSON arrays and arrays wrapped in an object", () => {
+    const bare = JSON.stringify([{ start: "2024-02-01T18:00:00Z", duration: 1800, title: "Bach" }]);
+    const wrapped = JSON.stringify({ sessions: [{ start: "2024-02-01T18:00:00Z", duration_min: 30 }] });
+
+    const result = parseImportFile(bare, undefined, HOME_ZONE);
+    expect(result.formatId).toBe("json");
+    expect(result.sessions[0]).toMatchObject({ taskName: "Bach", durationInHours: 0.5 });
+    expect(hours(wrapped)).toEqual([0.5]);
+  });
+
+  it("should read values without an offset on the home-zone clock", () => {
+    const content = "start,duration\n2024-02-01T18:00:00,30\n2024-07-01 18:00,30\n2024-02-01,30";
+
+    expect(starts(content)).toEqual([
+      "2024-02-01T17:00:00.000Z",
+      "2024-07-01T16:00:00.000Z",
+      "2024-01-31T23:00:00.000Z",
+    ]);
+  });
+
+  it("should report unparseable rows with their line number", () => {
+    const content = "start,duration\n2024-02-01T18:00:00Z,30\n2024-02-30T18:00:00,30\n2024-02-02T18:00:00Z,abc";
+
+    const result = parseImportFile(content, undefined, HOME_ZONE);
+    expect(result.sessions).toHaveLength(1);
+    expect(result.errors).toEqual([
+      { row: 3, message: 'Could not parse date "2024-02-30T18:00:00"' },
+      { row: 4, message: 'Could not parse duration "abc"' },
+    ]);
+  });
+
+  it("should leave the mapping to the user when no format matches", () => {
+    const result = parseImportFile("when,how long\n2024-02-01,30", undefined, HOME_ZONE);
+
+    expect(result).toMatchObject({ formatId: null, settings: null, headers: ["when", "how long"], sessions: [] });
+  });
+
+  it("should use the given settings instead of detection", () => {
+    const settings = { ...getImporter("generic-iso").defaults, mapping: { start: "when", duration: "how long" } };
+
+    const result = parseImportFile("when,how long\n2024-02-01T18:00:00Z,45", { formatId: "generic-iso", settings }, HOME_ZONE);
+    expect(result.formatId).toBe("generic-iso");
+    expect(result.sessions[0].durationInHours).toBe(0.75);
+  });
+
+  it("should plan the same session exported by two tools as a duplicate", () => {
+    const toggl = [
+      "Description,Start date,Start time,End date,End time,Duration",
+      "Etudes,2024-02-01,18:00:00,2024-02-01,18:45:00,00:45:00",
+    ].join("\n");
+    const json = JSON.stringify([{ start: "2024-02-01T17:00:30Z", duration: 2700 }]);
+    const existing = parseImportFile(toggl, undefined, HOME_ZONE).sessions.map(s => ({
+      started_at: s.startTime.toISOString(),
+      duration_seconds: Math.round(s.durationInHours * 3600),
+    }));
+
+    const plan = planImport(parseImportFile(json, undefined, HOME_ZONE).sessions, existing);
+    expect(plan.rows[0].status).toBe("duplicate");
+  });
+});
+
+describe("parseDateTime", () => {
+  it("should read day-first, month-first and two-digit years", () => {
+    expect(parseDateTime("01.02.24", "18:00", "dmy", "UTC")).toEqual(new Date("2024-02-01T18:00:00Z"));
+    expect(parseDateTime("02/01/2024", "6:00 p.m.", "mdy", "UTC")).toEqual(new Date("2024-02-01T18:00:00Z"));
+    expect(parseDateTime("2024-02-01", "12:15 AM", "ymd", "UTC")).toEqual(new Date("2024-02-01T00:15:00Z"));
+  });
+
+  it("should reject days the month doesn't have", () => {
+    expect(parseDateTime("31.04.2024", undefined, "dmy", "UTC")).toBeNull();
+    expect(parseDateTime("2023-02-29", undefined, "ymd", "UTC")).toBeNull();
+    expect(parseDateTime("2024-02-29", undefined, "ymd", "UTC")).toEqual(new Date("2024-02-29T00:00:00Z"));
+  });
+
+  it("should read ATracker dates in the home zone rather than the browser's", () => {
+    expect(parseDateTime("1. Feb 2024 at 18:00:00", undefined, "atracker", "America/New_York")).toEqual(
+      new Date("2024-02-01T23:00:00Z")
+    );
+    expect(parseDateTime("31. Mär 2024 18:30", undefined, "atracker", "Asia/Kolkata")).toEqual(new Date("2024-03-31T13:00:00Z"));
+  });
+
+  it("should move times skipped by a DST change to the end of the gap", () => {
+    expect(parseDateTime("2024-03-31T02:30:00", undefined, "iso", HOME_ZONE)).toEqual(new Date("2024-03-31T01:00:00Z"));
+  });
+});
+
+describe("parseDurationHours", () => {
+  it("should convert each unit and decimal convention to hours", () => {
+    expect(parseDurationHours("1,5", "hours", "comma")).toBe(1.5);
+    expect(parseDurationHours("1.234,5", "minutes", "comma")).toBeCloseTo(1234.5 / 60);
+    expect(parseDurationHours("1,234.5", "seconds", "dot")).toBeCloseTo(1234.5 / 3600);
+    expect(parseDurationHours("1:30", "hours", "dot")).toBe(1.5);
+    expect(parseDurationHours("", "hours", "dot")).toBeNaN();
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { addDays, format } from "date-fns";
+import {
+  addHoursToDay,
+  appendDays,
+  calculateConsistency,
+  calculateSessionStats,
+  calculateTimeDistribution,
+  chartPointBudget,
+  CONSISTENCY_WINDOW_DAYS,
+  downsampleData,
+  EWMA_SPAN_DAYS,
+  nearestPointIndex,
+  toPracticeSessions,
+} from "@/lib/practiceAnalytics";
+import { DayBoundary, keyToDate } from "@/lib/dayBoundary";
+
+const UTC_DAYS: DayBoundary = { timeZone: "UTC", dayStartHour: 0, splitSessions: false };
+// Days in Amsterdam that start at 04:00
+const LATE_DAYS: DayBoundary = { timeZone: "Europe/Amsterdam", dayStartHour: 4, splitSessions: false };
+
+const sessions = (...rows: [string, number][]) =>
+  toPracticeSessions(rows.map(([started_at, minutes]) => ({ started_at, duration_seconds: minutes * 60 })));
+
+const FIRST_DAY = keyToDate("2024-01-01");
+
+// Consecutive days from FIRST_DAY with the given hours
+const days = (hours: number[], offset = 0) =>
+  hours.map((hoursPlayed, i) => ({ date: addDays(FIRST_DAY, offset + i), hoursPlayed }));
+
+const timeline = (hours: number[]) => appendDays([], days(hours));
+
+describe("appendDays", () => {
+  it("should carry cumulative totals and the lifetime average", () => {
+    const data = timeline([1, 0, 2]);
+
+    expect(data.map(d => d.dateStr)).toEqual(["2024-01-01", "2024-01-02", "2024-01-03"]);
+    expect(data.map(d => d.cumulativeHours)).toEqual([1, 1, 3]);
+    expect(data[2]).toMatchObject({ dayNumber: 3, cumulativeAverage: 1 });
+  });
+
+  it("should average over the days so far while the history is shorter than the window", () => {
+    const data = timeline([7, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+    expect(data[1].rolling7).toBe(3.5);
+    expect(data[6].rolling7).toBe(1);
+    // Day 1 has left the 7-day window on day 8
+    expect(data[7].rolling7).toBe(0);
+    expect(data[9].rolling30).toBe(0.7);
+  });
+
+  it("should seed the weighted average with the first day and weigh later days by the span", () => {
+    const alpha = 2 / (EWMA_SPAN_DAYS + 1);
+    const data = timeline([2, 0, 4]);
+
+    expect(data[0].ewma).toBe(2);
+    expect(data[1].ewma).toBeCloseTo(2 * (1 - alpha));
+    expect(data[2].ewma).toBeCloseTo(2 * (1 - alpha) ** 2 + 4 * alpha);
+  });
+
+  it("should continue a timeline exactly as if it had been built in one go", () => {
+    const hours = Array.from({ length: 120 }, (_, i) => (i * 7) % 5);
+    const partial = appendDays(timeline(hours.slice(0, 100)), days(hours.slice(100), 100));
+
+    expect(partial).toEqual(timeline(hours));
+  });
+
+  it("should leave the given timeline untouched", () => {
+    const data = timeline([1, 2]);
+
+    appendDays(data, days([3], 2));
+    expect(data).toHaveLength(2);
+  });
+});
+
+describe("addHoursToDay", () => {
+  it("should raise every average as if the hours had been played that day", () => {
+    const hours = Array.from({ length: 40 }, (_, i) => i % 3);
+    const data = timeline(hours);
+    const extended = timeline([...hours.slice(0, -1), hours[hours.length - 1] + 1.5]);
+
+    const added = addHoursToDay(data[data.length - 1], 1.5);
+    const expected = extended[extended.length - 1];
+    for (const key of ["cumulativeHours", "cumulativeAverage", "rolling7", "rolling30", "rolling90", "ewma"] as const) {
+      expect(added[key]).toBeCloseTo(expected[key]);
+    }
+  });
+
+  it("should move the weighted average fully on the first day", () => {
+    expect(addHoursToDay(timeline([1])[0], 2).ewma).toBe(3);
+  });
+});
+
+describe("calculateConsistency", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Timeline from FIRST_DAY whose last day is today
+  const endingToday = (hours: number[]) => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(`${format(addDays(FIRST_DAY, hours.length - 1), "yyyy-MM-dd")}T12:00:00Z`));
+    return timeline(hours);
+  };
+
+  it("should count streaks of days reaching the minimum, including exactly the minimum", () => {
+    const stats = calculateConsistency(endingToday([0.5, 0.25, 1, 0.2, 1, 1]), 15, UTC_DAYS);
+
+    expect(stats.longestStreak).toBe(3);
+    expect(stats.longestStreakStart).toEqual(keyToDate("2024-01-01"));
+    expect(stats.longestStreakEnd).toEqual(keyToDate("2024-01-03"));
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.currentStreakStart).toEqual(keyToDate("2024-01-05"));
+  });
+
+  it("should not end the current streak while today is still short", () => {
+    const stats = calculateConsistency(endingToday([1, 1, 1, 0]), 15, UTC_DAYS);
+
+    expect(stats.currentStreak).toBe(3);
+  });
+
+  it("should end the current streak on a short yesterday", () => {
+    const stats = calculateConsistency(endingToday([1, 1, 0, 0]), 15, UTC_DAYS);
+
+    expect(stats.currentStreak).toBe(0);
+    expect(stats.currentStreakStart).toBeNull();
+  });
+
+  it("should count zero days per calendar month", () => {
+    const hours = Array.from({ length: 35 }, (_, i) => (i % 2 === 0 ? 1 : 0));
+    const stats = calculateConsistency(endingToday(hours), 15, UTC_DAYS);
+
+    expect(stats.zeroDaysByMonth).toEqual([
+      { month: "2024-01", monthStart: keyToDate("2024-01-01"), zeroDays: 15, days: 31 },
+      { month: "2024-02", monthStart: keyToDate("2024-02-01"), zeroDays: 2, days: 4 },
+    ]);
+  });
+
+  it("should score the share of qualifying days in the recent window", () => {
+    const hours = [...new Array(50).fill(1), ...new Array(CONSISTENCY_WINDOW_DAYS).fill(0).map((_, i) => (i < 45 ? 1 : 0))];
+    const stats = calculateConsistency(endingToday(hours), 15, UTC_DAYS);
+
+    expect(stats.windowDays).toBe(CONSISTENCY_WINDOW_DAYS);
+    expect(stats.qualifyingDaysInWindow).toBe(45);
+    expect(stats.consistencyScore).toBe(50);
+  });
+});
+
+describe("calculateTimeDistribution", () => {
+  it("should split sessions over the home-zone hours they cover", () => {
+    // Monday 18:30–20:00 in Amsterdam
+    const distribution = calculateTimeDistribution(sessions(["2024-02-05T17:30:00Z", 90]), null, null, LATE_DAYS);
+
+    expect(distribution.byHour[18]).toBe(0.5);
+    expect(distribution.byHour[19]).toBe(1);
+    expect(distribution.grid[0][19]).toBe(1);
+    expect(distribution.byWeekday).toEqual([1.5, 0, 0, 0, 0, 0, 0]);
+    expect(distribution.totalHours).toBe(1.5);
+  });
+
+  it("should credit practice before the day start to the previous weekday", () => {
+    // Tuesday 02:00 in Amsterdam belongs to Monday's practice day
+    const distribution = calculateTimeDistribution(sessions(["2024-02-06T01:00:00Z", 30]), null, null, LATE_DAYS);
+
+    expect(distribution.grid[0][2]).toBe(0.5);
+    expect(distribution.byWeekday[1]).toBe(0);
+  });
+
+  it("should follow hours of zones with a half-hour offset", () => {
+    // 15:30–16:30 in Kolkata
+    const kolkata = { ...UTC_DAYS, timeZone: "Asia/Kolkata" };
+    const distribution = calculateTimeDistribution(sessions(["2024-02-05T10:00:00Z", 60]), null, null, kolkata);
+
+    expect(distribution.byHour[15]).toBe(0.5);
+    expect(distribution.byHour[16]).toBe(0.5);
+  });
+
+  it("should count an hour repeated by the end of DST twice", () => {
+    // 02:30 CEST until 02:30 CET
+    const distribution = calculateTimeDistribution(sessions(["2024-10-27T00:30:00Z", 60]), null, null, LATE_DAYS);
+
+    expect(distribution.byHour[2]).toBe(1);
+    expect(distribution.totalHours).toBe(1);
+  });
+
+  it("should only count the part of a session inside the range", () => {
+    const distribution = calculateTimeDistribution(
+      sessions(["2024-02-05T17:30:00Z", 90], ["2024-02-07T17:30:00Z", 60]),
+      new Date("2024-02-05T18:00:00Z"),
+      new Date("2024-02-06T00:00:00Z"),
+      LATE_DAYS
+    );
+
+    expect(distribution.totalHours).toBe(1);
+    expect(distribution.byHour[18]).toBe(0);
+  });
+});
+
+describe("calculateSessionStats", () => {
+  const END = new Date("2024-02-05T12:00:00Z");
+
+  it("should report the median, mean, 90th percentile and histogram of session lengths", () => {
+    const stats = calculateSessionStats(
+      sessions(
+        ["2024-02-01T10:00:00Z", 20],
+        ["2024-02-01T12:00:00Z", 5],
+        ["2024-02-02T10:00:00Z", 60],
+        ["2024-02-03T10:00:00Z", 10],
+        ["2024-02-04T10:00:00Z", 30]
+      ),
+      "ALL",
+      END,
+      UTC_DAYS
+    );
+
+    expect(stats).toMatchObject({ sessionCount: 5, medianMinutes: 20, meanMinutes: 25, p90Minutes: 60, days: 5 });
+    expect(stats.sessionsPerDay).toBe(1);
+    expect(stats.shortSessionShare).toBe(4);
+    expect(stats.longestSession?.durationInHours).toBe(1);
+    expect(stats.histogram.map(b => b.count)).toEqual([0, 1, 1, 1, 1, 0, 1, 0, 0]);
+    expect(stats.histogram.map(b => b.label)).toEqual(["<5m", "5m–10m", "10m–20m", "20m–30m", "30m–45m", "45m–1h", "1h–90m", "90m–2h", "2h+"]);
+  });
+
+  it("should take the current practice day for 1D", () => {
+    // 03:00 in Amsterdam, so still the practice day of Feb 5
+    const stats = calculateSessionStats(
+      sessions(["2024-02-05T02:30:00Z", 30], ["2024-02-05T20:00:00Z", 30], ["2024-02-06T01:00:00Z", 30]),
+      "1D",
+      new Date("2024-02-06T02:00:00Z"),
+      LATE_DAYS
+    );
+
+    expect(stats.sessionCount).toBe(2);
+    expect(stats.days).toBe(1);
+  });
+
+  it("should count days from the practice day of the first session", () => {
+    // 02:00 in Amsterdam on Feb 1 is the practice day of Jan 31
+    const stats = calculateSessionStats(sessions(["2024-02-01T01:00:00Z", 30]), "ALL", END, LATE_DAYS);
+
+    expect(stats.days).toBe(6);
+  });
+
+  it("should report zeros without sessions", () => {
+    const stats = calculateSessionStats([], "1W", END, UTC_DAYS);
+
+    expect(stats).toMatchObject({ sessionCount: 0, medianMinutes: 0, p90Minutes: 0, longestSession: null, shortSessionShare: 0 });
+  });
+});
+
+describe("downsampleData", () => {
+  // A thousand quiet days with one long day in the middle
+  const spiky = (spikeDay: number) => timeline(Array.from({ length: 1000 }, (_, i) => (i === spikeDay ? 50 : 0.5)));
+
+  it("should leave data that fits the budget alone", () => {
+    const data = timeline([1, 2, 3]);
+
+    expect(downsampleData(data, 100)).toBe(data);
+  });
+
+  it("should keep the first and last day and fill the budget", () => {
+    const data = spiky(500);
+    const sampled = downsampleData(data, 100, "ewma");
+
+    expect(sampled).toHaveLength(100);
+    expect(sampled[0]).toBe(data[0]);
+    expect(sampled[99]).toBe(data[999]);
+  });
+
+  it("should keep a one-day spike in the chosen average", () => {
+    const sampled = downsampleData(spiky(501), 100, "ewma");
+
+    expect(sampled.map(d => d.dateStr)).toContain(spiky(501)[501].dateStr);
+  });
+
+  it("should keep the peaks of a secondary series", () => {
+    const comparison = spiky(733);
+    const points = timeline(new Array(1000).fill(0.5)).map((d, i) => ({
+      ...d,
+      comparisonHours: i < 200 ? null : comparison[i].ewma,
+    }));
+
+    const sampled = downsampleData(points, 100, "ewma", d => d.comparisonHours);
+    expect(sampled.length).toBeLessThanOrEqual(100);
+    expect(sampled.map(d => d.dateStr)).toContain(points[733].dateStr);
+    expect(sampled.map(d => d.dayNumber)).toEqual([...sampled.map(d => d.dayNumber)].sort((a, b) => a - b));
+    expect(downsampleData(points, 100, "ewma").map(d => d.dateStr)).not.toContain(points[733].dateStr);
+  });
+});
+
+describe("chartPointBudget", () => {
+  it("should allow a point per two pixels, with a minimum", () => {
+    expect(chartPointBudget(800)).toBe(400);
+    expect(chartPointBudget(50)).toBe(60);
+    expect(chartPointBudget(0)).toBe(100);
+  });
+});
+
+describe("nearestPointIndex", () => {
+  const points = [10, 20, 40].map(timestamp => ({ timestamp }));
+
+  it("should find the point closest in time", () => {
+    expect(nearestPointIndex(points, 20)).toBe(1);
+    expect(nearestPointIndex(points, 24)).toBe(1);
+    expect(nearestPointIndex(points, 31)).toBe(2);
+  });
+
+  it("should clamp to the first and last point", () => {
+    expect(nearestPointIndex(points, 0)).toBe(0);
+    expect(nearestPointIndex(points, 99)).toBe(2);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { PracticeSession } from "@/lib/csvParser";
+import { planImport } from "@/lib/sessionImport";
+
+function session(start: string, minutes: number): PracticeSession {
+  const startTime = new Date(start);
+  return {
+    taskName: "Piano",
+    startTime,
+    endTime: new Date(startTime.getTime() + minutes * 60000),
+    duration: "",
+    durationInHours: minutes / 60,
+  };
+}
+
+function stored(start: string, minutes: number) {
+  return { started_at: new Date(start).toISOString(), duration_seconds: minutes * 60 };
+}
+
+describe("planImport", () => {
+  it("should accept sessions that don't touch stored ones", () => {
+    const plan = planImport(
+      [session("2024-03-02T10:00:00Z", 30), session("2024-03-01T10:00:00Z", 90)],
+      [stored("2024-03-01T12:00:00Z", 60)]
+    );
+
+    expect(plan.rows.map(r => r.status)).toEqual(["new", "new"]);
+    expect(plan.summary.newCount).toBe(2);
+    expect(plan.summary.newHours).toBe(2);
+    expect(plan.summary.firstDate).toEqual(new Date("2024-03-01T10:00:00Z"));
+    expect(plan.summary.lastDate).toEqual(new Date("2024-03-02T10:00:00Z"));
+  });
+
+  it("should mark a session starting within a minute of a stored one as a duplicate", () => {
+    const plan = planImport([session("2024-03-01T10:00:45Z", 20)], [stored("2024-03-01T10:00:00Z", 30)]);
+
+    expect(plan.rows[0]).toMatchObject({ status: "duplicate", reason: "Already stored" });
+    expect(plan.summary.duplicateCount).toBe(1);
+  });
+
+  it("should mark a session intersecting a stored one as an overlap", () => {
+    const plan = planImport([session("2024-03-01T10:20:00Z", 30)], [stored("2024-03-01T10:00:00Z", 30)]);
+
+    expect(plan.rows[0]).toMatchObject({ status: "overlap", reason: "Overlaps a stored session" });
+  });
+
+  it("should find overlaps with a long session that started the day before", () => {
+    const plan = planImport([session("2024-03-02T03:00:00Z", 30)], [stored("2024-03-01T20:00:00Z", 8 * 60)]);
+
+    expect(plan.rows[0].status).toBe("overlap");
+  });
+
+  it("should treat back-to-back sessions as new", () => {
+    const plan = planImport([session("2024-03-01T10:30:00Z", 30)], [stored("2024-03-01T10:00:00Z", 30)]);
+
+    expect(plan.rows[0].status).toBe("new");
+  });
+
+  it("should catch rows repeated or overlapping inside the file", () => {
+    const plan = planImport(
+      [
+        session("2024-03-01T10:00:00Z", 60),
+        session("2024-03-01T10:00:30Z", 60),
+        session("2024-03-01T10:30:00Z", 60),
+      ],
+      []
+    );
+
+    expect(plan.rows.map(r => r.reason)).toEqual([undefined, "Repeated in file", "Overlaps another row"]);
+  });
+
+  it("should mark a repeated row that overlaps a stored session as a duplicate", () => {
+    const plan = planImport(
+      [session("2024-03-01T10:20:00Z", 30), session("2024-03-01T10:20:00Z", 30)],
+      [stored("2024-03-01T10:00:00Z", 30)]
+    );
+
+    expect(plan.rows.map(r => r.reason)).toEqual(["Overlaps a stored session", "Repeated in file"]);
+    expect(plan.summary).toMatchObject({ overlapCount: 1, duplicateCount: 1 });
+  });
+
+  it("should reject empty sessions and sessions longer than a day", () => {
+    const plan = planImport([session("2024-03-01T10:00:00Z", 0), session("2024-03-02T10:00:00Z", 25 * 60)], []);
+
+    expect(plan.rows.map(r => r.status)).toEqual(["invalid", "invalid"]);
+    expect(plan.summary.invalidCount).toBe(2);
+    expect(plan.summary.newHours).toBe(0);
+  });
+
+  it("should summarize an empty file", () => {
+    const plan = planImport([], [stored("2024-03-01T10:00:00Z", 30)]);
+
+    expect(plan.summary).toMatchObject({ total: 0, newCount: 0, firstDate: null, lastDate: null });
+  });
+});
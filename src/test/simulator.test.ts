@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { addDays } from "date-fns";
+import { appendDays } from "@/lib/practiceAnalytics";
+import { createScenario, Scenario, scenarioMilestoneDate, simulateScenario } from "@/lib/simulator";
+import { keyToDate } from "@/lib/dayBoundary";
+
+// Ten days of one hour, ending on Wednesday 2024-01-10
+const HISTORY = appendDays([], Array.from({ length: 10 }, (_, i) => ({ date: addDays(keyToDate("2024-01-01"), i), hoursPlayed: 1 })));
+
+const scenario = (weekdayHours: number[], breaks: Scenario["breaks"] = []): Scenario => ({
+  ...createScenario("Plan", 0),
+  weekdayHours,
+  breaks,
+});
+
+const WEEKDAYS_ONLY = [2, 2, 2, 2, 2, 0, 0];
+
+describe("simulateScenario", () => {
+  it("should continue the history with the planned weekday hours, skipping breaks", () => {
+    const simulated = simulateScenario(HISTORY, scenario(WEEKDAYS_ONLY, [{ start: "2024-01-12", end: "2024-01-12" }]), 5);
+
+    expect(simulated.slice(10).map(d => [d.dateStr, d.hoursPlayed])).toEqual([
+      ["2024-01-11", 2],
+      ["2024-01-12", 0],
+      ["2024-01-13", 0],
+      ["2024-01-14", 0],
+      ["2024-01-15", 2],
+    ]);
+    expect(simulated[simulated.length - 1].cumulativeHours).toBe(14);
+  });
+});
+
+describe("scenarioMilestoneDate", () => {
+  // First simulated day whose cumulative hours reach the target
+  const walked = (plan: Scenario, targetHours: number) =>
+    simulateScenario(HISTORY, plan, 3000).find(d => d.cumulativeHours >= targetHours)?.dateStr;
+
+  it("should find the day the plan reaches the target", () => {
+    expect(scenarioMilestoneDate(HISTORY, createScenario("Daily", 1), 15)).toEqual(keyToDate("2024-01-15"));
+  });
+
+  it("should leave out breaks", () => {
+    const plan = scenario(new Array(7).fill(1), [{ start: "2024-01-12", end: "2024-01-13" }]);
+
+    expect(scenarioMilestoneDate(HISTORY, plan, 15)).toEqual(keyToDate("2024-01-17"));
+  });
+
+  it("should match walking day by day for targets far in the future", () => {
+    const plan = scenario(WEEKDAYS_ONLY, [{ start: "2024-03-01", end: "2024-04-30" }]);
+
+    for (const target of [100, 1000, 1010, 1012, 2500]) {
+      expect(scenarioMilestoneDate(HISTORY, plan, target)).toEqual(keyToDate(walked(plan, target)));
+    }
+  });
+
+  it("should return null when the target is reached or never will be", () => {
+    expect(scenarioMilestoneDate(HISTORY, createScenario("Daily", 1), 10)).toBeNull();
+    expect(scenarioMilestoneDate(HISTORY, createScenario("Rest", 0), 20)).toBeNull();
+    expect(scenarioMilestoneDate([], createScenario("Daily", 1), 20)).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { createClient, SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+export class AuthError extends Error {}
+
+/**
+ * Resolve the signed-in caller from the request's JWT and return a client that
+ * acts as that user, so row level security scopes every query to their data.
+ */
+export async function getUserClient(req: Request): Promise<{ supabase: SupabaseClient; user: User }> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new AuthError("Missing authorization header");
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const { data, error } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+  if (error || !data.user) {
+    throw new AuthError("Not signed in");
+  }
+
+  return { supabase, user: data.user };
+}
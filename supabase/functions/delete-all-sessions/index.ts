@@ -1,4 +1,4 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { AuthError, getUserClient } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,9 +6,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
-// Simple passcode for delete protection
-const DELETE_PASSCODE = "Elias";
-
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -16,36 +13,24 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { passcode } = await req.json();
-
-    // Verify passcode
-    if (passcode !== DELETE_PASSCODE) {
-      return new Response(
-        JSON.stringify({ error: "Incorrect passcode" }),
-        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Initialize Supabase client with service role key
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    // Only the caller's own sessions are affected (RLS scopes the client to their rows)
+    const { supabase, user } = await getUserClient(req);
 
-    // Delete all sessions
+    // Move all sessions to the trash; they can be restored or purged from the trash view
     const { error } = await supabase
       .from("practice_sessions")
-      .delete()
-      .neq("id", 0); // Delete all rows
+      .update({ deleted_at: new Date().toISOString() })
+      .is("deleted_at", null);
 
     if (error) {
       console.error("[delete-all-sessions] Error:", error);
       throw new Error(`Failed to delete sessions: ${error.message}`);
     }
 
-    console.log("[delete-all-sessions] All sessions deleted successfully");
+    console.log(`[delete-all-sessions] All sessions of ${user.id} moved to trash`);
 
     return new Response(
-      JSON.stringify({ success: true, message: "All practice sessions deleted" }),
+      JSON.stringify({ success: true, message: "All practice sessions moved to trash" }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
@@ -54,7 +39,7 @@ Deno.serve(async (req) => {
       JSON.stringify({ 
         error: error instanceof Error ? error.message : "Unknown error",
       }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      { status: error instanceof AuthError ? 401 : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
-});
\ No newline at end of file
+});
@@ -1,4 +1,5 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { AuthError, getUserClient } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,17 +7,64 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+// Max ids per `.in()` filter, keeps request URLs short
+const ID_BATCH_SIZE = 200;
+const WRITE_BATCH_SIZE = 100;
+
 interface CalendarEvent {
   id: string;
+  status?: string; // "cancelled" for deleted events in incremental results
   summary?: string;
-  start: { dateTime?: string; date?: string };
-  end: { dateTime?: string; date?: string };
+  start?: { dateTime?: string; date?: string };
+  end?: { dateTime?: string; date?: string };
+}
+
+interface SyncSource {
+  id: number;
+  name: string;
+  calendar_id: string;
+  title_filter: string | null;
+  filter_mode: "keyword" | "regex";
+  min_duration_minutes: number;
+  sync_token: string | null; // null until the first full sync finishes
+  verification_code: string;
+}
+
+const SOURCE_COLUMNS =
+  "id, name, calendar_id, title_filter, filter_mode, min_duration_minutes, sync_token, verification_code";
+
+interface StoredSession {
+  id: number;
+  started_at: string;
+  duration_seconds: number;
+  calendar_event_id: string | null;
+  deleted_at: string | null;
+}
+
+// Why fetched events did not become new sessions, stored with each sync run
+type SkipReason = "all_day" | "title" | "too_short" | "duplicate" | "timer_overlap";
+type SkipCounts = Partial<Record<SkipReason, number>>;
+
+interface SourceResult {
+  sourceId: number;
+  name: string;
+  fullSync: boolean;
+  fetched: number;
+  synced: number;
+  updated: number;
+  removed: number;
+  skipped: SkipCounts;
+  message: string;
+  error?: string;
 }
 
 interface SyncResult {
   synced: number;
+  updated: number;
+  removed: number;
   latestTimestamp: string | null;
   message: string;
+  sources?: SourceResult[];
   error?: string;
 }
 
@@ -101,94 +149,78 @@ async function getServiceAccountAccessToken(serviceAccountJson: string): Promise
   return tokenData.access_token;
 }
 
-Deno.serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    // Get service account credentials and calendar ID from secrets
-    const serviceAccountJson = Deno.env.get("GOOGLE_SERVICE_ACCOUNT_JSON");
-    const calendarId = Deno.env.get("GOOGLE_CALENDAR_ID");
-
-    if (!serviceAccountJson) {
-      console.error("[sync-calendar] Missing GOOGLE_SERVICE_ACCOUNT_JSON secret");
-      return new Response(
-        JSON.stringify({ error: "Server configuration error: Missing service account" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    if (!calendarId) {
-      console.error("[sync-calendar] Missing GOOGLE_CALENDAR_ID secret");
-      return new Response(
-        JSON.stringify({ error: "Server configuration error: Missing calendar ID" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    console.log("[sync-calendar] Starting sync with service account...");
-
-    // Get access token using service account
-    const accessToken = await getServiceAccountAccessToken(serviceAccountJson);
-    console.log("[sync-calendar] Successfully obtained access token");
-
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    // Get the latest session from the database
-    const { data: latestSession, error: latestError } = await supabase
-      .from("practice_sessions")
-      .select("started_at, duration_seconds")
-      .order("started_at", { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (latestError) {
-      console.error("[sync-calendar] Error fetching latest session:", latestError);
-      throw new Error("Failed to fetch latest session from database");
+// Build the event-title predicate for a source; keyword matches are case-insensitive
+function buildTitleFilter(source: SyncSource): (title: string) => boolean {
+  const filter = source.title_filter?.trim();
+  if (!filter) return () => true;
+  if (source.filter_mode === "regex") {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(filter, "i");
+    } catch {
+      throw new Error(`Invalid title filter for "${source.name}": ${filter}`);
     }
+    return (title) => pattern.test(title);
+  }
+  const keyword = filter.toLowerCase();
+  return (title) => title.toLowerCase().includes(keyword);
+}
 
-    const latestTimestamp = latestSession?.started_at || null;
-    const latestDurationSeconds = typeof latestSession?.duration_seconds === "number"
-      ? latestSession.duration_seconds
-      : null;
+// The stored sync token is no longer valid; Google asks for a full sync
+class SyncTokenExpiredError extends Error {}
 
-    const latestEndTimeMs = latestTimestamp && latestDurationSeconds !== null
-      ? new Date(latestTimestamp).getTime() + latestDurationSeconds * 1000
-      : null;
+// Mirrors verificationMarker() in src/hooks/useSyncSources.ts
+const verificationMarker = (code: string) => `musical-metrics-verify:${code}`;
 
-    console.log(
-      `[sync-calendar] Latest session: started_at=${latestTimestamp} derived_end=${latestEndTimeMs ? new Date(latestEndTimeMs).toISOString() : null}`
-    );
+// Every calendar shared with the service account is readable here, so a user has to prove
+// they control one before it is synced into their account: its description must contain
+// the source's verification code, and only someone who can edit the calendar can put it there
+async function verifyCalendar(accessToken: string, source: SyncSource): Promise<void> {
+  const response = await fetch(
+    `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(source.calendar_id)}`,
+    { headers: { Authorization: `Bearer ${accessToken}` } }
+  );
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("[sync-calendar] Calendar API error:", errorText);
+    throw new Error(`Failed to read calendar: ${response.status}`);
+  }
+  const calendar = await response.json();
+  const marker = verificationMarker(source.verification_code);
+  if (!(calendar.description ?? "").includes(marker)) {
+    throw new Error(`Calendar not verified: add "${marker}" to its description in the Google Calendar settings`);
+  }
+}
 
-    // Build the Google Calendar API URL
+// List events page by page. With a sync token only the changes since that token are
+// returned, including cancelled events; the last page carries the next sync token.
+async function fetchEvents(
+  accessToken: string,
+  calendarId: string,
+  syncToken: string | null
+): Promise<{ events: CalendarEvent[]; nextSyncToken: string | null }> {
+  const events: CalendarEvent[] = [];
+  let nextSyncToken: string | null = null;
+  let pageToken: string | undefined;
+
+  do {
     const calendarApiUrl = new URL(
       `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events`
     );
-    
-    // Only fetch events after the latest end time
-    if (latestEndTimeMs) {
-      calendarApiUrl.searchParams.set(
-        "timeMin",
-        new Date(latestEndTimeMs + 1000).toISOString()
-      );
-    }
-    
+    // Sync-token requests must repeat the parameters of the full sync and can't use orderBy/timeMin
     calendarApiUrl.searchParams.set("singleEvents", "true");
-    calendarApiUrl.searchParams.set("orderBy", "startTime");
     calendarApiUrl.searchParams.set("maxResults", "2500");
+    if (syncToken) calendarApiUrl.searchParams.set("syncToken", syncToken);
+    if (pageToken) calendarApiUrl.searchParams.set("pageToken", pageToken);
 
-    console.log(`[sync-calendar] Fetching events from calendar: ${calendarId}`);
-
-    // Fetch events from Google Calendar
     const eventsResponse = await fetch(calendarApiUrl.toString(), {
       headers: { Authorization: `Bearer ${accessToken}` },
     });
 
+    if (eventsResponse.status === 410) {
+      throw new SyncTokenExpiredError("Sync token expired");
+    }
+
     if (!eventsResponse.ok) {
       const errorText = await eventsResponse.text();
       console.error("[sync-calendar] Calendar API error:", errorText);
@@ -196,114 +228,493 @@ Deno.serve(async (req) => {
     }
 
     const eventsData = await eventsResponse.json();
-    const events: CalendarEvent[] = eventsData.items || [];
+    events.push(...(eventsData.items || []));
+    pageToken = eventsData.nextPageToken;
+    nextSyncToken = eventsData.nextSyncToken ?? nextSyncToken;
+  } while (pageToken);
 
-    console.log(`[sync-calendar] Found ${events.length} events to process`);
+  return { events, nextSyncToken };
+}
 
-    if (events.length === 0) {
-      return new Response(
-        JSON.stringify({
-          synced: 0,
-          latestTimestamp,
-          message: "No new events to sync",
-        } as SyncResult),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+// Sessions already imported from a source, trashed ones included. Limited to the
+// given event ids for incremental syncs; a full sync needs all of them.
+async function fetchSourceSessions(
+  supabase: SupabaseClient,
+  sourceId: number,
+  eventIds: string[] | null
+): Promise<StoredSession[]> {
+  const columns = "id, started_at, duration_seconds, calendar_event_id, deleted_at";
+  const sessions: StoredSession[] = [];
+
+  if (eventIds) {
+    for (let i = 0; i < eventIds.length; i += ID_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from("practice_sessions")
+        .select(columns)
+        .eq("sync_source_id", sourceId)
+        .in("calendar_event_id", eventIds.slice(i, i + ID_BATCH_SIZE));
+      if (error) throw new Error(`Failed to fetch synced sessions: ${error.message}`);
+      sessions.push(...(data || []));
     }
+    return sessions;
+  }
 
-    // Transform calendar events to practice sessions
-    const potentialSessions = events
-      .filter((event) => event.start?.dateTime && event.end?.dateTime)
-      .map((event) => {
-        const startTime = new Date(event.start.dateTime!);
-        const endTime = new Date(event.end.dateTime!);
-        const durationSeconds = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
-
-        return {
-          started_at: startTime.toISOString(),
-          duration_seconds: durationSeconds,
-          source: "google_calendar",
-        };
-      })
-      .filter((session) => session.duration_seconds > 0);
+  const pageSize = 1000;
+  let from = 0;
+  let data;
+  do {
+    const { data: pageData, error } = await supabase
+      .from("practice_sessions")
+      .select(columns)
+      .eq("sync_source_id", sourceId)
+      .order("id", { ascending: true })
+      .range(from, from + pageSize - 1);
+    if (error) throw new Error(`Failed to fetch synced sessions: ${error.message}`);
+    data = pageData;
+    sessions.push(...(data || []));
+    from += pageSize;
+  } while (data && data.length === pageSize);
+  return sessions;
+}
 
-    console.log(`[sync-calendar] ${potentialSessions.length} valid sessions to check`);
+async function syncSource(
+  supabase: SupabaseClient,
+  accessToken: string,
+  source: SyncSource
+): Promise<SourceResult> {
+  let fullSync = !source.sync_token;
+  let changes: { events: CalendarEvent[]; nextSyncToken: string | null };
+  try {
+    changes = await fetchEvents(accessToken, source.calendar_id, source.sync_token);
+  } catch (error) {
+    if (!(error instanceof SyncTokenExpiredError)) throw error;
+    console.log(`[sync-calendar] ${source.name}: sync token expired, running a full sync`);
+    fullSync = true;
+    changes = await fetchEvents(accessToken, source.calendar_id, null);
+  }
 
-    if (potentialSessions.length === 0) {
-      return new Response(
-        JSON.stringify({
-          synced: 0,
-          latestTimestamp,
-          message: "No valid practice sessions found",
-        } as SyncResult),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+  console.log(
+    `[sync-calendar] ${source.name}: ${fullSync ? "full" : "incremental"} sync, ${changes.events.length} events`
+  );
+
+  // What each returned event should look like as a session; null when the event was
+  // cancelled or no longer passes the source filters (all-day, title, too short)
+  const matchesTitle = buildTitleFilter(source);
+  const minDurationSeconds = Math.max(0, source.min_duration_minutes) * 60;
+  const wanted = new Map<string, { started_at: string; duration_seconds: number } | null>();
+  const skipped: SkipCounts = {};
+  const skip = (reason: SkipReason, count = 1) => {
+    if (count > 0) skipped[reason] = (skipped[reason] ?? 0) + count;
+  };
+  for (const event of changes.events) {
+    if (event.status === "cancelled") {
+      wanted.set(event.id, null);
+      continue;
+    }
+    if (!event.start?.dateTime || !event.end?.dateTime) {
+      skip("all_day");
+      wanted.set(event.id, null);
+      continue;
     }
+    const startTime = new Date(event.start.dateTime);
+    const durationSeconds = Math.round((new Date(event.end.dateTime).getTime() - startTime.getTime()) / 1000);
+    if (!matchesTitle(event.summary ?? "")) {
+      skip("title");
+      wanted.set(event.id, null);
+    } else if (durationSeconds <= 0 || durationSeconds < minDurationSeconds) {
+      skip("too_short");
+      wanted.set(event.id, null);
+    } else {
+      wanted.set(event.id, { started_at: startTime.toISOString(), duration_seconds: durationSeconds });
+    }
+  }
 
-    // Check for duplicates by started_at
-    const startedAtTimestamps = potentialSessions.map(s => s.started_at);
+  const stored = await fetchSourceSessions(supabase, source.id, fullSync ? null : [...wanted.keys()]);
+  const byEventId = new Map<string, StoredSession>();
+  // Sessions synced before event ids were stored; a full sync links them by start time
+  const unlinkedByStart = new Map<number, StoredSession>();
+  for (const session of stored) {
+    if (session.calendar_event_id) {
+      // A replace-restore leaves the previous copy of a session in the trash; the live one wins
+      const other = byEventId.get(session.calendar_event_id);
+      if (!other || (other.deleted_at && !session.deleted_at)) byEventId.set(session.calendar_event_id, session);
+    } else {
+      unlinkedByStart.set(new Date(session.started_at).getTime(), session);
+    }
+  }
+
+  const changedRows: Record<string, unknown>[] = [];
+  const removedIds: number[] = [];
+  const candidates: { calendar_event_id: string; started_at: string; duration_seconds: number }[] = [];
+
+  for (const [eventId, session] of wanted) {
+    const existing = byEventId.get(eventId);
+    if (!session) {
+      if (existing && !existing.deleted_at) removedIds.push(existing.id);
+      continue;
+    }
+
+    const linked = existing ?? (fullSync ? unlinkedByStart.get(new Date(session.started_at).getTime()) : undefined);
+    if (!linked) {
+      candidates.push({ calendar_event_id: eventId, ...session });
+      continue;
+    }
+
+    // Sessions the user moved to the trash stay there, but still get linked to their event
+    const moved = new Date(linked.started_at).getTime() !== new Date(session.started_at).getTime()
+      || linked.duration_seconds !== session.duration_seconds;
+    if ((moved && !linked.deleted_at) || !linked.calendar_event_id) {
+      changedRows.push({
+        id: linked.id,
+        source: "google_calendar",
+        sync_source_id: source.id,
+        calendar_event_id: eventId,
+        ...(linked.deleted_at
+          ? { started_at: linked.started_at, duration_seconds: linked.duration_seconds }
+          : session),
+      });
+    }
+  }
+
+  // A full sync lists every live event, so linked sessions missing from it were deleted
+  if (fullSync) {
+    for (const session of stored) {
+      if (session.calendar_event_id && !session.deleted_at && !wanted.has(session.calendar_event_id)) {
+        removedIds.push(session.id);
+      }
+    }
+  }
+
+  const { sessions: newSessions, duplicates, timerOverlaps } = await filterNewSessions(supabase, candidates);
+  skip("duplicate", duplicates);
+  skip("timer_overlap", timerOverlaps);
+
+  // Apply edits: upsert on id only touches the columns sent, so deleted_at is kept
+  for (let i = 0; i < changedRows.length; i += WRITE_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("practice_sessions")
+      .upsert(changedRows.slice(i, i + WRITE_BATCH_SIZE), { onConflict: "id" });
+    if (error) throw new Error(`Failed to update sessions: ${error.message}`);
+  }
+
+  // Sessions of deleted events go to the trash, where the user can still restore them
+  const deletedAt = new Date().toISOString();
+  for (let i = 0; i < removedIds.length; i += ID_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("practice_sessions")
+      .update({ deleted_at: deletedAt })
+      .in("id", removedIds.slice(i, i + ID_BATCH_SIZE));
+    if (error) throw new Error(`Failed to remove sessions: ${error.message}`);
+  }
+
+  for (let i = 0; i < newSessions.length; i += WRITE_BATCH_SIZE) {
+    const batch = newSessions.slice(i, i + WRITE_BATCH_SIZE).map((session) => ({
+      ...session,
+      source: "google_calendar",
+      sync_source_id: source.id,
+    }));
+    const { error: insertError } = await supabase
+      .from("practice_sessions")
+      .insert(batch);
+
+    if (insertError) {
+      console.error("[sync-calendar] Insert error:", insertError);
+      throw new Error(`Failed to insert sessions: ${insertError.message}`);
+    }
+  }
+
+  // Only store the token once every change is written, so a failed run is retried in full
+  if (changes.nextSyncToken) {
+    const { error: tokenError } = await supabase
+      .from("sync_sources")
+      .update({ sync_token: changes.nextSyncToken })
+      .eq("id", source.id);
+    if (tokenError) throw new Error(`Failed to save sync token: ${tokenError.message}`);
+  }
+
+  // Edits that only link a session to its event are not reported as updates
+  const updatedCount = changedRows.filter((row) => byEventId.has(row.calendar_event_id as string)).length;
+  console.log(
+    `[sync-calendar] ${source.name}: ${newSessions.length} added, ${updatedCount} updated, ${removedIds.length} removed`
+  );
+
+  return {
+    sourceId: source.id,
+    name: source.name,
+    fullSync,
+    fetched: changes.events.length,
+    synced: newSessions.length,
+    updated: updatedCount,
+    removed: removedIds.length,
+    skipped,
+    message: newSessions.length + updatedCount + removedIds.length > 0
+      ? `Synced ${newSessions.length} new, ${updatedCount} changed and ${removedIds.length} removed sessions`
+      : "All events already synced",
+  };
+}
+
+// Drop events that would duplicate a stored session. Trashed sessions count, so an
+// event the user deleted is not imported again; sessions from other sources count
+// as well, so a block copied into two calendars is imported once.
+async function filterNewSessions<T extends { started_at: string; duration_seconds: number }>(
+  supabase: SupabaseClient,
+  candidates: T[]
+): Promise<{ sessions: T[]; duplicates: number; timerOverlaps: number }> {
+  if (candidates.length === 0) return { sessions: [], duplicates: 0, timerOverlaps: 0 };
+
+  const existingStartMs = new Set<number>();
+  for (let i = 0; i < candidates.length; i += ID_BATCH_SIZE) {
     const { data: existingSessions, error: existingError } = await supabase
       .from("practice_sessions")
       .select("started_at")
-      .in("started_at", startedAtTimestamps);
+      .in("started_at", candidates.slice(i, i + ID_BATCH_SIZE).map((s) => s.started_at));
 
     if (existingError) {
       console.error("[sync-calendar] Error checking duplicates:", existingError);
       throw new Error("Failed to check for duplicate sessions");
     }
+    for (const s of existingSessions || []) existingStartMs.add(new Date(s.started_at).getTime());
+  }
 
-    const existingStartMs = new Set(
-      (existingSessions || []).map((s) => new Date(s.started_at).getTime())
-    );
+  // Sessions recorded with the in-app timer cover the same practice blocks that
+  // ATracker later writes to the calendar, so skip events that overlap them
+  const earliestStartMs = Math.min(...candidates.map(s => new Date(s.started_at).getTime()));
+  const latestEndMs = Math.max(...candidates.map(s => new Date(s.started_at).getTime() + s.duration_seconds * 1000));
+  const { data: timerSessions, error: timerError } = await supabase
+    .from("practice_sessions")
+    .select("started_at, duration_seconds")
+    .eq("source", "in_app_timer")
+    .is("deleted_at", null)
+    .gte("started_at", new Date(earliestStartMs - 24 * 3600 * 1000).toISOString())
+    .lte("started_at", new Date(latestEndMs).toISOString());
+
+  if (timerError) {
+    console.error("[sync-calendar] Error fetching in-app timer sessions:", timerError);
+    throw new Error("Failed to check for in-app timer sessions");
+  }
 
-    const newSessions = potentialSessions.filter((session) => {
-      const ms = new Date(session.started_at).getTime();
-      return !existingStartMs.has(ms);
-    });
+  const timerRanges = (timerSessions || []).map((s) => {
+    const startMs = new Date(s.started_at).getTime();
+    return { startMs, endMs: startMs + s.duration_seconds * 1000 };
+  });
+
+  let duplicates = 0;
+  let timerOverlaps = 0;
+  const sessions = candidates.filter((session) => {
+    const ms = new Date(session.started_at).getTime();
+    if (existingStartMs.has(ms)) {
+      duplicates += 1;
+      return false;
+    }
+    // Two events starting at the same time in one calendar are imported once
+    existingStartMs.add(ms);
+    const endMs = ms + session.duration_seconds * 1000;
+    if (timerRanges.some((range) => range.startMs < endMs && range.endMs > ms)) {
+      timerOverlaps += 1;
+      return false;
+    }
+    return true;
+  });
+  return { sessions, duplicates, timerOverlaps };
+}
+
+// Runs are kept for this long; older ones are deleted at the start of the next sync
+const RUN_RETENTION_DAYS = 90;
+
+// Sync runs are a diagnostics log: failing to write one never fails the sync itself
+async function startRun(supabase: SupabaseClient, source: SyncSource): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("sync_runs")
+    .insert({ sync_source_id: source.id, source_name: source.name, full_sync: !source.sync_token })
+    .select("id")
+    .single();
+  if (error) {
+    console.error("[sync-calendar] Error recording sync run:", error);
+    return null;
+  }
+  return data.id;
+}
+
+async function finishRun(supabase: SupabaseClient, runId: number | null, result: SourceResult) {
+  if (runId === null) return;
+  const { error } = await supabase
+    .from("sync_runs")
+    .update({
+      finished_at: new Date().toISOString(),
+      status: result.error ? "error" : "success",
+      full_sync: result.fullSync,
+      events_fetched: result.fetched,
+      inserted: result.synced,
+      updated: result.updated,
+      removed: result.removed,
+      skipped: Object.values(result.skipped).reduce((sum, count) => sum + (count ?? 0), 0),
+      skip_reasons: result.skipped,
+      error: result.error ?? null,
+    })
+    .eq("id", runId);
+  if (error) console.error("[sync-calendar] Error finishing sync run:", error);
+}
+
+async function pruneRuns(supabase: SupabaseClient) {
+  const cutoff = new Date(Date.now() - RUN_RETENTION_DAYS * 24 * 3600 * 1000).toISOString();
+  const { error } = await supabase.from("sync_runs").delete().lt("started_at", cutoff);
+  if (error) console.error("[sync-calendar] Error pruning sync runs:", error);
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Sessions are read and written as the calling user, so RLS keeps them in their account
+    const { supabase, user } = await getUserClient(req);
+
+    // Get service account credentials from secrets
+    const serviceAccountJson = Deno.env.get("GOOGLE_SERVICE_ACCOUNT_JSON");
+
+    if (!serviceAccountJson) {
+      console.error("[sync-calendar] Missing GOOGLE_SERVICE_ACCOUNT_JSON secret");
+      return new Response(
+        JSON.stringify({ error: "Server configuration error: Missing service account" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The calendar from the GOOGLE_CALENDAR_ID secret belongs to the account named by the
+    // GOOGLE_CALENDAR_USER_ID secret; no other account gets it, and it needs no verification
+    const legacyCalendarId = Deno.env.get("GOOGLE_CALENDAR_ID");
+    const isLegacyOwner = !!legacyCalendarId && Deno.env.get("GOOGLE_CALENDAR_USER_ID") === user.id;
+
+    // Calendars configured in Settings
+    const { data: configuredSources, error: sourcesError } = await supabase
+      .from("sync_sources")
+      .select(SOURCE_COLUMNS)
+      .eq("enabled", true)
+      .order("id", { ascending: true });
+
+    if (sourcesError) {
+      console.error("[sync-calendar] Error fetching sync sources:", sourcesError);
+      throw new Error("Failed to load sync sources");
+    }
 
-    console.log(`[sync-calendar] ${newSessions.length} new sessions after deduplication`);
+    let sources: SyncSource[] = configuredSources || [];
+
+    // For its owner without any configured source, the legacy calendar becomes the first
+    // source so it gets a sync token; calendar sessions synced before sources existed are
+    // assigned to it and linked to their events by the first full sync
+    if (sources.length === 0 && isLegacyOwner) {
+      const { count, error: countError } = await supabase
+        .from("sync_sources")
+        .select("id", { count: "exact", head: true });
+      if (countError) throw new Error("Failed to load sync sources");
+
+      if (count === 0) {
+        const { data: defaultSource, error: createError } = await supabase
+          .from("sync_sources")
+          .insert({ name: "Default calendar", calendar_id: legacyCalendarId })
+          .select(SOURCE_COLUMNS)
+          .single();
+        if (createError) throw new Error(`Failed to create default sync source: ${createError.message}`);
+
+        const { error: adoptError } = await supabase
+          .from("practice_sessions")
+          .update({ sync_source_id: defaultSource.id })
+          .eq("source", "google_calendar")
+          .is("sync_source_id", null);
+        if (adoptError) throw new Error(`Failed to assign calendar sessions: ${adoptError.message}`);
+
+        sources = [defaultSource];
+      }
+    }
 
-    if (newSessions.length === 0) {
+    if (sources.length === 0) {
       return new Response(
         JSON.stringify({
           synced: 0,
-          latestTimestamp,
-          message: "All events already synced",
+          updated: 0,
+          removed: 0,
+          latestTimestamp: null,
+          message: "No calendars enabled for sync",
+          sources: [],
         } as SyncResult),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Insert new sessions in batches
-    const batchSize = 100;
-    let insertedCount = 0;
-
-    for (let i = 0; i < newSessions.length; i += batchSize) {
-      const batch = newSessions.slice(i, i + batchSize);
-      const { error: insertError } = await supabase
-        .from("practice_sessions")
-        .insert(batch);
-
-      if (insertError) {
-        console.error("[sync-calendar] Insert error:", insertError);
-        throw new Error(`Failed to insert sessions: ${insertError.message}`);
+    console.log(`[sync-calendar] Starting sync of ${sources.length} source(s) for ${user.id} with service account...`);
+
+    await pruneRuns(supabase);
+
+    // Sources run one after another so the duplicate check sees earlier inserts.
+    // A failing source is reported but doesn't stop the others.
+    const sourceResults: SourceResult[] = [];
+    let accessToken: string | null = null;
+    for (const source of sources) {
+      const runId = await startRun(supabase, source);
+      let sourceResult: SourceResult;
+      try {
+        // Fetched inside the loop so a credentials problem is recorded on each run
+        if (!accessToken) {
+          accessToken = await getServiceAccountAccessToken(serviceAccountJson);
+          console.log("[sync-calendar] Successfully obtained access token");
+        }
+        if (!(isLegacyOwner && source.calendar_id === legacyCalendarId)) {
+          await verifyCalendar(accessToken, source);
+        }
+        sourceResult = await syncSource(supabase, accessToken, source);
+      } catch (error) {
+        console.error(`[sync-calendar] Error syncing ${source.name}:`, error);
+        sourceResult = {
+          sourceId: source.id,
+          name: source.name,
+          fullSync: !source.sync_token,
+          fetched: 0,
+          synced: 0,
+          updated: 0,
+          removed: 0,
+          skipped: {},
+          message: "Sync failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
       }
+      await finishRun(supabase, runId, sourceResult);
+      sourceResults.push(sourceResult);
+    }
+
+    const insertedCount = sourceResults.reduce((sum, r) => sum + r.synced, 0);
+    const updatedCount = sourceResults.reduce((sum, r) => sum + r.updated, 0);
+    const removedCount = sourceResults.reduce((sum, r) => sum + r.removed, 0);
+    const changedCount = insertedCount + updatedCount + removedCount;
+    const summary = `${insertedCount} new, ${updatedCount} changed and ${removedCount} removed practice sessions`;
+    const failed = sourceResults.filter((r) => r.error);
 
-      insertedCount += batch.length;
+    // Every source failed: report it as an error
+    if (failed.length === sourceResults.length) {
+      throw new Error(failed.map((r) => `${r.name}: ${r.error}`).join("; "));
     }
 
     // Get the new latest timestamp
     const { data: newLatest } = await supabase
       .from("practice_sessions")
       .select("started_at")
+      .is("deleted_at", null)
       .order("started_at", { ascending: false })
       .limit(1)
       .maybeSingle();
 
     const result: SyncResult = {
       synced: insertedCount,
-      latestTimestamp: newLatest?.started_at || latestTimestamp,
-      message: `Successfully synced ${insertedCount} new practice sessions`,
+      updated: updatedCount,
+      removed: removedCount,
+      latestTimestamp: newLatest?.started_at || null,
+      message: failed.length > 0
+        ? `Synced ${summary}; ${failed.map((r) => r.name).join(", ")} failed`
+        : changedCount > 0
+          ? `Successfully synced ${summary}`
+          : "All events already synced",
+      sources: sourceResults,
     };
 
     console.log(`[sync-calendar] Sync complete:`, result);
@@ -318,7 +729,7 @@ Deno.serve(async (req) => {
         error: error instanceof Error ? error.message : "Unknown error",
         synced: 0,
       }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      { status: error instanceof AuthError ? 401 : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
@@ -0,0 +1,11 @@
+-- Allow editing and deleting single practice sessions from the session editor
+-- (matching the public access model of milestones and repertoire_items)
+CREATE POLICY "Allow public update access"
+ON public.practice_sessions
+FOR UPDATE
+USING (true);
+
+CREATE POLICY "Allow public delete access"
+ON public.practice_sessions
+FOR DELETE
+USING (true);
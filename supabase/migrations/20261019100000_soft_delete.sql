@@ -0,0 +1,14 @@
+-- Soft delete: rows are moved to the trash by setting deleted_at and can be
+-- restored or purged from the trash view. Reads filter on deleted_at IS NULL.
+ALTER TABLE public.practice_sessions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE public.repertoire_items ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE public.milestones ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Keep the common "active rows" reads fast
+CREATE INDEX IF NOT EXISTS practice_sessions_active_started_at_idx
+ON public.practice_sessions (started_at)
+WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS repertoire_items_active_sort_order_idx
+ON public.repertoire_items (sort_order)
+WHERE deleted_at IS NULL;
@@ -0,0 +1,111 @@
+-- Per-user data: every row belongs to the signed-in user that created it.
+-- user_id defaults to auth.uid() so client inserts don't have to set it.
+ALTER TABLE public.practice_sessions
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+ALTER TABLE public.milestones
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+ALTER TABLE public.repertoire_items
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS practice_sessions_user_id_started_at_idx ON public.practice_sessions (user_id, started_at);
+CREATE INDEX IF NOT EXISTS milestones_user_id_idx ON public.milestones (user_id);
+CREATE INDEX IF NOT EXISTS repertoire_items_user_id_idx ON public.repertoire_items (user_id);
+
+-- Milestone hours are unique per user instead of globally
+ALTER TABLE public.milestones DROP CONSTRAINT IF EXISTS milestones_hours_key;
+ALTER TABLE public.milestones ADD CONSTRAINT milestones_user_id_hours_key UNIQUE (user_id, hours);
+
+-- Existing rows have no owner and are hidden by the policies below. The first account
+-- created on the project claims them: the app calls this after every sign-in, and for
+-- any other account it does nothing. Returns the number of rows claimed.
+CREATE OR REPLACE FUNCTION public.claim_unowned_rows()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed INTEGER := 0;
+  row_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL
+    OR auth.uid() IS DISTINCT FROM (SELECT id FROM auth.users ORDER BY created_at, id LIMIT 1) THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE practice_sessions SET user_id = auth.uid() WHERE user_id IS NULL;
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  claimed := claimed + row_count;
+
+  -- Hours are unique per user; a milestone the account already has wins
+  UPDATE milestones m SET user_id = auth.uid()
+  WHERE m.user_id IS NULL
+    AND NOT EXISTS (SELECT 1 FROM milestones own WHERE own.user_id = auth.uid() AND own.hours = m.hours);
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  claimed := claimed + row_count;
+
+  UPDATE repertoire_items SET user_id = auth.uid() WHERE user_id IS NULL;
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  claimed := claimed + row_count;
+
+  RETURN claimed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_unowned_rows() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_unowned_rows() TO authenticated;
+
+-- Drop the public policies
+DROP POLICY IF EXISTS "Allow public read access" ON public.practice_sessions;
+DROP POLICY IF EXISTS "Allow public insert access" ON public.practice_sessions;
+DROP POLICY IF EXISTS "Allow public update access" ON public.practice_sessions;
+DROP POLICY IF EXISTS "Allow public delete access" ON public.practice_sessions;
+
+DROP POLICY IF EXISTS "Allow public read access on milestones" ON public.milestones;
+DROP POLICY IF EXISTS "Allow public insert access on milestones" ON public.milestones;
+DROP POLICY IF EXISTS "Allow public update access on milestones" ON public.milestones;
+DROP POLICY IF EXISTS "Allow public delete access on milestones" ON public.milestones;
+
+DROP POLICY IF EXISTS "Allow public read access on repertoire_items" ON public.repertoire_items;
+DROP POLICY IF EXISTS "Allow public insert access on repertoire_items" ON public.repertoire_items;
+DROP POLICY IF EXISTS "Allow public update access on repertoire_items" ON public.repertoire_items;
+DROP POLICY IF EXISTS "Allow public delete access on repertoire_items" ON public.repertoire_items;
+
+-- Owner-scoped policies
+CREATE POLICY "Users can view their own practice sessions"
+ON public.practice_sessions FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own practice sessions"
+ON public.practice_sessions FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own practice sessions"
+ON public.practice_sessions FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own practice sessions"
+ON public.practice_sessions FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own milestones"
+ON public.milestones FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own milestones"
+ON public.milestones FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own milestones"
+ON public.milestones FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own milestones"
+ON public.milestones FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own repertoire items"
+ON public.repertoire_items FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own repertoire items"
+ON public.repertoire_items FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own repertoire items"
+ON public.repertoire_items FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own repertoire items"
+ON public.repertoire_items FOR DELETE TO authenticated USING (auth.uid() = user_id);
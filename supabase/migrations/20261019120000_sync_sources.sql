@@ -0,0 +1,47 @@
+-- Calendars to import practice sessions from, configured per user in Settings
+CREATE TABLE public.sync_sources (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name TEXT NOT NULL,
+  calendar_id TEXT NOT NULL,
+  -- Optional event-title filter; 'keyword' is a case-insensitive substring match
+  title_filter TEXT,
+  filter_mode TEXT NOT NULL DEFAULT 'keyword' CHECK (filter_mode IN ('keyword', 'regex')),
+  -- Events shorter than this are skipped
+  min_duration_minutes INTEGER NOT NULL DEFAULT 0 CHECK (min_duration_minutes >= 0),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Has to appear in the calendar's description before sync-calendar reads it, proving the
+  -- user can edit that calendar (every calendar shared with the service account is readable)
+  verification_code TEXT NOT NULL DEFAULT substr(md5(gen_random_uuid()::text), 1, 16),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, calendar_id)
+);
+
+ALTER TABLE public.sync_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sync sources"
+ON public.sync_sources FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own sync sources"
+ON public.sync_sources FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own sync sources"
+ON public.sync_sources FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own sync sources"
+ON public.sync_sources FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Clients may write the settings but not the verification code
+REVOKE INSERT, UPDATE ON public.sync_sources FROM anon, authenticated;
+GRANT INSERT (name, calendar_id, title_filter, filter_mode, min_duration_minutes, enabled)
+ON public.sync_sources TO authenticated;
+GRANT UPDATE (name, calendar_id, title_filter, filter_mode, min_duration_minutes, enabled)
+ON public.sync_sources TO authenticated;
+
+-- Which source a calendar session was imported from (NULL for sessions synced
+-- from the GOOGLE_CALENDAR_ID secret before sources existed)
+ALTER TABLE public.practice_sessions
+ADD COLUMN IF NOT EXISTS sync_source_id BIGINT REFERENCES public.sync_sources(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS practice_sessions_sync_source_id_idx
+ON public.practice_sessions (sync_source_id, started_at);
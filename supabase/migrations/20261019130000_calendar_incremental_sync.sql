@@ -0,0 +1,14 @@
+-- Google Calendar event a synced session came from, so later edits and deletions
+-- of the event can be applied to the session
+ALTER TABLE public.practice_sessions
+ADD COLUMN IF NOT EXISTS calendar_event_id TEXT;
+
+CREATE INDEX IF NOT EXISTS practice_sessions_sync_source_event_idx
+ON public.practice_sessions (sync_source_id, calendar_event_id);
+
+-- nextSyncToken from the last completed sync; NULL forces a full sync
+ALTER TABLE public.sync_sources
+ADD COLUMN IF NOT EXISTS sync_token TEXT;
+
+-- Written by sync-calendar as the user, and reset by Settings when the filters change
+GRANT UPDATE (sync_token) ON public.sync_sources TO authenticated;
@@ -0,0 +1,37 @@
+-- One row per calendar source per sync-calendar call, for diagnosing missing or
+-- unexpected sessions without reading the edge function logs
+CREATE TABLE public.sync_runs (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  sync_source_id BIGINT REFERENCES public.sync_sources(id) ON DELETE SET NULL,
+  -- Copied from the source so the history stays readable after it is removed
+  source_name TEXT NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'error')),
+  full_sync BOOLEAN NOT NULL DEFAULT false,
+  events_fetched INTEGER NOT NULL DEFAULT 0,
+  inserted INTEGER NOT NULL DEFAULT 0,
+  updated INTEGER NOT NULL DEFAULT 0,
+  removed INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  -- Skipped events by reason: all_day, title, too_short, duplicate, timer_overlap
+  skip_reasons JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error TEXT
+);
+
+CREATE INDEX sync_runs_user_id_started_at_idx ON public.sync_runs (user_id, started_at DESC);
+
+ALTER TABLE public.sync_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sync runs"
+ON public.sync_runs FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own sync runs"
+ON public.sync_runs FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own sync runs"
+ON public.sync_runs FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own sync runs"
+ON public.sync_runs FOR DELETE TO authenticated USING (auth.uid() = user_id);
@@ -0,0 +1,32 @@
+-- Practice targets per day, week or month. Rows are versions: changing a goal ends the
+-- current row (ends_on) and starts a new one, so past periods keep the target they had
+CREATE TABLE public.practice_goals (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  period TEXT NOT NULL CHECK (period IN ('day', 'week', 'month')),
+  -- Daily goals only: 0 = Monday … 6 = Sunday; NULL applies to every day without its own goal
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6),
+  target_minutes INTEGER NOT NULL CHECK (target_minutes > 0),
+  starts_on DATE NOT NULL DEFAULT current_date,
+  -- Last day the goal applied; NULL while it is active
+  ends_on DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (weekday IS NULL OR period = 'day'),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX practice_goals_user_id_idx ON public.practice_goals (user_id);
+
+ALTER TABLE public.practice_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own practice goals"
+ON public.practice_goals FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own practice goals"
+ON public.practice_goals FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own practice goals"
+ON public.practice_goals FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own practice goals"
+ON public.practice_goals FOR DELETE TO authenticated USING (auth.uid() = user_id);
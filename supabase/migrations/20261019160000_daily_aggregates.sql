@@ -0,0 +1,160 @@
+-- Practice time per user and quarter hour, kept up to date by a trigger on practice_sessions
+-- so clients can read daily totals instead of downloading every session. Which day a moment
+-- belongs to depends on the reader's home time zone and day start hour (a per-browser
+-- setting), so the table stores quarter hours, which every zone offset and day start lines
+-- up with, and the functions below group them into practice days when read.
+CREATE TABLE public.practice_time_buckets (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bucket_start TIMESTAMPTZ NOT NULL,
+  -- Full duration of the sessions that started in this quarter hour (day credited to the start)
+  started_seconds DOUBLE PRECISION NOT NULL DEFAULT 0,
+  -- Part of any session played during this quarter hour (sessions split across days)
+  played_seconds DOUBLE PRECISION NOT NULL DEFAULT 0,
+  session_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, bucket_start)
+);
+
+ALTER TABLE public.practice_time_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below
+CREATE POLICY "Users can view their own practice time buckets"
+ON public.practice_time_buckets FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.quarter_hour(moment TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT to_timestamp(floor(extract(epoch FROM moment) / 900) * 900)
+$$;
+
+-- Add (direction 1) or remove (direction -1) one session's time
+CREATE OR REPLACE FUNCTION public.apply_practice_time(
+  p_user_id UUID,
+  p_started_at TIMESTAMPTZ,
+  p_duration_seconds INTEGER,
+  p_direction INTEGER
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  session_end TIMESTAMPTZ := p_started_at + make_interval(secs => p_duration_seconds);
+BEGIN
+  INSERT INTO practice_time_buckets AS b (user_id, bucket_start, started_seconds, session_count)
+  VALUES (p_user_id, quarter_hour(p_started_at), p_direction * p_duration_seconds, p_direction)
+  ON CONFLICT (user_id, bucket_start) DO UPDATE
+  SET started_seconds = b.started_seconds + EXCLUDED.started_seconds,
+      session_count = b.session_count + EXCLUDED.session_count,
+      updated_at = now();
+
+  INSERT INTO practice_time_buckets AS b (user_id, bucket_start, played_seconds)
+  SELECT
+    p_user_id,
+    quarter,
+    p_direction * extract(epoch FROM LEAST(session_end, quarter + interval '15 minutes') - GREATEST(p_started_at, quarter))
+  FROM generate_series(quarter_hour(p_started_at), session_end, interval '15 minutes') AS quarter
+  WHERE quarter < session_end
+  ON CONFLICT (user_id, bucket_start) DO UPDATE
+  SET played_seconds = b.played_seconds + EXCLUDED.played_seconds,
+      updated_at = now();
+
+  -- Drop quarter hours no session contributes to any more
+  DELETE FROM practice_time_buckets
+  WHERE user_id = p_user_id
+    AND bucket_start BETWEEN quarter_hour(p_started_at) AND session_end
+    AND session_count = 0
+    AND abs(played_seconds) < 0.001;
+END;
+$$;
+
+-- Only the trigger may change the buckets
+REVOKE EXECUTE ON FUNCTION public.apply_practice_time(UUID, TIMESTAMPTZ, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Live sessions of an owner count; trashed and unowned ones don't
+CREATE OR REPLACE FUNCTION public.practice_sessions_update_buckets()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.deleted_at IS NULL AND OLD.user_id IS NOT NULL THEN
+    PERFORM apply_practice_time(OLD.user_id, OLD.started_at, OLD.duration_seconds, -1);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.deleted_at IS NULL AND NEW.user_id IS NOT NULL THEN
+    PERFORM apply_practice_time(NEW.user_id, NEW.started_at, NEW.duration_seconds, 1);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER practice_sessions_update_buckets
+AFTER INSERT OR DELETE OR UPDATE OF started_at, duration_seconds, deleted_at, user_id
+ON public.practice_sessions
+FOR EACH ROW EXECUTE FUNCTION public.practice_sessions_update_buckets();
+
+-- Fill the buckets from the sessions that already exist
+SELECT public.apply_practice_time(user_id, started_at, duration_seconds, 1)
+FROM public.practice_sessions
+WHERE deleted_at IS NULL AND user_id IS NOT NULL;
+
+-- Practice day a quarter hour belongs to, as lib/dayBoundary.ts practiceDayKey(): the date on
+-- the wall clock in the home zone, or the day before while that clock is before day_start_hour
+CREATE OR REPLACE FUNCTION public.practice_day(moment TIMESTAMPTZ, time_zone TEXT, day_start_hour INTEGER)
+RETURNS DATE
+LANGUAGE sql STABLE
+AS $$
+  SELECT ((moment AT TIME ZONE time_zone) - make_interval(hours => day_start_hour))::date
+$$;
+
+-- Seconds practised per practice day of the signed-in user, only days with practice
+CREATE OR REPLACE FUNCTION public.practice_daily_totals(
+  time_zone TEXT,
+  day_start_hour INTEGER DEFAULT 0,
+  split_sessions BOOLEAN DEFAULT false
+)
+RETURNS TABLE (day DATE, seconds DOUBLE PRECISION, session_count INTEGER)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT
+    practice_day(b.bucket_start, time_zone, day_start_hour) AS day,
+    CASE WHEN split_sessions THEN sum(b.played_seconds) ELSE sum(b.started_seconds) END AS seconds,
+    sum(b.session_count)::integer AS session_count
+  FROM practice_time_buckets b
+  WHERE b.user_id = auth.uid()
+  GROUP BY 1
+  HAVING sum(b.session_count) > 0 OR (split_sessions AND sum(b.played_seconds) > 0.001)
+  ORDER BY 1
+$$;
+
+-- Lifetime totals of the signed-in user. changed_at moves whenever a session is added,
+-- edited or removed, so clients can skip reloading the daily totals when nothing changed
+CREATE OR REPLACE FUNCTION public.practice_summary(
+  time_zone TEXT,
+  day_start_hour INTEGER DEFAULT 0,
+  split_sessions BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  first_day DATE,
+  last_day DATE,
+  active_days INTEGER,
+  session_count INTEGER,
+  total_seconds DOUBLE PRECISION,
+  changed_at TIMESTAMPTZ
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT
+    min(t.day),
+    max(t.day),
+    count(*)::integer,
+    coalesce(sum(t.session_count), 0)::integer,
+    coalesce(sum(t.seconds), 0),
+    (SELECT max(b.updated_at) FROM practice_time_buckets b WHERE b.user_id = auth.uid())
+  FROM practice_daily_totals(time_zone, day_start_hour, split_sessions) t
+$$;
@@ -0,0 +1,42 @@
+-- Replace-mode backup restore as one transaction, so a failing row leaves the account as it
+-- was. The current sessions, milestones and repertoire items go to the trash instead of being
+-- removed. Milestone hours are unique per user, so a trashed milestone with the same hours as
+-- one in the backup is brought back with the backup's values.
+CREATE OR REPLACE FUNCTION public.replace_practice_data(
+  p_practice_sessions JSONB,
+  p_milestones JSONB,
+  p_repertoire_items JSONB
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE practice_sessions SET deleted_at = now() WHERE user_id = auth.uid() AND deleted_at IS NULL;
+  UPDATE milestones SET deleted_at = now() WHERE user_id = auth.uid() AND deleted_at IS NULL;
+  UPDATE repertoire_items SET deleted_at = now() WHERE user_id = auth.uid() AND deleted_at IS NULL;
+
+  -- Missing created_at and source fall back to the column defaults. Sync source links are only
+  -- kept for the caller's own sources
+  INSERT INTO practice_sessions (started_at, duration_seconds, source, created_at, calendar_event_id, sync_source_id)
+  SELECT r.started_at, r.duration_seconds, coalesce(r.source, 'csv_import'), coalesce(r.created_at, now()),
+    r.calendar_event_id, s.id
+  FROM jsonb_populate_recordset(NULL::practice_sessions, p_practice_sessions) AS r
+  LEFT JOIN sync_sources s ON s.id = r.sync_source_id AND s.user_id = auth.uid();
+
+  INSERT INTO milestones (hours, achieved_at, average_at_milestone, description, milestone_type, created_at)
+  SELECT r.hours, r.achieved_at, r.average_at_milestone, r.description, r.milestone_type, coalesce(r.created_at, now())
+  FROM jsonb_populate_recordset(NULL::milestones, p_milestones) AS r
+  ON CONFLICT (user_id, hours) DO UPDATE
+  SET achieved_at = EXCLUDED.achieved_at,
+      average_at_milestone = EXCLUDED.average_at_milestone,
+      description = EXCLUDED.description,
+      milestone_type = EXCLUDED.milestone_type,
+      created_at = EXCLUDED.created_at,
+      deleted_at = NULL;
+
+  INSERT INTO repertoire_items (type, title, composer, status, sort_order, started_at, divider_label, created_at)
+  SELECT r.type, r.title, r.composer, r.status, r.sort_order, r.started_at, r.divider_label, coalesce(r.created_at, now())
+  FROM jsonb_populate_recordset(NULL::repertoire_items, p_repertoire_items) AS r;
+END;
+$$;